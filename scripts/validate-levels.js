@@ -0,0 +1,76 @@
+import { createServer } from 'vite';
+import { existsSync, readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const packsDir = resolve(__dirname, '../public/levels');
+
+// Vite transpiles the TypeScript level data and validator on the fly;
+// both are Phaser-free so they run fine in Node
+const server = await createServer({
+  root: resolve(__dirname, '..'),
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true, include: [] }
+});
+
+let exitCode = 0;
+
+try {
+  const { getLevels, registerLevels } = await server.ssrLoadModule('/src/game/data/levels.ts');
+  const { parseLevelManifest, parseLevelPack } = await server.ssrLoadModule('/src/game/data/levelFormat.ts');
+  const { validateLevels } = await server.ssrLoadModule('/src/game/model/LevelValidator.ts');
+
+  // Level packs in public/levels, read the same way the game loads them
+  const formatErrors = [];
+  const readJson = file => JSON.parse(readFileSync(resolve(packsDir, file), 'utf8'));
+
+  if (existsSync(resolve(packsDir, 'index.json'))) {
+    try {
+      const manifest = parseLevelManifest(readJson('index.json'), 'levels/index.json');
+      manifest.packs.forEach(file => {
+        try {
+          registerLevels(parseLevelPack(readJson(file), `levels/${file}`).levels);
+        } catch (error) {
+          formatErrors.push(error.message);
+        }
+      });
+    } catch (error) {
+      formatErrors.push(error.message);
+    }
+  }
+
+  formatErrors.forEach(message => console.error(`ERROR ${message}`));
+
+  const levels = getLevels();
+  console.log(`Validating ${levels.length} levels...`);
+
+  const issues = validateLevels([...levels]);
+  const errors = [
+    ...formatErrors,
+    ...issues.filter(issue => issue.severity === 'error')
+  ];
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+
+  issues.forEach(issue => {
+    const log = issue.severity === 'error' ? console.error : console.warn;
+    log(`${issue.severity.toUpperCase()} level ${issue.levelId}: ${issue.message}`);
+  });
+
+  if (errors.length > 0) {
+    console.error(`${errors.length} error(s), ${warnings.length} warning(s)`);
+    exitCode = 1;
+  } else {
+    console.log(`All levels valid (${warnings.length} warning(s))`);
+  }
+} catch (error) {
+  console.error('Failed to validate levels:', error);
+  exitCode = 1;
+} finally {
+  await server.close();
+}
+
+process.exit(exitCode);
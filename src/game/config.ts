@@ -2,6 +2,8 @@ import Phaser from 'phaser';
 import { GameScene } from './scenes/GameScene';
 import { VictoryScene } from './scenes/VictoryScene';
 import { DefeatScene } from './scenes/DefeatScene';
+import { ReplayScene } from './scenes/ReplayScene';
+import { LevelEditorScene } from './scenes/LevelEditorScene';
 
 export const gameConfig: Phaser.Types.Core.GameConfig = {
   type: Phaser.AUTO,
@@ -28,7 +30,7 @@ export const gameConfig: Phaser.Types.Core.GameConfig = {
       debug: false
     }
   },
-  scene: [GameScene, VictoryScene, DefeatScene],
+  scene: [GameScene, VictoryScene, DefeatScene, ReplayScene, LevelEditorScene],
   input: {
     activePointers: 1
   },
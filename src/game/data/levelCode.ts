@@ -0,0 +1,752 @@
+import { LevelData, UndoCost, BlockAxis, ExitCondition, LockData } from './levels';
+import { ShapeDefinition, ShapeType, hasShape, withLevelShapes } from './shapes';
+import { ExitSide } from '../model/types';
+
+/**
+ * Compact URL-safe level codes for sharing levels without a server
+ *
+ * Layout (one byte per value unless noted), base64url encoded:
+ *   version, id (2 bytes), rows, cols, timeLimit (2 bytes),
+ *   block count, then color, shape ID (length-prefixed string), row, col per block,
+ *   obstacle count, then row, col per obstacle,
+ *   exit count, then color, side, startCell, endCell per exit,
+ *   optional tagged fields (tag byte + value) for the optional LevelData fields,
+ *   checksum
+ *
+ * Custom shapes are a tagged field: count, then per shape its name, rows, cols
+ * and the filled cells as a row-major bitmask. A board mask is stored the
+ * same way, sized by the grid.
+ * Version 1 codes stored shapes as an index into CODE_SHAPES_V1 and still decode.
+ */
+
+const CODE_VERSION = 2;
+
+// Lookup tables; append only, since codes store indexes into them
+const CODE_COLORS = ['red', 'blue', 'green', 'yellow', 'orange', 'purple', 'cyan', 'pink', 'rainbow'];
+const CODE_SHAPES_V1: ShapeType[] = [
+  '1x1', '1x2', '1x3', '2x2', '2x3', '3x3',
+  'L_0', 'L_90', 'L_180', 'L_270',
+  'T_0', 'T_90', 'T_180', 'T_270',
+  'Cross'
+];
+const CODE_SIDES: ExitSide[] = ['top', 'bottom', 'left', 'right'];
+const CODE_UNDO_KINDS: UndoCost['kind'][] = ['time', 'moves'];
+const CODE_EXIT_CONDITIONS: ExitCondition['kind'][] = ['cleared'];
+const CODE_AXES: BlockAxis[] = ['free', 'horizontal', 'vertical'];
+
+// Optional field tags
+const TAG_UNDO_COST = 1;
+const TAG_HINT_LIMIT = 2;
+const TAG_SHAPES = 3;
+const TAG_ROTATABLE = 4; // Count, then the index of each rotatable block
+const TAG_AXES = 5; // Count, then block index and axis for each axis-locked block
+const TAG_FROZEN = 6; // Count, then block index and moves until it thaws for each frozen block
+const TAG_LOCKS = 7; // Count, then row, col and color per lock
+const TAG_KEYS = 8; // Count, then row, col and color per key
+const TAG_PAINTS = 9; // Count, then row, col and color per paint cell
+const TAG_EXIT_CAPACITY = 10; // Count, then exit index and capacity per exit with one
+const TAG_EXIT_ORDER = 11; // Count, then exit index, length and block indexes per ordered exit
+const TAG_EXIT_CONDITIONS = 12; // Count, then exit index, kind and color per conditional exit
+const TAG_LINKS = 13; // Count, then length and block indexes per link group
+const TAG_SCISSORS = 14; // Count, then row and col per scissors cell
+const TAG_MASK = 15; // Playable cells as a row-major bitmask over the grid
+const TAG_WALLS = 16; // Count, then row, col and side per thin wall
+const TAG_OBSTACLE_SHAPES = 17; // Count, then obstacle index and shape ID per shaped obstacle
+const TAG_CRATES = 18; // Count, then shape ID, row and col per crate
+const TAG_PORTALS = 19; // Count, then both ends' rows and cols and a shape ID ('' for one cell) per portal pair
+const TAG_PATROLS = 20; // Count, then waypoint count and each waypoint's row and col per patrol
+const TAG_PLATES = 21; // Count, then row, col, gate count and each gate's row and col per plate
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  public byte(value: number, label: string): void {
+    if (!Number.isInteger(value) || value < 0 || value > 0xff) {
+      throw new Error(`Cannot encode ${label} ${value}: must be a whole number from 0 to 255`);
+    }
+    this.bytes.push(value);
+  }
+
+  public uint16(value: number, label: string): void {
+    if (!Number.isInteger(value) || value < 0 || value > 0xffff) {
+      throw new Error(`Cannot encode ${label} ${value}: must be a whole number from 0 to 65535`);
+    }
+    this.bytes.push(value >> 8, value & 0xff);
+  }
+
+  public string(value: string, label: string): void {
+    if (!/^[\x20-\x7e]*$/.test(value)) {
+      throw new Error(`Cannot encode ${label} "${value}": only plain ASCII is allowed`);
+    }
+    this.byte(value.length, `${label} length`);
+    [...value].forEach(char => this.bytes.push(char.charCodeAt(0)));
+  }
+
+  public index<T>(table: readonly T[], value: T, label: string): void {
+    const index = table.indexOf(value);
+    if (index < 0) {
+      throw new Error(`Cannot encode ${label} "${value}": not one of ${table.join(', ')}`);
+    }
+    this.bytes.push(index);
+  }
+
+  /**
+   * Bytes with a trailing checksum
+   */
+  public finish(): Uint8Array {
+    return Uint8Array.from([...this.bytes, checksum(this.bytes)]);
+  }
+}
+
+class ByteReader {
+  private bytes: Uint8Array;
+  private offset: number = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  public byte(label: string): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error(`Level code is cut short (missing ${label})`);
+    }
+    return this.bytes[this.offset++];
+  }
+
+  public uint16(label: string): number {
+    return (this.byte(label) << 8) | this.byte(label);
+  }
+
+  public string(label: string): string {
+    const length = this.byte(`${label} length`);
+    let value = '';
+    for (let i = 0; i < length; i++) {
+      value += String.fromCharCode(this.byte(label));
+    }
+    return value;
+  }
+
+  public index<T>(table: readonly T[], label: string): T {
+    const index = this.byte(label);
+    if (index >= table.length) {
+      throw new Error(`Level code has an unknown ${label} (${index})`);
+    }
+    return table[index];
+  }
+
+  public hasMore(): boolean {
+    return this.offset < this.bytes.length;
+  }
+}
+
+function checksum(bytes: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    sum = (sum * 31 + bytes[i]) & 0xff;
+  }
+  return sum;
+}
+
+/**
+ * Text rows of 'X' (filled) cells, packed as a row-major bitmask
+ */
+function writeCells(writer: ByteWriter, cells: readonly string[], cols: number, label: string): void {
+  const bits = cells.flatMap(row => [...row.padEnd(cols, '.').slice(0, cols)].map(char => char === 'X' || char === 'x'));
+  for (let i = 0; i < bits.length; i += 8) {
+    let byte = 0;
+    bits.slice(i, i + 8).forEach((bit, index) => { if (bit) byte |= 1 << index; });
+    writer.byte(byte, label);
+  }
+}
+
+function readCells(reader: ByteReader, rows: number, cols: number, label: string): string[] {
+  const bits: boolean[] = [];
+  for (let i = 0; i < rows * cols; i += 8) {
+    const byte = reader.byte(label);
+    for (let bit = 0; bit < 8; bit++) bits.push((byte & (1 << bit)) !== 0);
+  }
+
+  const cells: string[] = [];
+  for (let row = 0; row < rows; row++) {
+    cells.push(bits.slice(row * cols, (row + 1) * cols).map(bit => bit ? 'X' : '.').join(''));
+  }
+  return cells;
+}
+
+function writeShape(writer: ByteWriter, shape: ShapeDefinition, label: string): void {
+  const cols = Math.max(...shape.cells.map(row => row.length));
+  writer.string(shape.name, `${label} name`);
+  writer.byte(shape.cells.length, `${label} rows`);
+  writer.byte(cols, `${label} cols`);
+  writeCells(writer, shape.cells, cols, `${label} cells`);
+}
+
+function readShape(reader: ByteReader, label: string): ShapeDefinition {
+  const name = reader.string(`${label} name`);
+  const rows = reader.byte(`${label} rows`);
+  const cols = reader.byte(`${label} cols`);
+  return { name, cells: readCells(reader, rows, cols, `${label} cells`) };
+}
+
+/**
+ * Locks, keys and paints share a layout: count, then row, col and color per cell
+ */
+function writeColorCells(writer: ByteWriter, cells: readonly LockData[], label: string): void {
+  writer.byte(cells.length, `${label} count`);
+  cells.forEach((cell, index) => {
+    writer.byte(cell.row, `${label} ${index} row`);
+    writer.byte(cell.col, `${label} ${index} col`);
+    writer.index(CODE_COLORS, cell.color.toLowerCase(), `${label} ${index} color`);
+  });
+}
+
+function readColorCells(reader: ByteReader, label: string): LockData[] {
+  const count = reader.byte(`${label} count`);
+  const cells: LockData[] = [];
+  for (let i = 0; i < count; i++) {
+    const row = reader.byte(`${label} ${i} row`);
+    const col = reader.byte(`${label} ${i} col`);
+    const color = reader.index(CODE_COLORS, `${label} ${i} color`);
+    cells.push({ row, col, color });
+  }
+  return cells;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]+$/.test(code)) {
+    throw new Error('Level code contains characters that are not allowed');
+  }
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+  try {
+    const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch {
+    throw new Error('Level code is not valid');
+  }
+}
+
+/**
+ * Encode a level as a short URL-safe string
+ * Throws if the level uses values the code cannot represent (e.g. an unknown color)
+ */
+export function encodeLevel(level: LevelData): string {
+  const writer = new ByteWriter();
+
+  writer.byte(CODE_VERSION, 'version');
+  writer.uint16(level.id, 'level id');
+  writer.byte(level.gridSize.rows, 'grid rows');
+  writer.byte(level.gridSize.cols, 'grid cols');
+  writer.uint16(level.timeLimit, 'time limit');
+
+  writer.byte(level.blocks.length, 'block count');
+  level.blocks.forEach((block, index) => {
+    writer.index(CODE_COLORS, block.color.toLowerCase(), `block ${index} color`);
+    writer.string(block.shape, `block ${index} shape`);
+    writer.byte(block.startPosition.row, `block ${index} row`);
+    writer.byte(block.startPosition.col, `block ${index} col`);
+  });
+
+  writer.byte(level.obstacles.length, 'obstacle count');
+  level.obstacles.forEach((obstacle, index) => {
+    writer.byte(obstacle.row, `obstacle ${index} row`);
+    writer.byte(obstacle.col, `obstacle ${index} col`);
+  });
+
+  writer.byte(level.exits.length, 'exit count');
+  level.exits.forEach((exit, index) => {
+    writer.index(CODE_COLORS, exit.color.toLowerCase(), `exit ${index} color`);
+    writer.index(CODE_SIDES, exit.side, `exit ${index} side`);
+    writer.byte(exit.startCell, `exit ${index} start cell`);
+    writer.byte(exit.endCell, `exit ${index} end cell`);
+  });
+
+  if (level.undoCost) {
+    writer.byte(TAG_UNDO_COST, 'tag');
+    writer.index(CODE_UNDO_KINDS, level.undoCost.kind, 'undo cost kind');
+    writer.uint16(level.undoCost.amount, 'undo cost amount');
+  }
+  if (level.hintLimit !== undefined) {
+    writer.byte(TAG_HINT_LIMIT, 'tag');
+    writer.byte(level.hintLimit, 'hint limit');
+  }
+  const rotatable = level.blocks
+    .map((block, index) => (block.rotatable ? index : -1))
+    .filter(index => index >= 0);
+  if (rotatable.length > 0) {
+    writer.byte(TAG_ROTATABLE, 'tag');
+    writer.byte(rotatable.length, 'rotatable block count');
+    rotatable.forEach(index => writer.byte(index, 'rotatable block'));
+  }
+  const locked = level.blocks
+    .map((block, index) => ({ axis: block.axis ?? 'free', index }))
+    .filter(({ axis }) => axis !== 'free');
+  if (locked.length > 0) {
+    writer.byte(TAG_AXES, 'tag');
+    writer.byte(locked.length, 'axis-locked block count');
+    locked.forEach(({ axis, index }) => {
+      writer.byte(index, 'axis-locked block');
+      writer.index(CODE_AXES, axis, `block ${index} axis`);
+    });
+  }
+  const frozen = level.blocks
+    .map((block, index) => ({ moves: block.frozen ?? 0, index }))
+    .filter(({ moves }) => moves > 0);
+  if (frozen.length > 0) {
+    writer.byte(TAG_FROZEN, 'tag');
+    writer.byte(frozen.length, 'frozen block count');
+    frozen.forEach(({ moves, index }) => {
+      writer.byte(index, 'frozen block');
+      writer.byte(moves, `block ${index} frozen moves`);
+    });
+  }
+  if (level.locks && level.locks.length > 0) {
+    writer.byte(TAG_LOCKS, 'tag');
+    writeColorCells(writer, level.locks, 'lock');
+  }
+  if (level.keys && level.keys.length > 0) {
+    writer.byte(TAG_KEYS, 'tag');
+    writeColorCells(writer, level.keys, 'key');
+  }
+  if (level.paints && level.paints.length > 0) {
+    writer.byte(TAG_PAINTS, 'tag');
+    writeColorCells(writer, level.paints, 'paint');
+  }
+  const limited = level.exits
+    .map((exit, index) => ({ capacity: exit.capacity, index }))
+    .filter(({ capacity }) => capacity !== undefined);
+  if (limited.length > 0) {
+    writer.byte(TAG_EXIT_CAPACITY, 'tag');
+    writer.byte(limited.length, 'limited exit count');
+    limited.forEach(({ capacity, index }) => {
+      writer.byte(index, 'limited exit');
+      writer.byte(capacity!, `exit ${index} capacity`);
+    });
+  }
+  const ordered = level.exits
+    .map((exit, index) => ({ order: exit.order ?? [], index }))
+    .filter(({ order }) => order.length > 0);
+  if (ordered.length > 0) {
+    writer.byte(TAG_EXIT_ORDER, 'tag');
+    writer.byte(ordered.length, 'ordered exit count');
+    ordered.forEach(({ order, index }) => {
+      writer.byte(index, 'ordered exit');
+      writer.byte(order.length, `exit ${index} order length`);
+      order.forEach(blockIndex => writer.byte(blockIndex, `exit ${index} order block`));
+    });
+  }
+  const conditional = level.exits
+    .map((exit, index) => ({ condition: exit.opensWhen, index }))
+    .filter(({ condition }) => condition !== undefined);
+  if (conditional.length > 0) {
+    writer.byte(TAG_EXIT_CONDITIONS, 'tag');
+    writer.byte(conditional.length, 'conditional exit count');
+    conditional.forEach(({ condition, index }) => {
+      writer.byte(index, 'conditional exit');
+      writer.index(CODE_EXIT_CONDITIONS, condition!.kind, `exit ${index} condition kind`);
+      writer.index(CODE_COLORS, condition!.color.toLowerCase(), `exit ${index} condition color`);
+    });
+  }
+  if (level.links && level.links.length > 0) {
+    writer.byte(TAG_LINKS, 'tag');
+    writer.byte(level.links.length, 'link count');
+    level.links.forEach((group, index) => {
+      writer.byte(group.length, `link ${index} length`);
+      group.forEach(blockIndex => writer.byte(blockIndex, `link ${index} block`));
+    });
+  }
+  if (level.scissors && level.scissors.length > 0) {
+    writer.byte(TAG_SCISSORS, 'tag');
+    writer.byte(level.scissors.length, 'scissors count');
+    level.scissors.forEach((cell, index) => {
+      writer.byte(cell.row, `scissors ${index} row`);
+      writer.byte(cell.col, `scissors ${index} col`);
+    });
+  }
+  if (level.mask && level.mask.length > 0) {
+    const rows = Array.from({ length: level.gridSize.rows }, (_row, index) => level.mask![index] ?? '');
+    writer.byte(TAG_MASK, 'tag');
+    writeCells(writer, rows, level.gridSize.cols, 'mask cells');
+  }
+  if (level.walls && level.walls.length > 0) {
+    writer.byte(TAG_WALLS, 'tag');
+    writer.byte(level.walls.length, 'wall count');
+    level.walls.forEach((wall, index) => {
+      writer.byte(wall.row, `wall ${index} row`);
+      writer.byte(wall.col, `wall ${index} col`);
+      writer.index(CODE_SIDES, wall.side, `wall ${index} side`);
+    });
+  }
+  const shaped = level.obstacles
+    .map((obstacle, index) => ({ shape: obstacle.shape, index }))
+    .filter(({ shape }) => shape !== undefined);
+  if (shaped.length > 0) {
+    writer.byte(TAG_OBSTACLE_SHAPES, 'tag');
+    writer.byte(shaped.length, 'shaped obstacle count');
+    shaped.forEach(({ shape, index }) => {
+      writer.byte(index, 'shaped obstacle');
+      writer.string(shape!, `obstacle ${index} shape`);
+    });
+  }
+  if (level.crates && level.crates.length > 0) {
+    writer.byte(TAG_CRATES, 'tag');
+    writer.byte(level.crates.length, 'crate count');
+    level.crates.forEach((crate, index) => {
+      writer.string(crate.shape, `crate ${index} shape`);
+      writer.byte(crate.startPosition.row, `crate ${index} row`);
+      writer.byte(crate.startPosition.col, `crate ${index} col`);
+    });
+  }
+  if (level.portals && level.portals.length > 0) {
+    writer.byte(TAG_PORTALS, 'tag');
+    writer.byte(level.portals.length, 'portal count');
+    level.portals.forEach((portal, index) => {
+      writer.byte(portal.a.row, `portal ${index} a row`);
+      writer.byte(portal.a.col, `portal ${index} a col`);
+      writer.byte(portal.b.row, `portal ${index} b row`);
+      writer.byte(portal.b.col, `portal ${index} b col`);
+      writer.string(portal.shape ?? '', `portal ${index} shape`);
+    });
+  }
+  if (level.patrols && level.patrols.length > 0) {
+    writer.byte(TAG_PATROLS, 'tag');
+    writer.byte(level.patrols.length, 'patrol count');
+    level.patrols.forEach((patrol, index) => {
+      writer.byte(patrol.path.length, `patrol ${index} waypoint count`);
+      patrol.path.forEach(waypoint => {
+        writer.byte(waypoint.row, `patrol ${index} waypoint row`);
+        writer.byte(waypoint.col, `patrol ${index} waypoint col`);
+      });
+    });
+  }
+  if (level.plates && level.plates.length > 0) {
+    writer.byte(TAG_PLATES, 'tag');
+    writer.byte(level.plates.length, 'plate count');
+    level.plates.forEach((plate, index) => {
+      writer.byte(plate.row, `plate ${index} row`);
+      writer.byte(plate.col, `plate ${index} col`);
+      writer.byte(plate.gates.length, `plate ${index} gate count`);
+      plate.gates.forEach(gate => {
+        writer.byte(gate.row, `plate ${index} gate row`);
+        writer.byte(gate.col, `plate ${index} gate col`);
+      });
+    });
+  }
+  if (level.shapes && level.shapes.length > 0) {
+    writer.byte(TAG_SHAPES, 'tag');
+    writer.byte(level.shapes.length, 'shape count');
+    level.shapes.forEach((shape, index) => writeShape(writer, shape, `shape ${index}`));
+  }
+
+  return toBase64Url(writer.finish());
+}
+
+/**
+ * Decode a string from encodeLevel
+ * Throws a descriptive Error if the code is damaged or from a newer version
+ */
+export function decodeLevel(code: string): LevelData {
+  const bytes = fromBase64Url(code.trim());
+  if (bytes.length < 2) {
+    throw new Error('Level code is too short');
+  }
+
+  const body = bytes.subarray(0, bytes.length - 1);
+  if (checksum(body) !== bytes[bytes.length - 1]) {
+    throw new Error('Level code is damaged (checksum mismatch) - check it was copied completely');
+  }
+
+  const reader = new ByteReader(body);
+  const version = reader.byte('version');
+  if (version < 1 || version > CODE_VERSION) {
+    throw new Error(`Level code version ${version} is not supported`);
+  }
+
+  const id = reader.uint16('level id');
+  const rows = reader.byte('grid rows');
+  const cols = reader.byte('grid cols');
+  const timeLimit = reader.uint16('time limit');
+
+  const level: LevelData = {
+    id,
+    gridSize: { rows, cols },
+    timeLimit,
+    blocks: [],
+    obstacles: [],
+    exits: []
+  };
+
+  const blockCount = reader.byte('block count');
+  for (let i = 0; i < blockCount; i++) {
+    const color = reader.index(CODE_COLORS, `block ${i} color`);
+    const shape = version === 1
+      ? reader.index(CODE_SHAPES_V1, `block ${i} shape`)
+      : reader.string(`block ${i} shape`);
+    const row = reader.byte(`block ${i} row`);
+    const col = reader.byte(`block ${i} col`);
+    level.blocks.push({ color, shape, startPosition: { row, col } });
+  }
+
+  const obstacleCount = reader.byte('obstacle count');
+  for (let i = 0; i < obstacleCount; i++) {
+    const row = reader.byte(`obstacle ${i} row`);
+    const col = reader.byte(`obstacle ${i} col`);
+    level.obstacles.push({ row, col });
+  }
+
+  const exitCount = reader.byte('exit count');
+  for (let i = 0; i < exitCount; i++) {
+    const color = reader.index(CODE_COLORS, `exit ${i} color`);
+    const side = reader.index(CODE_SIDES, `exit ${i} side`);
+    const startCell = reader.byte(`exit ${i} start cell`);
+    const endCell = reader.byte(`exit ${i} end cell`);
+    level.exits.push({ color, side, startCell, endCell });
+  }
+
+  while (reader.hasMore()) {
+    const tag = reader.byte('tag');
+    switch (tag) {
+      case TAG_UNDO_COST:
+        level.undoCost = {
+          kind: reader.index(CODE_UNDO_KINDS, 'undo cost kind'),
+          amount: reader.uint16('undo cost amount')
+        };
+        break;
+      case TAG_HINT_LIMIT:
+        level.hintLimit = reader.byte('hint limit');
+        break;
+      case TAG_ROTATABLE: {
+        const count = reader.byte('rotatable block count');
+        for (let i = 0; i < count; i++) {
+          const index = reader.byte('rotatable block');
+          if (!level.blocks[index]) {
+            throw new Error(`Level code marks a missing block ${index} as rotatable`);
+          }
+          level.blocks[index].rotatable = true;
+        }
+        break;
+      }
+      case TAG_AXES: {
+        const count = reader.byte('axis-locked block count');
+        for (let i = 0; i < count; i++) {
+          const index = reader.byte('axis-locked block');
+          const axis = reader.index(CODE_AXES, `block ${index} axis`);
+          if (!level.blocks[index]) {
+            throw new Error(`Level code locks the axis of a missing block ${index}`);
+          }
+          level.blocks[index].axis = axis;
+        }
+        break;
+      }
+      case TAG_FROZEN: {
+        const count = reader.byte('frozen block count');
+        for (let i = 0; i < count; i++) {
+          const index = reader.byte('frozen block');
+          const moves = reader.byte(`block ${index} frozen moves`);
+          if (!level.blocks[index]) {
+            throw new Error(`Level code freezes a missing block ${index}`);
+          }
+          if (moves > 0) level.blocks[index].frozen = moves;
+        }
+        break;
+      }
+      case TAG_LOCKS:
+        level.locks = readColorCells(reader, 'lock');
+        break;
+      case TAG_KEYS:
+        level.keys = readColorCells(reader, 'key');
+        break;
+      case TAG_PAINTS:
+        level.paints = readColorCells(reader, 'paint');
+        break;
+      case TAG_EXIT_CAPACITY: {
+        const count = reader.byte('limited exit count');
+        for (let i = 0; i < count; i++) {
+          const index = reader.byte('limited exit');
+          const capacity = reader.byte(`exit ${index} capacity`);
+          if (!level.exits[index]) {
+            throw new Error(`Level code limits a missing exit ${index}`);
+          }
+          level.exits[index].capacity = capacity;
+        }
+        break;
+      }
+      case TAG_EXIT_ORDER: {
+        const count = reader.byte('ordered exit count');
+        for (let i = 0; i < count; i++) {
+          const index = reader.byte('ordered exit');
+          const length = reader.byte(`exit ${index} order length`);
+          const order: number[] = [];
+          for (let j = 0; j < length; j++) {
+            order.push(reader.byte(`exit ${index} order block`));
+          }
+          if (!level.exits[index]) {
+            throw new Error(`Level code orders a missing exit ${index}`);
+          }
+          if (order.length > 0) level.exits[index].order = order;
+        }
+        break;
+      }
+      case TAG_EXIT_CONDITIONS: {
+        const count = reader.byte('conditional exit count');
+        for (let i = 0; i < count; i++) {
+          const index = reader.byte('conditional exit');
+          const kind = reader.index(CODE_EXIT_CONDITIONS, `exit ${index} condition kind`);
+          const color = reader.index(CODE_COLORS, `exit ${index} condition color`);
+          if (!level.exits[index]) {
+            throw new Error(`Level code gives a condition to a missing exit ${index}`);
+          }
+          level.exits[index].opensWhen = { kind, color };
+        }
+        break;
+      }
+      case TAG_LINKS: {
+        const count = reader.byte('link count');
+        level.links = [];
+        for (let i = 0; i < count; i++) {
+          const length = reader.byte(`link ${i} length`);
+          const group: number[] = [];
+          for (let j = 0; j < length; j++) {
+            group.push(reader.byte(`link ${i} block`));
+          }
+          if (group.some(index => !level.blocks[index])) {
+            throw new Error(`Level code links a missing block in link ${i}`);
+          }
+          level.links.push(group);
+        }
+        break;
+      }
+      case TAG_SCISSORS: {
+        const count = reader.byte('scissors count');
+        level.scissors = [];
+        for (let i = 0; i < count; i++) {
+          const row = reader.byte(`scissors ${i} row`);
+          const col = reader.byte(`scissors ${i} col`);
+          level.scissors.push({ row, col });
+        }
+        break;
+      }
+      case TAG_MASK:
+        level.mask = readCells(reader, rows, cols, 'mask cells');
+        break;
+      case TAG_WALLS: {
+        const count = reader.byte('wall count');
+        level.walls = [];
+        for (let i = 0; i < count; i++) {
+          const row = reader.byte(`wall ${i} row`);
+          const col = reader.byte(`wall ${i} col`);
+          const side = reader.index(CODE_SIDES, `wall ${i} side`);
+          level.walls.push({ row, col, side });
+        }
+        break;
+      }
+      case TAG_OBSTACLE_SHAPES: {
+        const count = reader.byte('shaped obstacle count');
+        for (let i = 0; i < count; i++) {
+          const index = reader.byte('shaped obstacle');
+          const shape = reader.string(`obstacle ${index} shape`);
+          if (!level.obstacles[index]) {
+            throw new Error(`Level code shapes a missing obstacle ${index}`);
+          }
+          level.obstacles[index].shape = shape;
+        }
+        break;
+      }
+      case TAG_CRATES: {
+        const count = reader.byte('crate count');
+        level.crates = [];
+        for (let i = 0; i < count; i++) {
+          const shape = reader.string(`crate ${i} shape`);
+          const row = reader.byte(`crate ${i} row`);
+          const col = reader.byte(`crate ${i} col`);
+          level.crates.push({ shape, startPosition: { row, col } });
+        }
+        break;
+      }
+      case TAG_PORTALS: {
+        const count = reader.byte('portal count');
+        level.portals = [];
+        for (let i = 0; i < count; i++) {
+          const a = { row: reader.byte(`portal ${i} a row`), col: reader.byte(`portal ${i} a col`) };
+          const b = { row: reader.byte(`portal ${i} b row`), col: reader.byte(`portal ${i} b col`) };
+          const shape = reader.string(`portal ${i} shape`);
+          level.portals.push(shape !== '' ? { a, b, shape } : { a, b });
+        }
+        break;
+      }
+      case TAG_PATROLS: {
+        const count = reader.byte('patrol count');
+        level.patrols = [];
+        for (let i = 0; i < count; i++) {
+          const waypointCount = reader.byte(`patrol ${i} waypoint count`);
+          const path = [];
+          for (let j = 0; j < waypointCount; j++) {
+            const row = reader.byte(`patrol ${i} waypoint row`);
+            const col = reader.byte(`patrol ${i} waypoint col`);
+            path.push({ row, col });
+          }
+          level.patrols.push({ path });
+        }
+        break;
+      }
+      case TAG_PLATES: {
+        const count = reader.byte('plate count');
+        level.plates = [];
+        for (let i = 0; i < count; i++) {
+          const row = reader.byte(`plate ${i} row`);
+          const col = reader.byte(`plate ${i} col`);
+          const gateCount = reader.byte(`plate ${i} gate count`);
+          const gates = [];
+          for (let j = 0; j < gateCount; j++) {
+            const gateRow = reader.byte(`plate ${i} gate row`);
+            const gateCol = reader.byte(`plate ${i} gate col`);
+            gates.push({ row: gateRow, col: gateCol });
+          }
+          level.plates.push({ row, col, gates });
+        }
+        break;
+      }
+      case TAG_SHAPES: {
+        const shapeCount = reader.byte('shape count');
+        level.shapes = [];
+        for (let i = 0; i < shapeCount; i++) {
+          level.shapes.push(readShape(reader, `shape ${i}`));
+        }
+        break;
+      }
+      default:
+        throw new Error(`Level code has an unknown field (tag ${tag})`);
+    }
+  }
+
+  if (rows === 0 || cols === 0 || timeLimit === 0) {
+    throw new Error('Level code has an empty grid or no time limit');
+  }
+
+  // Pieces may use the level's own custom shapes, which stay registered only while it is in play
+  let unknown: { shape?: ShapeType } | undefined;
+  try {
+    unknown = withLevelShapes(level.shapes ?? [], () =>
+      [...level.blocks, ...level.obstacles, ...(level.crates ?? []), ...(level.portals ?? [])]
+        .find(piece => piece.shape !== undefined && !hasShape(piece.shape)));
+  } catch (error) {
+    throw new Error(`Level code has a bad custom shape: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (unknown) {
+    throw new Error(`Level code uses an unknown shape "${unknown.shape}"`);
+  }
+
+  return level;
+}
+
+/**
+ * Shareable link that opens the level straight into GameScene
+ */
+export function getLevelShareUrl(level: LevelData): string {
+  return `${window.location.origin}${window.location.pathname}?level=${encodeLevel(level)}`;
+}
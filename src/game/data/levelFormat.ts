@@ -0,0 +1,620 @@
+import {
+  LevelData,
+  BlockData,
+  BlockAxis,
+  CrateData,
+  ExitData,
+  ExitCondition,
+  ObstacleData,
+  UndoCost,
+  LockData,
+  PatrolData,
+  PlateData,
+  PortalData,
+  WallData
+} from './levels';
+import { ShapeDefinition, getLevelShapes, hasShape, useLevelShapes, withLevelShapes } from './shapes';
+import { ExitSide, GridPosition } from '../model/types';
+
+/**
+ * Versioned JSON level format
+ *
+ * A level pack mirrors LevelData exactly:
+ *
+ *   {
+ *     "version": 2,
+ *     "name": "Spring pack",
+ *     "levels": [
+ *       {
+ *         "id": 6,
+ *         "gridSize": { "rows": 6, "cols": 6 },
+ *         "timeLimit": 90,
+ *         "blocks": [{ "color": "red", "shape": "1x2", "startPosition": { "row": 2, "col": 1 } }],
+ *         "obstacles": [{ "row": 0, "col": 0 }],
+ *         "exits": [{ "color": "red", "side": "right", "startCell": 2, "endCell": 2 }],
+ *         "undoCost": { "kind": "moves", "amount": 1 },
+ *         "hintLimit": 2,
+ *         "shapes": [{ "name": "S", "cells": [".XX", "XX."] }]
+ *       }
+ *     ]
+ *   }
+ *
+ * `shapes` declares custom base shapes ('X' = filled cell); blocks then use
+ * any generated variant of them, e.g. "S_0", "S_90" or "S_M0".
+ * A block with `"rotatable": true` can be turned in play by double-tapping it,
+ * and `"axis": "horizontal"` or `"vertical"` locks which way it slides.
+ * `"frozen": 3` starts a block as ice that thaws after 3 moves.
+ * `locks` are cells that block like obstacles until a block of their color
+ * exits or passes over one of the `keys` of that color:
+ *   "locks": [{ "row": 2, "col": 3, "color": "red" }],
+ *   "keys": [{ "row": 5, "col": 0, "color": "red" }]
+ * `paints` are floor cells that recolor any block passing over them:
+ *   "paints": [{ "row": 3, "col": 1, "color": "blue" }]
+ * Exits can take at most `capacity` blocks, let the blocks listed in `order`
+ * (by index) leave only in that order, or stay closed until `opensWhen` holds:
+ *   { "color": "red", "side": "top", "startCell": 0, "endCell": 1,
+ *     "capacity": 2, "order": [3, 0], "opensWhen": { "kind": "cleared", "color": "blue" } }
+ * `links` chains groups of blocks (by index) so each group moves as one, and
+ * `scissors` are cells that cut the link of a group stopping on them:
+ *   "links": [[0, 2]],
+ *   "scissors": [{ "row": 4, "col": 4 }]
+ * `mask` shapes the board, one string per row: 'X' cells are playable and
+ * '.' cells are cut out, for L-shaped boards, holes or notched corners:
+ *   "mask": ["XXX.", "XXXX", "X.XX"]
+ * `walls` are thin walls along one side of a cell that blocks cannot slide
+ * across; on the board's edge they close that cell's part of an exit:
+ *   "walls": [{ "row": 2, "col": 3, "side": "right" }]
+ * An obstacle with a `shape` is one solid piece of that shape, its origin at
+ * the obstacle's cell, and `crates` are grey pieces dragged like blocks that
+ * never exit (the level is solved with them still on the board):
+ *   "obstacles": [{ "row": 0, "col": 0, "shape": "L_0" }],
+ *   "crates": [{ "shape": "2x2", "startPosition": { "row": 3, "col": 3 } }]
+ * `portals` pair two footprints (one cell, or a `shape` with its origin at
+ * each end): a block dropped wholly on one end jumps to the other:
+ *   "portals": [{ "a": { "row": 0, "col": 0 }, "b": { "row": 4, "col": 5 } }]
+ * `patrols` walk their `path` one cell after every move, turning at each
+ * waypoint (in a straight line from the last) and walking back from the end,
+ * or going round again when the path ends where it started:
+ *   "patrols": [{ "path": [{ "row": 1, "col": 0 }, { "row": 1, "col": 4 }] }]
+ * `plates` open their `gates` while a block or crate stands on them; a gate
+ * shuts again once its plates are vacated, unless something stands in it:
+ *   "plates": [{ "row": 4, "col": 0, "gates": [{ "row": 2, "col": 3 }] }]
+ *
+ * The manifest (`levels/index.json`) lists the pack files to load, in order:
+ *
+ *   { "version": 1, "packs": ["spring.json"] }
+ */
+
+// Version 2 added the fields in VERSION_2_FIELDS; a version 1 pack still
+// loads as long as it does not use them
+export const LEVEL_FORMAT_VERSION = 2;
+
+// The manifest has only ever had one version
+export const LEVEL_MANIFEST_VERSION = 1;
+
+export interface LevelPack {
+  version: number;
+  name?: string;
+  levels: LevelData[];
+}
+
+export interface LevelManifest {
+  version: number;
+  packs: string[]; // Pack file names, relative to the manifest
+}
+
+const EXIT_SIDES: ExitSide[] = ['top', 'bottom', 'left', 'right'];
+const UNDO_COST_KINDS: UndoCost['kind'][] = ['time', 'moves'];
+const BLOCK_AXES: BlockAxis[] = ['horizontal', 'vertical', 'free'];
+const EXIT_CONDITION_KINDS: ExitCondition['kind'][] = ['cleared'];
+
+// Fields added by format version 2, which version 1 packs may not use
+const VERSION_2_FIELDS = {
+  level: [
+    'shapes', 'locks', 'keys', 'paints', 'links', 'scissors', 'mask', 'walls', 'crates',
+    'portals', 'patrols', 'plates'
+  ],
+  block: ['rotatable', 'axis', 'frozen'],
+  obstacle: ['shape'],
+  exit: ['capacity', 'order', 'opensWhen']
+};
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Collects every problem found while reading a document, keyed by JSON path
+ */
+class FormatReader {
+  public errors: string[] = [];
+
+  public fail(path: string, message: string): null {
+    this.errors.push(`${path || 'document'}: ${message}`);
+    return null;
+  }
+
+  /**
+   * Read an object, flagging fields outside `fields` (usually typos)
+   * Missing fields are reported by the reader of each field
+   */
+  public object(value: unknown, path: string, fields: string[]): JsonObject | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return this.fail(path, `expected an object but got ${describe(value)}`);
+    }
+
+    const record = value as JsonObject;
+    Object.keys(record)
+      .filter(key => !fields.includes(key))
+      .forEach(key => this.fail(path ? `${path}.${key}` : key, 'is not a known field'));
+
+    return record;
+  }
+
+  public array(value: unknown, path: string): unknown[] | null {
+    if (!Array.isArray(value)) {
+      return this.fail(path, `expected an array but got ${describe(value)}`);
+    }
+    return value;
+  }
+
+  public integer(value: unknown, path: string, min: number): number | null {
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      return this.fail(path, `expected a whole number but got ${describe(value)}`);
+    }
+    if (value < min) {
+      return this.fail(path, `expected at least ${min} but got ${value}`);
+    }
+    return value;
+  }
+
+  public string(value: unknown, path: string): string | null {
+    if (typeof value !== 'string' || value.trim() === '') {
+      return this.fail(path, `expected a non-empty string but got ${describe(value)}`);
+    }
+    return value;
+  }
+
+  public boolean(value: unknown, path: string): boolean | null {
+    if (typeof value !== 'boolean') {
+      return this.fail(path, `expected true or false but got ${describe(value)}`);
+    }
+    return value;
+  }
+
+  public oneOf<T extends string>(value: unknown, path: string, options: readonly T[]): T | null {
+    if (typeof value !== 'string' || !options.includes(value as T)) {
+      return this.fail(path, `expected one of ${options.join(', ')} but got ${describe(value)}`);
+    }
+    return value as T;
+  }
+
+  public version(value: unknown, path: string): number | null {
+    const version = this.integer(value, path, 1);
+    if (version !== null && version > LEVEL_FORMAT_VERSION) {
+      return this.fail(path, `version ${version} is newer than the supported version ${LEVEL_FORMAT_VERSION}`);
+    }
+    return version;
+  }
+}
+
+/**
+ * Flag fields that a file of an older format version cannot contain
+ */
+function checkNewerFields(
+  reader: FormatReader,
+  json: JsonObject,
+  path: string,
+  version: number,
+  fields: readonly string[]
+): void {
+  if (version >= 2) return;
+  fields
+    .filter(field => json[field] !== undefined)
+    .forEach(field => reader.fail(`${path}.${field}`, `needs format version 2 but the file is version ${version}`));
+}
+
+/**
+ * Short description of a JSON value for error messages
+ */
+function describe(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  return JSON.stringify(value);
+}
+
+function readPosition(reader: FormatReader, value: unknown, path: string): GridPosition | null {
+  const json = reader.object(value, path, ['row', 'col']);
+  if (!json) return null;
+
+  const row = reader.integer(json.row, `${path}.row`, 0);
+  const col = reader.integer(json.col, `${path}.col`, 0);
+  return row === null || col === null ? null : { row, col };
+}
+
+function readShapeId(reader: FormatReader, value: unknown, path: string): string | null {
+  const shape = reader.string(value, path);
+  if (shape !== null && !hasShape(shape)) {
+    return reader.fail(path, `unknown shape ${describe(shape)} (declare custom shapes in "shapes")`);
+  }
+  return shape;
+}
+
+function readBlock(reader: FormatReader, value: unknown, path: string, version: number): BlockData | null {
+  const json = reader.object(value, path, ['color', 'shape', 'startPosition', 'rotatable', 'axis', 'frozen']);
+  if (!json) return null;
+  checkNewerFields(reader, json, path, version, VERSION_2_FIELDS.block);
+
+  const color = reader.string(json.color, `${path}.color`);
+  const shape = readShapeId(reader, json.shape, `${path}.shape`);
+  const startPosition = readPosition(reader, json.startPosition, `${path}.startPosition`);
+  const rotatable = json.rotatable !== undefined ? reader.boolean(json.rotatable, `${path}.rotatable`) : undefined;
+  const axis = json.axis !== undefined ? reader.oneOf(json.axis, `${path}.axis`, BLOCK_AXES) : undefined;
+  const frozen = json.frozen !== undefined ? reader.integer(json.frozen, `${path}.frozen`, 0) : undefined;
+  if (
+    color === null || shape === null || startPosition === null ||
+    rotatable === null || axis === null || frozen === null
+  ) return null;
+
+  const block: BlockData = { color, shape, startPosition };
+  if (rotatable) block.rotatable = true;
+  if (axis && axis !== 'free') block.axis = axis;
+  if (frozen) block.frozen = frozen;
+  return block;
+}
+
+function readObstacle(reader: FormatReader, value: unknown, path: string, version: number): ObstacleData | null {
+  const json = reader.object(value, path, ['row', 'col', 'shape']);
+  if (!json) return null;
+  checkNewerFields(reader, json, path, version, VERSION_2_FIELDS.obstacle);
+
+  const row = reader.integer(json.row, `${path}.row`, 0);
+  const col = reader.integer(json.col, `${path}.col`, 0);
+  const shape = json.shape !== undefined ? readShapeId(reader, json.shape, `${path}.shape`) : undefined;
+  if (row === null || col === null || shape === null) return null;
+
+  return shape !== undefined ? { row, col, shape } : { row, col };
+}
+
+function readCrate(reader: FormatReader, value: unknown, path: string): CrateData | null {
+  const json = reader.object(value, path, ['shape', 'startPosition']);
+  if (!json) return null;
+
+  const shape = readShapeId(reader, json.shape, `${path}.shape`);
+  const startPosition = readPosition(reader, json.startPosition, `${path}.startPosition`);
+  return shape === null || startPosition === null ? null : { shape, startPosition };
+}
+
+function readPortal(reader: FormatReader, value: unknown, path: string): PortalData | null {
+  const json = reader.object(value, path, ['a', 'b', 'shape']);
+  if (!json) return null;
+
+  const a = readPosition(reader, json.a, `${path}.a`);
+  const b = readPosition(reader, json.b, `${path}.b`);
+  const shape = json.shape !== undefined ? readShapeId(reader, json.shape, `${path}.shape`) : undefined;
+  if (a === null || b === null || shape === null) return null;
+
+  return shape !== undefined ? { a, b, shape } : { a, b };
+}
+
+function readPatrol(reader: FormatReader, value: unknown, path: string): PatrolData | null {
+  const json = reader.object(value, path, ['path']);
+  if (!json) return null;
+
+  const errorCount = reader.errors.length;
+  const waypoints = readList(reader, json.path, `${path}.path`, readPosition);
+  return reader.errors.length > errorCount ? null : { path: waypoints };
+}
+
+function readPlate(reader: FormatReader, value: unknown, path: string): PlateData | null {
+  const json = reader.object(value, path, ['row', 'col', 'gates']);
+  if (!json) return null;
+
+  const errorCount = reader.errors.length;
+  const row = reader.integer(json.row, `${path}.row`, 0);
+  const col = reader.integer(json.col, `${path}.col`, 0);
+  const gates = readList(reader, json.gates, `${path}.gates`, readPosition);
+  return row === null || col === null || reader.errors.length > errorCount ? null : { row, col, gates };
+}
+
+function readExit(reader: FormatReader, value: unknown, path: string, version: number): ExitData | null {
+  const json = reader.object(
+    value,
+    path,
+    ['color', 'side', 'startCell', 'endCell', 'capacity', 'order', 'opensWhen']
+  );
+  if (!json) return null;
+  checkNewerFields(reader, json, path, version, VERSION_2_FIELDS.exit);
+
+  const color = reader.string(json.color, `${path}.color`);
+  const side = reader.oneOf(json.side, `${path}.side`, EXIT_SIDES);
+  const startCell = reader.integer(json.startCell, `${path}.startCell`, 0);
+  const endCell = reader.integer(json.endCell, `${path}.endCell`, 0);
+  const capacity = json.capacity !== undefined ? reader.integer(json.capacity, `${path}.capacity`, 1) : undefined;
+  const order = json.order !== undefined
+    ? readList(reader, json.order, `${path}.order`, (r, item, itemPath) => r.integer(item, itemPath, 0))
+    : undefined;
+  const opensWhen = json.opensWhen !== undefined
+    ? readExitCondition(reader, json.opensWhen, `${path}.opensWhen`)
+    : undefined;
+  if (color === null || side === null || startCell === null || endCell === null) return null;
+
+  const exit: ExitData = { color, side, startCell, endCell };
+  if (capacity !== undefined && capacity !== null) exit.capacity = capacity;
+  if (order && order.length > 0) exit.order = order;
+  if (opensWhen) exit.opensWhen = opensWhen;
+  return exit;
+}
+
+function readExitCondition(reader: FormatReader, value: unknown, path: string): ExitCondition | null {
+  const json = reader.object(value, path, ['kind', 'color']);
+  if (!json) return null;
+
+  const kind = reader.oneOf(json.kind, `${path}.kind`, EXIT_CONDITION_KINDS);
+  const color = reader.string(json.color, `${path}.color`);
+  return kind === null || color === null ? null : { kind, color };
+}
+
+/**
+ * Read a lock, key or paint cell (each is a position and a color)
+ */
+function readColorCell(reader: FormatReader, value: unknown, path: string): LockData | null {
+  const json = reader.object(value, path, ['row', 'col', 'color']);
+  if (!json) return null;
+
+  const row = reader.integer(json.row, `${path}.row`, 0);
+  const col = reader.integer(json.col, `${path}.col`, 0);
+  const color = reader.string(json.color, `${path}.color`);
+  return row === null || col === null || color === null ? null : { row, col, color };
+}
+
+/**
+ * Read a custom shape declaration, checking it registers alongside the level's earlier ones
+ */
+function readShape(
+  reader: FormatReader,
+  value: unknown,
+  path: string,
+  declared: readonly ShapeDefinition[]
+): ShapeDefinition | null {
+  const json = reader.object(value, path, ['name', 'cells']);
+  if (!json) return null;
+
+  const name = reader.string(json.name, `${path}.name`);
+  const rows = reader.array(json.cells, `${path}.cells`);
+  const cells = rows?.map((row, index) => reader.string(row, `${path}.cells[${index}]`));
+  if (name === null || !cells || cells.some(row => row === null)) return null;
+
+  const definition: ShapeDefinition = { name, cells: cells as string[] };
+  try {
+    withLevelShapes([...declared, definition], () => undefined);
+  } catch (error) {
+    return reader.fail(path, error instanceof Error ? error.message : String(error));
+  }
+  return definition;
+}
+
+function readWall(reader: FormatReader, value: unknown, path: string): WallData | null {
+  const json = reader.object(value, path, ['row', 'col', 'side']);
+  if (!json) return null;
+
+  const row = reader.integer(json.row, `${path}.row`, 0);
+  const col = reader.integer(json.col, `${path}.col`, 0);
+  const side = reader.oneOf(json.side, `${path}.side`, EXIT_SIDES);
+  return row === null || col === null || side === null ? null : { row, col, side };
+}
+
+/**
+ * Read a board mask: one row string of 'X' (playable) and '.' (cut out) cells per grid row
+ */
+function readMask(reader: FormatReader, value: unknown, path: string): string[] | null {
+  const rows = reader.array(value, path);
+  if (!rows) return null;
+
+  const mask = rows.map((row, index) => {
+    const text = reader.string(row, `${path}[${index}]`);
+    if (text !== null && !/^[X.]*$/.test(text)) {
+      return reader.fail(`${path}[${index}]`, `expected only "X" and "." cells but got ${describe(text)}`);
+    }
+    return text;
+  });
+  return mask.some(row => row === null) ? null : mask as string[];
+}
+
+function readUndoCost(reader: FormatReader, value: unknown, path: string): UndoCost | null {
+  const json = reader.object(value, path, ['kind', 'amount']);
+  if (!json) return null;
+
+  const kind = reader.oneOf(json.kind, `${path}.kind`, UNDO_COST_KINDS);
+  const amount = reader.integer(json.amount, `${path}.amount`, 0);
+  return kind === null || amount === null ? null : { kind, amount };
+}
+
+/**
+ * Read a list, keeping only the entries that parsed
+ */
+function readList<T>(
+  reader: FormatReader,
+  value: unknown,
+  path: string,
+  readItem: (reader: FormatReader, value: unknown, path: string) => T | null
+): T[] {
+  const items = reader.array(value, path) || [];
+  return items
+    .map((item, index) => readItem(reader, item, `${path}[${index}]`))
+    .filter((item): item is T => item !== null);
+}
+
+/**
+ * Read a level written in a given format version (of the pack holding it)
+ */
+function readLevel(reader: FormatReader, value: unknown, path: string, version: number): LevelData | null {
+  const json = reader.object(
+    value,
+    path,
+    [
+      'id', 'gridSize', 'timeLimit', 'blocks', 'obstacles', 'exits', 'undoCost', 'hintLimit', 'shapes',
+      'locks', 'keys', 'paints', 'links', 'scissors', 'mask', 'walls', 'crates',
+      'portals', 'patrols', 'plates'
+    ]
+  );
+  if (!json) return null;
+
+  const errorCount = reader.errors.length;
+  checkNewerFields(reader, json, path, version, VERSION_2_FIELDS.level);
+
+  const id = reader.integer(json.id, `${path}.id`, 1);
+  const gridJson = reader.object(json.gridSize, `${path}.gridSize`, ['rows', 'cols']);
+  const rows = gridJson ? reader.integer(gridJson.rows, `${path}.gridSize.rows`, 1) : null;
+  const cols = gridJson ? reader.integer(gridJson.cols, `${path}.gridSize.cols`, 1) : null;
+  const timeLimit = reader.integer(json.timeLimit, `${path}.timeLimit`, 1);
+  // Shapes come first so blocks, obstacles, crates and portals can use them
+  const shapes: ShapeDefinition[] = [];
+  if (json.shapes !== undefined) {
+    readList(reader, json.shapes, `${path}.shapes`, (r, item, itemPath) => {
+      const shape = readShape(r, item, itemPath, shapes);
+      if (shape) shapes.push(shape);
+      return shape;
+    });
+  }
+
+  // Register the level's shapes while reading its pieces, then restore the level in play
+  const shapesInPlay = getLevelShapes();
+  useLevelShapes(shapes);
+  try {
+    const blocks = readList(reader, json.blocks, `${path}.blocks`, (r, item, itemPath) => readBlock(r, item, itemPath, version));
+    const obstacles = readList(reader, json.obstacles, `${path}.obstacles`, (r, item, itemPath) =>
+      readObstacle(r, item, itemPath, version));
+    const exits = readList(reader, json.exits, `${path}.exits`, (r, item, itemPath) => readExit(r, item, itemPath, version));
+    const undoCost = json.undoCost !== undefined ? readUndoCost(reader, json.undoCost, `${path}.undoCost`) : undefined;
+    const hintLimit = json.hintLimit !== undefined ? reader.integer(json.hintLimit, `${path}.hintLimit`, 0) : undefined;
+    const locks = json.locks !== undefined ? readList(reader, json.locks, `${path}.locks`, readColorCell) : undefined;
+    const keys = json.keys !== undefined ? readList(reader, json.keys, `${path}.keys`, readColorCell) : undefined;
+    const paints = json.paints !== undefined ? readList(reader, json.paints, `${path}.paints`, readColorCell) : undefined;
+    const links = json.links !== undefined
+      ? readList(reader, json.links, `${path}.links`, (r, item, itemPath) =>
+        readList(r, item, itemPath, (r2, index, indexPath) => r2.integer(index, indexPath, 0)))
+      : undefined;
+    const scissors = json.scissors !== undefined
+      ? readList(reader, json.scissors, `${path}.scissors`, readPosition)
+      : undefined;
+    const mask = json.mask !== undefined ? readMask(reader, json.mask, `${path}.mask`) : undefined;
+    const walls = json.walls !== undefined ? readList(reader, json.walls, `${path}.walls`, readWall) : undefined;
+    const crates = json.crates !== undefined ? readList(reader, json.crates, `${path}.crates`, readCrate) : undefined;
+    const portals = json.portals !== undefined ? readList(reader, json.portals, `${path}.portals`, readPortal) : undefined;
+    const patrols = json.patrols !== undefined ? readList(reader, json.patrols, `${path}.patrols`, readPatrol) : undefined;
+    const plates = json.plates !== undefined ? readList(reader, json.plates, `${path}.plates`, readPlate) : undefined;
+
+    if (reader.errors.length > errorCount || id === null || rows === null || cols === null || timeLimit === null) {
+      return null;
+    }
+
+    const level: LevelData = { id, gridSize: { rows, cols }, timeLimit, blocks, obstacles, exits };
+    if (undoCost) level.undoCost = undoCost;
+    if (hintLimit !== undefined && hintLimit !== null) level.hintLimit = hintLimit;
+    if (shapes.length > 0) level.shapes = shapes;
+    if (locks && locks.length > 0) level.locks = locks;
+    if (keys && keys.length > 0) level.keys = keys;
+    if (paints && paints.length > 0) level.paints = paints;
+    if (links && links.length > 0) level.links = links;
+    if (scissors && scissors.length > 0) level.scissors = scissors;
+    if (mask && mask.length > 0) level.mask = mask;
+    if (walls && walls.length > 0) level.walls = walls;
+    if (crates && crates.length > 0) level.crates = crates;
+    if (portals && portals.length > 0) level.portals = portals;
+    if (patrols && patrols.length > 0) level.patrols = patrols;
+    if (plates && plates.length > 0) level.plates = plates;
+    return level;
+  } finally {
+    useLevelShapes(shapesInPlay);
+  }
+}
+
+/**
+ * Parse and validate a level pack
+ * Throws an Error listing every problem (with its JSON path) if the pack is invalid
+ */
+export function parseLevelPack(value: unknown, source: string = 'level pack'): LevelPack {
+  const reader = new FormatReader();
+  const json = reader.object(value, '', ['version', 'name', 'levels']);
+
+  let pack: LevelPack | null = null;
+  if (json) {
+    const version = reader.version(json.version, 'version');
+    const name = json.name !== undefined ? reader.string(json.name, 'name') : undefined;
+    // Levels are read as the pack's version (the latest if it is unreadable)
+    const levels = readList(reader, json.levels, 'levels', (r, item, path) =>
+      readLevel(r, item, path, version ?? LEVEL_FORMAT_VERSION));
+
+    const ids = new Set<number>();
+    levels.forEach((level, index) => {
+      if (ids.has(level.id)) {
+        reader.fail(`levels[${index}].id`, `duplicate level id ${level.id}`);
+      }
+      ids.add(level.id);
+    });
+
+    if (version !== null) {
+      pack = { version, levels };
+      if (name) pack.name = name;
+    }
+  }
+
+  if (!pack || reader.errors.length > 0) {
+    throw new Error(`Invalid ${source}:\n  ${reader.errors.join('\n  ')}`);
+  }
+  return pack;
+}
+
+/**
+ * Parse and validate a single level, e.g. one exported from the level editor
+ */
+export function parseLevelData(value: unknown, source: string = 'level'): LevelData {
+  const reader = new FormatReader();
+  const level = readLevel(reader, value, 'level', LEVEL_FORMAT_VERSION);
+
+  if (!level || reader.errors.length > 0) {
+    throw new Error(`Invalid ${source}:\n  ${reader.errors.join('\n  ')}`);
+  }
+  return level;
+}
+
+/**
+ * Parse and validate the manifest listing level pack files
+ */
+export function parseLevelManifest(value: unknown, source: string = 'level manifest'): LevelManifest {
+  const reader = new FormatReader();
+  const json = reader.object(value, '', ['version', 'packs']);
+
+  let manifest: LevelManifest | null = null;
+  if (json) {
+    let version = reader.integer(json.version, 'version', 1);
+    if (version !== null && version !== LEVEL_MANIFEST_VERSION) {
+      version = reader.fail('version', `manifest version ${version} is not supported (expected ${LEVEL_MANIFEST_VERSION})`);
+    }
+    const packs = readList(reader, json.packs, 'packs', (r, item, path) => {
+      const file = r.string(item, path);
+      if (file !== null && !file.endsWith('.json')) {
+        return r.fail(path, `expected a .json file name but got ${describe(file)}`);
+      }
+      return file;
+    });
+    if (version !== null) {
+      manifest = { version, packs };
+    }
+  }
+
+  if (!manifest || reader.errors.length > 0) {
+    throw new Error(`Invalid ${source}:\n  ${reader.errors.join('\n  ')}`);
+  }
+  return manifest;
+}
+
+/**
+ * Build a level pack document for the given levels, ready for JSON.stringify
+ */
+export function createLevelPack(levels: LevelData[], name?: string): LevelPack {
+  const pack: LevelPack = { version: LEVEL_FORMAT_VERSION, levels };
+  if (name) pack.name = name;
+  return pack;
+}
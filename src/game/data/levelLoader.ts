@@ -0,0 +1,67 @@
+import { LevelData, registerLevels } from './levels';
+import { parseLevelManifest, parseLevelPack } from './levelFormat';
+
+export interface LevelLoadResult {
+  levels: LevelData[]; // Every level registered, in manifest order
+  errors: string[]; // One entry per manifest or pack that failed to load
+}
+
+/**
+ * Fetch a JSON document, turning HTTP and parse failures into descriptive errors
+ * Resolves to null on 404 when the document is optional
+ */
+async function fetchJson(url: URL, optional: boolean = false): Promise<unknown> {
+  const response = await fetch(url);
+  if (optional && response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`${url.pathname} returned HTTP ${response.status}`);
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new Error(`${url.pathname} is not valid JSON`);
+  }
+}
+
+/**
+ * Load the level packs listed in `<baseUrl>index.json` and register their levels
+ *
+ * Never throws: a missing manifest means no packs, and a broken pack is
+ * reported in `errors` while the remaining packs still load.
+ */
+export async function loadLevelPacks(baseUrl: string = 'levels/'): Promise<LevelLoadResult> {
+  const result: LevelLoadResult = { levels: [], errors: [] };
+  const packsUrl = new URL(baseUrl, document.baseURI);
+  const manifestUrl = new URL('index.json', packsUrl);
+
+  let files: string[];
+  try {
+    const manifest = await fetchJson(manifestUrl, true);
+    if (manifest === null) return result;
+    files = parseLevelManifest(manifest, 'levels/index.json').packs;
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : String(error));
+    return result;
+  }
+
+  // Fetch in parallel, register in manifest order so later packs win on duplicate IDs
+  const packs = await Promise.all(files.map(async file => {
+    try {
+      return parseLevelPack(await fetchJson(new URL(file, packsUrl)), `levels/${file}`);
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }));
+
+  packs.forEach(pack => {
+    if (!pack) return;
+    registerLevels(pack.levels);
+    result.levels.push(...pack.levels);
+  });
+
+  return result;
+}
@@ -1,11 +1,89 @@
-import { ShapeType } from './shapes';
-import { ExitSide } from '../entities/ExitZone';
-import { GridPosition } from '../entities/Grid';
+import { ShapeType, ShapeDefinition, getShapeOffsets } from './shapes';
+import { ExitSide, GridPosition } from '../model/types';
+
+/**
+ * Wildcard color: rainbow blocks may leave through any exit they fit, and
+ * rainbow exits take blocks of any color
+ */
+export const RAINBOW = 'rainbow';
+
+export function isRainbow(color: string): boolean {
+  return color.toLowerCase() === RAINBOW;
+}
+
+/**
+ * Color of crates: grey pieces that are dragged and get in the way like
+ * blocks, but never leave through any exit
+ */
+export const CRATE = 'crate';
+
+export function isCrate(color: string): boolean {
+  return color.toLowerCase() === CRATE;
+}
+
+/**
+ * Check if a block of `blockColor` may leave through an exit of `exitColor`
+ * (crates match no exit, not even a rainbow one)
+ */
+export function colorsMatch(blockColor: string, exitColor: string): boolean {
+  if (isCrate(blockColor)) {
+    return false;
+  }
+  return blockColor.toLowerCase() === exitColor.toLowerCase() || isRainbow(blockColor) || isRainbow(exitColor);
+}
+
+/**
+ * Directions a block may slide in; 'free' (the default) allows both
+ */
+export type BlockAxis = 'horizontal' | 'vertical' | 'free';
 
 export interface BlockData {
   color: string;
   shape: ShapeType;
   startPosition: GridPosition;
+  rotatable?: boolean; // Double-tap turns it a quarter turn; blocks are fixed by default
+  axis?: BlockAxis; // Slide only along one axis, like a Rush Hour car
+  frozen?: number; // Starts as ice that thaws after this many moves
+}
+
+/**
+ * Condition that keeps an exit closed until it holds
+ * - cleared: no block of `color` is left on the board
+ */
+export interface ExitCondition {
+  kind: 'cleared';
+  color: string;
+}
+
+/**
+ * A crate, placed like a block; crates never need to leave for the level to be solved
+ */
+export interface CrateData {
+  shape: ShapeType;
+  startPosition: GridPosition;
+}
+
+/**
+ * An obstacle cell, or with a `shape` a solid wall piece of that shape with
+ * its origin at the cell
+ */
+export interface ObstacleData {
+  row: number;
+  col: number;
+  shape?: ShapeType;
+}
+
+/**
+ * Cells an obstacle covers
+ */
+export function getObstacleCells(obstacle: ObstacleData): GridPosition[] {
+  if (obstacle.shape === undefined) {
+    return [{ row: obstacle.row, col: obstacle.col }];
+  }
+  return getShapeOffsets(obstacle.shape).map(offset => ({
+    row: obstacle.row + offset.row,
+    col: obstacle.col + offset.col
+  }));
 }
 
 export interface ExitData {
@@ -13,6 +91,135 @@ export interface ExitData {
   side: ExitSide;
   startCell: number;
   endCell: number;
+  capacity?: number; // Closes after this many blocks have left through it
+  order?: number[]; // Block indexes that may only leave once every block listed before them has
+  opensWhen?: ExitCondition; // Stays closed until the condition holds
+}
+
+/**
+ * A cell that blocks like an obstacle until a block of `color` exits or passes
+ * over a key cell of that color
+ */
+export interface LockData {
+  row: number;
+  col: number;
+  color: string;
+}
+
+/**
+ * A floor cell that opens every lock of its color when a block of that color
+ * passes over it
+ */
+export interface KeyData {
+  row: number;
+  col: number;
+  color: string;
+}
+
+/**
+ * A floor cell that recolors any block passing over it
+ */
+export interface PaintData {
+  row: number;
+  col: number;
+  color: string;
+}
+
+/**
+ * A thin wall along one side of a cell: blocks cannot slide across it, and
+ * on the board's edge it closes that cell's part of any exit there
+ */
+export interface WallData {
+  row: number;
+  col: number;
+  side: ExitSide;
+}
+
+/**
+ * Name a wall from the cell below or to the right of it when it sits on a
+ * bottom or right side, so every edge has exactly one name
+ */
+export function normalizeWall(wall: WallData): WallData {
+  switch (wall.side) {
+    case 'bottom':
+      return { row: wall.row + 1, col: wall.col, side: 'top' };
+    case 'right':
+      return { row: wall.row, col: wall.col + 1, side: 'left' };
+    default:
+      return { row: wall.row, col: wall.col, side: wall.side };
+  }
+}
+
+/**
+ * A pair of portals: a block dropped with its whole footprint on one end's
+ * footprint reappears the same way round on the other end, if it fits there
+ */
+export interface PortalData {
+  a: GridPosition;
+  b: GridPosition;
+  shape?: ShapeType; // Footprint of each end, with its origin at the end's cell; one cell by default
+}
+
+/**
+ * Cells one end of a portal covers
+ */
+export function getPortalCells(end: GridPosition, shape?: ShapeType): GridPosition[] {
+  if (shape === undefined) {
+    return [{ row: end.row, col: end.col }];
+  }
+  return getShapeOffsets(shape).map(offset => ({ row: end.row + offset.row, col: end.col + offset.col }));
+}
+
+/**
+ * An obstacle that patrols a path: after every move it steps one cell along
+ * the path (waiting where it is while that cell is taken), turning back at
+ * either end, or going round again if the path ends where it starts
+ */
+export interface PatrolData {
+  path: GridPosition[]; // Waypoints, each in a straight line from the one before; it starts on the first
+}
+
+/**
+ * Every cell a patrol stands on in one full round, in order, starting on its
+ * first waypoint (runs between waypoints go along the column, then the row)
+ */
+export function getPatrolRoute(patrol: PatrolData): GridPosition[] {
+  if (patrol.path.length === 0) {
+    return [];
+  }
+
+  const cells: GridPosition[] = [{ ...patrol.path[0] }];
+  patrol.path.slice(1).forEach(waypoint => {
+    let cell = cells[cells.length - 1];
+    while (cell.row !== waypoint.row || cell.col !== waypoint.col) {
+      cell = cell.row !== waypoint.row
+        ? { row: cell.row + Math.sign(waypoint.row - cell.row), col: cell.col }
+        : { row: cell.row, col: cell.col + Math.sign(waypoint.col - cell.col) };
+      cells.push(cell);
+    }
+  });
+
+  const last = cells[cells.length - 1];
+  if (cells.length > 1 && last.row === cells[0].row && last.col === cells[0].col) {
+    return cells.slice(0, -1);
+  }
+  return [...cells, ...cells.slice(1, -1).reverse()];
+}
+
+/**
+ * A pressure plate on the floor: while a block or crate stands on it, its
+ * gates open; once it is vacated they shut again, except where something
+ * still stands in them
+ */
+export interface PlateData {
+  row: number;
+  col: number;
+  gates: GridPosition[]; // Cells that block like obstacles while shut
+}
+
+export interface UndoCost {
+  kind: 'time' | 'moves';
+  amount: number; // seconds or moves charged per undo
 }
 
 export interface LevelData {
@@ -20,10 +227,34 @@ export interface LevelData {
   gridSize: { rows: number; cols: number };
   timeLimit: number; // in seconds
   blocks: BlockData[];
-  obstacles: GridPosition[];
+  obstacles: ObstacleData[];
   exits: ExitData[];
+  undoCost?: UndoCost; // undo is free when omitted
+  hintLimit?: number; // defaults to DEFAULT_HINT_LIMIT
+  shapes?: ShapeDefinition[]; // custom base shapes used by this level's blocks, registered while it is in play
+  locks?: LockData[];
+  keys?: KeyData[];
+  paints?: PaintData[];
+  links?: number[][]; // Groups of block indexes chained together; each group moves as one
+  scissors?: GridPosition[]; // Cells that cut the link of any group that comes to rest on them
+  walls?: WallData[]; // Thin walls on cell edges
+  crates?: CrateData[]; // Grey pieces in the way like blocks; they never exit
+  portals?: PortalData[]; // Paired floor footprints that teleport blocks dropped on either end
+  patrols?: PatrolData[]; // Obstacles that step along a path after every move
+  plates?: PlateData[]; // Pressure plates, each opening its gates while something stands on it
+  mask?: string[]; // One string per row: 'X' cells are playable, '.' cells are cut out of the board
+}
+
+/**
+ * Index of the link group a block is chained into, or null if it moves alone
+ */
+export function getBlockLink(level: LevelData, blockIndex: number): number | null {
+  const link = (level.links ?? []).findIndex(group => group.length > 1 && group.includes(blockIndex));
+  return link >= 0 ? link : null;
 }
 
+export const DEFAULT_HINT_LIMIT = 3;
+
 export const LEVELS: LevelData[] = [
   // Level 1: Tutorial - Simple introduction with 2 blocks
   {
@@ -175,6 +406,8 @@ export const LEVELS: LevelData[] = [
     id: 4,
     gridSize: { rows: 8, cols: 8 },
     timeLimit: 200, // 3:20
+    undoCost: { kind: 'moves', amount: 1 },
+    hintLimit: 2,
     blocks: [
       {
         color: 'purple',
@@ -246,6 +479,8 @@ export const LEVELS: LevelData[] = [
     id: 5,
     gridSize: { rows: 9, cols: 9 },
     timeLimit: 240, // 4 minutes
+    undoCost: { kind: 'time', amount: 5 },
+    hintLimit: 1,
     blocks: [
       {
         color: 'red',
@@ -325,18 +560,38 @@ export const LEVELS: LevelData[] = [
   }
 ];
 
+// Levels served by getLevel: the built-in LEVELS plus any registered from JSON packs
+let activeLevels: LevelData[] = LEVELS;
+
+/**
+ * Add levels (e.g. loaded from JSON packs)
+ * A level replaces any existing level with the same ID
+ */
+export function registerLevels(levels: LevelData[]): void {
+  const byId = new Map(activeLevels.map(level => [level.id, level]));
+  levels.forEach(level => byId.set(level.id, level));
+  activeLevels = [...byId.values()].sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Get every available level, ordered by ID
+ */
+export function getLevels(): readonly LevelData[] {
+  return activeLevels;
+}
+
 /**
  * Get a level by ID
  */
 export function getLevel(id: number): LevelData | undefined {
-  return LEVELS.find(level => level.id === id);
+  return activeLevels.find(level => level.id === id);
 }
 
 /**
  * Get the total number of levels
  */
 export function getTotalLevels(): number {
-  return LEVELS.length;
+  return activeLevels.length;
 }
 
 /**
@@ -1,6 +1,15 @@
 /**
  * Shape definitions for polyomino blocks
  * Each shape is defined as an array of (row, col) offsets from the origin (top-left)
+ *
+ * Only base shapes are written out; their rotations and mirror images are
+ * generated. Variant IDs are canonical:
+ *   - rectangles are named by size, rows x cols ('1x2', '2x1', ...)
+ *   - other shapes are `<name>_<degrees>` for clockwise rotations and
+ *     `<name>_M<degrees>` for rotations of the mirror image ('L_90', 'L_M0')
+ *   - a shape that looks the same in every orientation keeps its bare name ('Cross')
+ * Names that describe an identical variant (e.g. 'T_M0' for 'T_0', or the bare
+ * base name) are accepted as aliases of the canonical ID.
  */
 
 export interface CellOffset {
@@ -8,116 +17,324 @@ export interface CellOffset {
   col: number;
 }
 
-export type ShapeType =
+/**
+ * A canonical shape ID or an alias of one
+ */
+export type ShapeType = string;
+
+/**
+ * A base shape drawn as text rows: 'X' is a filled cell, '.' or ' ' is empty
+ * e.g. { name: 'S', cells: ['.XX', 'XX.'] }
+ */
+export interface ShapeDefinition {
+  name: string;
+  cells: string[];
+}
+
+export const BASE_SHAPES: readonly ShapeDefinition[] = [
   // Rectangles
-  | '1x1' | '1x2' | '1x3' | '2x2' | '2x3' | '3x3'
-  // L-shapes (4 rotations)
-  | 'L_0' | 'L_90' | 'L_180' | 'L_270'
-  // T-shapes (4 rotations)
-  | 'T_0' | 'T_90' | 'T_180' | 'T_270'
-  // Cross
-  | 'Cross';
-
-export const SHAPES: Record<ShapeType, CellOffset[]> = {
-  // Rectangle Shapes
-  '1x1': [
-    { row: 0, col: 0 }
-  ],
-
-  '1x2': [
-    { row: 0, col: 0 },
-    { row: 0, col: 1 }
-  ],
-
-  '1x3': [
-    { row: 0, col: 0 },
-    { row: 0, col: 1 },
-    { row: 0, col: 2 }
-  ],
-
-  '2x2': [
-    { row: 0, col: 0 }, { row: 0, col: 1 },
-    { row: 1, col: 0 }, { row: 1, col: 1 }
-  ],
-
-  '2x3': [
-    { row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 },
-    { row: 1, col: 0 }, { row: 1, col: 1 }, { row: 1, col: 2 }
-  ],
-
-  '3x3': [
-    { row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 },
-    { row: 1, col: 0 }, { row: 1, col: 1 }, { row: 1, col: 2 },
-    { row: 2, col: 0 }, { row: 2, col: 1 }, { row: 2, col: 2 }
-  ],
-
-  // L-Shapes (4 rotations)
-  // L_0: ⌞
-  'L_0': [
-    { row: 0, col: 0 },
-    { row: 1, col: 0 },
-    { row: 2, col: 0 }, { row: 2, col: 1 }
-  ],
-
-  // L_90: ⌜
-  'L_90': [
-    { row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 },
-    { row: 1, col: 0 }
-  ],
-
-  // L_180: ⌝
-  'L_180': [
-    { row: 0, col: 0 }, { row: 0, col: 1 },
-                        { row: 1, col: 1 },
-                        { row: 2, col: 1 }
-  ],
-
-  // L_270: ⌟
-  'L_270': [
-                                            { row: 0, col: 2 },
-    { row: 1, col: 0 }, { row: 1, col: 1 }, { row: 1, col: 2 }
-  ],
-
-  // T-Shapes (4 rotations)
-  // T_0: ⊤
-  'T_0': [
-                        { row: 0, col: 1 },
-    { row: 1, col: 0 }, { row: 1, col: 1 }, { row: 1, col: 2 }
-  ],
-
-  // T_90: ⊣
-  'T_90': [
-    { row: 0, col: 0 },
-    { row: 1, col: 0 }, { row: 1, col: 1 },
-    { row: 2, col: 0 }
-  ],
-
-  // T_180: ⊥
-  'T_180': [
-    { row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 },
-                        { row: 1, col: 1 }
-  ],
-
-  // T_270: ⊢
-  'T_270': [
-                        { row: 0, col: 1 },
-    { row: 1, col: 0 }, { row: 1, col: 1 },
-                        { row: 2, col: 1 }
-  ],
-
-  // Cross Shape: +
-  'Cross': [
-                        { row: 0, col: 1 },
-    { row: 1, col: 0 }, { row: 1, col: 1 }, { row: 1, col: 2 },
-                        { row: 2, col: 1 }
-  ]
-};
+  { name: '1x1', cells: ['X'] },
+  { name: '1x2', cells: ['XX'] },
+  { name: '1x3', cells: ['XXX'] },
+  { name: '2x2', cells: ['XX', 'XX'] },
+  { name: '2x3', cells: ['XXX', 'XXX'] },
+  { name: '3x3', cells: ['XXX', 'XXX', 'XXX'] },
+
+  // L_0: vertical bar with a foot to the right
+  { name: 'L', cells: ['X.', 'X.', 'XX'] },
+
+  // T_0: ⊥
+  { name: 'T', cells: ['.X.', 'XXX'] },
+
+  // Cross: +
+  { name: 'Cross', cells: ['.X.', 'XXX', '.X.'] }
+];
+
+const RECTANGLE_NAME = /^\d+x\d+$/;
+const SHAPE_NAME = /^[A-Za-z0-9]+$/;
+
+/**
+ * Canonical shape ID -> cell offsets, for every registered variant
+ */
+export const SHAPES: Record<ShapeType, CellOffset[]> = {};
+
+const aliases = new Map<ShapeType, ShapeType>(); // Alias -> canonical ID
+const families = new Map<string, ShapeType[]>(); // Base name -> variants in rotation order
+const familyOf = new Map<ShapeType, string>(); // Canonical ID -> base name
+const definitions = new Map<string, ShapeDefinition>(); // Base name -> definition
+const byCells = new Map<string, ShapeType>(); // Cell key -> canonical ID
+
+// Custom shapes of the level in play, registered on top of the built-in shapes
+let levelShapes: ShapeDefinition[] = [];
+
+/**
+ * Order-independent key for a normalized set of offsets
+ */
+function cellKey(offsets: CellOffset[]): string {
+  return offsets
+    .map(offset => `${offset.row},${offset.col}`)
+    .sort()
+    .join(';');
+}
+
+/**
+ * Shift offsets so the top-most and left-most cells sit at 0, sorted row-major
+ */
+function normalize(offsets: CellOffset[]): CellOffset[] {
+  const minRow = Math.min(...offsets.map(offset => offset.row));
+  const minCol = Math.min(...offsets.map(offset => offset.col));
+  return offsets
+    .map(offset => ({ row: offset.row - minRow, col: offset.col - minCol }))
+    .sort((a, b) => a.row - b.row || a.col - b.col);
+}
+
+/**
+ * Rotate offsets a quarter turn clockwise
+ */
+function rotateOffsets(offsets: CellOffset[]): CellOffset[] {
+  return normalize(offsets.map(offset => ({ row: offset.col, col: -offset.row })));
+}
+
+/**
+ * Mirror offsets left to right
+ */
+function mirrorOffsets(offsets: CellOffset[]): CellOffset[] {
+  return normalize(offsets.map(offset => ({ row: offset.row, col: -offset.col })));
+}
+
+function isConnected(offsets: CellOffset[]): boolean {
+  const cells = new Set(offsets.map(offset => `${offset.row},${offset.col}`));
+  const start = offsets[0];
+  const seen = new Set([`${start.row},${start.col}`]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const { row, col } = queue.pop()!;
+    [[1, 0], [-1, 0], [0, 1], [0, -1]].forEach(([dr, dc]) => {
+      const key = `${row + dr},${col + dc}`;
+      if (cells.has(key) && !seen.has(key)) {
+        seen.add(key);
+        queue.push({ row: row + dr, col: col + dc });
+      }
+    });
+  }
+  return seen.size === cells.size;
+}
+
+/**
+ * Parse the text rows of a shape definition into normalized offsets
+ */
+export function parseShapeCells(cells: string[]): CellOffset[] {
+  const offsets: CellOffset[] = [];
+  cells.forEach((line, row) => {
+    [...line].forEach((char, col) => {
+      if (char === 'X' || char === 'x') {
+        offsets.push({ row, col });
+      } else if (char !== '.' && char !== ' ') {
+        throw new Error(`Shape cells may only contain 'X' and '.', found "${char}"`);
+      }
+    });
+  });
+
+  if (offsets.length === 0) {
+    throw new Error('Shape has no filled cells');
+  }
+  if (!isConnected(offsets)) {
+    throw new Error('Shape cells must all connect edge to edge');
+  }
+  return normalize(offsets);
+}
+
+/**
+ * Every distinct orientation of a shape with the name it would be given,
+ * rotations first, then rotations of the mirror image
+ */
+function deriveVariants(name: string, offsets: CellOffset[]): { names: string[]; offsets: CellOffset[] }[] {
+  const variants: { names: string[]; offsets: CellOffset[]; key: string }[] = [];
+  const isRectangle = RECTANGLE_NAME.test(name);
+
+  [false, true].forEach(mirrored => {
+    let current = mirrored ? mirrorOffsets(offsets) : normalize(offsets);
+    [0, 90, 180, 270].forEach(degrees => {
+      const height = Math.max(...current.map(offset => offset.row)) + 1;
+      const width = Math.max(...current.map(offset => offset.col)) + 1;
+      const variantName = isRectangle
+        ? `${height}x${width}`
+        : `${name}_${mirrored ? 'M' : ''}${degrees}`;
+
+      const key = cellKey(current);
+      const existing = variants.find(variant => variant.key === key);
+      if (existing) {
+        if (!existing.names.includes(variantName)) existing.names.push(variantName);
+      } else {
+        variants.push({ names: [variantName], offsets: current, key });
+      }
+      current = rotateOffsets(current);
+    });
+  });
+
+  // A shape with a single orientation is known by its bare name
+  if (variants.length === 1 && !isRectangle) {
+    variants[0].names.unshift(name);
+  } else if (!variants[0].names.includes(name)) {
+    variants[0].names.push(name);
+  }
+
+  return variants;
+}
+
+/**
+ * Register a base shape and generate its rotations and mirror images
+ * Registering a name again with any orientation of its cells is a no-op;
+ * throws if the name or any generated ID is already taken by different cells
+ * Returns the canonical IDs of every variant
+ */
+function registerShape(definition: ShapeDefinition): ShapeType[] {
+  const { name } = definition;
+  if (!SHAPE_NAME.test(name)) {
+    throw new Error(`Shape name "${name}" may only use letters and digits`);
+  }
+
+  let offsets: CellOffset[];
+  try {
+    offsets = parseShapeCells(definition.cells);
+  } catch (error) {
+    throw new Error(`Shape "${name}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (RECTANGLE_NAME.test(name)) {
+    const [rows, cols] = name.split('x').map(Number);
+    if (offsets.length !== rows * cols || offsets.some(offset => offset.row >= rows || offset.col >= cols)) {
+      throw new Error(`Shape "${name}" is named like a rectangle but is not a full ${rows} x ${cols} rectangle`);
+    }
+  }
+
+  const existingFamily = families.get(name);
+  if (existingFamily) {
+    const existingKeys = existingFamily.map(id => cellKey(SHAPES[id]));
+    if (!existingKeys.includes(cellKey(offsets))) {
+      throw new Error(`Shape "${name}" is already defined with different cells`);
+    }
+    return [...existingFamily];
+  }
+
+  const variants = deriveVariants(name, offsets);
+
+  // Check every name before registering anything, so a clash leaves the library untouched
+  variants.forEach(variant => {
+    const key = cellKey(variant.offsets);
+    variant.names.forEach(variantName => {
+      const taken = resolveShape(variantName);
+      if (taken && cellKey(SHAPES[taken]) !== key) {
+        throw new Error(`Shape "${name}" would redefine "${variantName}" with different cells`);
+      }
+    });
+  });
+
+  const ids = variants.map(variant => {
+    const key = cellKey(variant.offsets);
+    const [id, ...otherNames] = variant.names;
+    // Shapes of the same outline share one ID (e.g. a custom '1x4' and 'I')
+    const canonical = byCells.get(key) ?? id;
+
+    if (!SHAPES[canonical]) {
+      SHAPES[canonical] = variant.offsets;
+      byCells.set(key, canonical);
+      familyOf.set(canonical, name);
+    }
+    [id, ...otherNames]
+      .filter(alias => alias !== canonical)
+      .forEach(alias => aliases.set(alias, canonical));
+    return canonical;
+  });
+
+  families.set(name, ids);
+  definitions.set(name, { name, cells: [...definition.cells] });
+  return [...ids];
+}
+
+/**
+ * Clear the library and register the built-in shapes followed by custom ones
+ */
+function rebuildShapes(custom: readonly ShapeDefinition[]): void {
+  Object.keys(SHAPES).forEach(id => delete SHAPES[id]);
+  [aliases, families, familyOf, definitions, byCells].forEach(map => map.clear());
+  [...BASE_SHAPES, ...custom].forEach(registerShape);
+}
+
+rebuildShapes([]);
+
+/**
+ * Make a level's custom shapes the only ones registered besides the built-in
+ * shapes, dropping those of the previous level so levels may reuse a name
+ * Throws if a shape is invalid or clashes, keeping the previous level's shapes
+ */
+export function useLevelShapes(custom: readonly ShapeDefinition[] = []): void {
+  try {
+    rebuildShapes(custom);
+  } catch (error) {
+    rebuildShapes(levelShapes);
+    throw error;
+  }
+  levelShapes = custom.map(definition => ({ name: definition.name, cells: [...definition.cells] }));
+}
+
+/**
+ * Custom shapes of the level in play
+ */
+export function getLevelShapes(): ShapeDefinition[] {
+  return levelShapes.map(definition => ({ name: definition.name, cells: [...definition.cells] }));
+}
+
+/**
+ * Run with a level's custom shapes registered, then restore the level in play
+ * Throws like useLevelShapes, without running, if the shapes do not register
+ */
+export function withLevelShapes<T>(custom: readonly ShapeDefinition[], run: () => T): T {
+  const inPlay = levelShapes;
+  useLevelShapes(custom);
+  try {
+    return run();
+  } finally {
+    useLevelShapes(inPlay);
+  }
+}
+
+/**
+ * Canonical IDs of every built-in shape variant
+ */
+export const BUILT_IN_SHAPES: readonly ShapeType[] = BASE_SHAPES.flatMap(base => families.get(base.name)!);
+
+/**
+ * Resolve a shape ID or alias to its canonical ID, or undefined if unknown
+ */
+export function resolveShape(shape: ShapeType): ShapeType | undefined {
+  if (Object.prototype.hasOwnProperty.call(SHAPES, shape)) {
+    return shape;
+  }
+  return aliases.get(shape);
+}
+
+/**
+ * Check if a shape ID or alias is registered
+ */
+export function hasShape(shape: ShapeType): boolean {
+  return resolveShape(shape) !== undefined;
+}
+
+function requireShape(shape: ShapeType): ShapeType {
+  const id = resolveShape(shape);
+  if (!id) {
+    throw new Error(`Unknown shape "${shape}"`);
+  }
+  return id;
+}
 
 /**
  * Get the bounding box dimensions for a shape
  */
 export function getShapeDimensions(shape: ShapeType): { width: number; height: number } {
-  const offsets = SHAPES[shape];
+  const offsets = getShapeOffsets(shape);
   let maxRow = 0;
   let maxCol = 0;
 
@@ -136,5 +353,51 @@ export function getShapeDimensions(shape: ShapeType): { width: number; height: n
  * Get all cell offsets for a shape
  */
 export function getShapeOffsets(shape: ShapeType): CellOffset[] {
-  return SHAPES[shape];
+  return SHAPES[requireShape(shape)];
+}
+
+/**
+ * Name of the base shape a variant was generated from (e.g. 'L' for 'L_M90')
+ */
+export function getShapeFamily(shape: ShapeType): string {
+  return familyOf.get(requireShape(shape))!;
+}
+
+/**
+ * Every variant of a base shape in rotation order, rotations before mirror images
+ */
+export function getShapeVariants(family: string): ShapeType[] {
+  return [...(families.get(family) ?? [])];
+}
+
+/**
+ * Names of every registered base shape, built-in shapes first
+ */
+export function getShapeFamilies(): string[] {
+  return [...families.keys()];
+}
+
+/**
+ * The definition a base shape was registered with
+ */
+export function getShapeDefinition(family: string): ShapeDefinition | undefined {
+  return definitions.get(family);
+}
+
+/**
+ * Canonical ID of a shape turned clockwise by a number of quarter turns
+ */
+export function rotateShape(shape: ShapeType, quarterTurns: number = 1): ShapeType {
+  let offsets = getShapeOffsets(shape);
+  for (let i = 0; i < ((quarterTurns % 4) + 4) % 4; i++) {
+    offsets = rotateOffsets(offsets);
+  }
+  return byCells.get(cellKey(offsets))!;
+}
+
+/**
+ * Canonical ID of a shape's mirror image
+ */
+export function mirrorShape(shape: ShapeType): ShapeType {
+  return byCells.get(cellKey(mirrorOffsets(getShapeOffsets(shape))))!;
 }
@@ -1,6 +1,8 @@
 import Phaser from 'phaser';
-import { Grid, GridPosition, Bounds } from './Grid';
+import { Grid, Bounds } from './Grid';
+import { GridPosition } from '../model/types';
 import { ShapeType, getShapeOffsets, CellOffset } from '../data/shapes';
+import { BlockAxis, isCrate, isRainbow } from '../data/levels';
 
 export interface BlockConfig {
   scene: Phaser.Scene;
@@ -9,6 +11,10 @@ export interface BlockConfig {
   color: string;
   shape: ShapeType;
   gridPosition: GridPosition;
+  rotatable?: boolean;
+  axis?: BlockAxis;
+  frozen?: number; // Moves left until the ice thaws
+  link?: number | null; // Link group it is chained into, if any
 }
 
 export class Block extends Phaser.GameObjects.Container {
@@ -17,6 +23,10 @@ export class Block extends Phaser.GameObjects.Container {
   public shape: ShapeType;
   public gridPosition: GridPosition;
   public shapeOffsets: CellOffset[];
+  public rotatable: boolean;
+  public axis: BlockAxis;
+  public frozen: number;
+  public link: number | null;
   public isDragging: boolean = false;
   public dragOffset: Phaser.Math.Vector2 = new Phaser.Math.Vector2(0, 0);
   public lastValidPosition: GridPosition;
@@ -24,10 +34,15 @@ export class Block extends Phaser.GameObjects.Container {
   private grid: Grid;
   private cellSize: number;
   private graphics: Phaser.GameObjects.Graphics;
+  private iceGraphics: Phaser.GameObjects.Graphics;
+  private iceText: Phaser.GameObjects.Text;
   private shapeOriginOffset: CellOffset; // Offset from gridPosition to actual top-left cell
+  private rainbowPhase: number = 0; // Hue offset (0-1) that cycles while a rainbow block is shown
+  private rainbowTimer: Phaser.Time.TimerEvent | null = null;
+  private teleportTween: Phaser.Tweens.TweenChain | null = null; // Set while jumping through a portal
 
-  // Color string to hex mapping
-  private static colorMap: { [key: string]: number } = {
+  // Color string to hex mapping (also the palette offered by the level editor)
+  public static readonly colorMap: { [key: string]: number } = {
     red: 0xe84c3d,
     blue: 0x3498db,
     green: 0x2ecc71,
@@ -38,6 +53,9 @@ export class Block extends Phaser.GameObjects.Container {
     pink: 0xe91e63
   };
 
+  // Crates are not a block color, so they are kept out of the palette
+  public static readonly crateColor = 0x8e9aa3;
+
   constructor(config: BlockConfig) {
     // Get shape offsets and find the minimum to normalize
     const rawOffsets = getShapeOffsets(config.shape);
@@ -54,6 +72,10 @@ export class Block extends Phaser.GameObjects.Container {
     this.id = config.id;
     this.color = config.color;
     this.shape = config.shape;
+    this.rotatable = config.rotatable ?? false;
+    this.axis = config.axis ?? 'free';
+    this.frozen = config.frozen ?? 0;
+    this.link = config.link ?? null;
     this.gridPosition = { ...config.gridPosition };
     this.lastValidPosition = { ...config.gridPosition };
     this.grid = config.grid;
@@ -72,6 +94,16 @@ export class Block extends Phaser.GameObjects.Container {
     this.graphics = config.scene.add.graphics();
     this.add(this.graphics);
 
+    // Ice sits on top of the block so it can melt away on its own
+    this.iceGraphics = config.scene.add.graphics();
+    this.iceText = config.scene.add.text(0, 0, '', {
+      fontSize: `${Math.round(this.cellSize * 0.42)}px`,
+      fontFamily: 'Arial',
+      fontStyle: 'bold',
+      color: '#1f5f8b'
+    }).setOrigin(0.5);
+    this.add([this.iceGraphics, this.iceText]);
+
     // Render the block
     this.renderBlock();
 
@@ -93,12 +125,12 @@ export class Block extends Phaser.GameObjects.Container {
 
     // Override hitTestPointer for precise shape-based detection
     if (this.input) {
-      this.input.hitAreaCallback = (_hitArea: Phaser.Geom.Rectangle, x: number, y: number) => {
+      this.input.hitAreaCallback = (hitArea: Phaser.Geom.Rectangle, x: number, y: number) => {
         // Phaser centers hit areas on Containers, requiring dynamic offset compensation
         // Formula: offset = -(hitArea size / 2 + cellSize / 2)
-        // This works for all block shapes automatically
-        const adjustedX = x - (hitAreaWidth / 2 + this.cellSize / 2);
-        const adjustedY = y - (hitAreaHeight / 2 + this.cellSize / 2);
+        // This works for all block shapes automatically (and follows rotations)
+        const adjustedX = x - (hitArea.width / 2 + this.cellSize / 2);
+        const adjustedY = y - (hitArea.height / 2 + this.cellSize / 2);
 
         // Use Math.round to handle cell boundaries correctly (not Math.floor)
         const col = Math.round(adjustedX / this.cellSize);
@@ -114,11 +146,28 @@ export class Block extends Phaser.GameObjects.Container {
     this.updateGridOccupancy();
   }
 
+  /**
+   * Hue around the color wheel for rainbow pieces; phase wraps every 1
+   */
+  public static getRainbowColor(phase: number): number {
+    return Phaser.Display.Color.HSLToColor(((phase % 1) + 1) % 1, 0.75, 0.55).color;
+  }
+
+  /**
+   * Color value for a color name (rainbow shows the hue at `phase`)
+   */
+  public static getDisplayColor(color: string, phase: number = 0): number {
+    if (isCrate(color)) {
+      return Block.crateColor;
+    }
+    return isRainbow(color) ? Block.getRainbowColor(phase) : Block.colorMap[color.toLowerCase()] || 0xffffff;
+  }
+
   /**
    * Get the color value for this block
    */
   private getColorValue(): number {
-    return Block.colorMap[this.color.toLowerCase()] || 0xffffff;
+    return Block.getDisplayColor(this.color, this.rainbowPhase);
   }
 
   /**
@@ -146,6 +195,24 @@ export class Block extends Phaser.GameObjects.Container {
    * Render the block as a continuous LEGO-style shape
    */
   private renderBlock(): void {
+    this.drawBody();
+    this.renderIce();
+    this.updateRainbowTimer();
+
+    // Add depth to the container if being dragged
+    if (this.isDragging) {
+      this.setScale(1.01);
+      this.setDepth(1000);
+    } else {
+      this.setScale(1);
+      this.setDepth(100);
+    }
+  }
+
+  /**
+   * Draw the block's shape, studs and markings
+   */
+  private drawBody(): void {
     this.graphics.clear();
 
     const cellSize = this.cellSize;
@@ -153,23 +220,45 @@ export class Block extends Phaser.GameObjects.Container {
     const baseColor = this.getColorValue();
     const studRadius = cellSize * 0.13;
 
-    // Draw flat shape and studs
+    // Draw flat shape and studs (crates get planks instead)
     this.drawContinuousShape(baseColor, cornerRadius);
+    if (isCrate(this.color)) {
+      this.drawPlanks(baseColor);
+      return;
+    }
     this.drawStuds(baseColor, studRadius);
 
-    // Add depth to the container if being dragged
-    if (this.isDragging) {
-      this.setScale(1.01);
-      this.setDepth(1000);
-    } else {
-      this.setScale(1);
-      this.setDepth(100);
+    // Markings sit on the cells nearest the center, one per cell
+    const markerCells = this.getMarkerCells();
+    if (this.axis !== 'free') {
+      this.drawAxisMarker(markerCells.shift()!);
+    }
+    if (this.rotatable && markerCells.length > 0) {
+      this.drawRotateMarker(markerCells[0]);
     }
   }
 
   /**
-   * Draw a rounded path using marching squares for grid-based shapes
-   * Checks 2×2 cell patterns to determine corner types with fixed angles
+   * Keep a rainbow block's colors cycling (and stop once it is repainted)
+   */
+  private updateRainbowTimer(): void {
+    if (isRainbow(this.color) && !this.rainbowTimer) {
+      this.rainbowTimer = this.scene.time.addEvent({
+        delay: 80,
+        loop: true,
+        callback: () => {
+          this.rainbowPhase = (this.rainbowPhase + 0.015) % 1;
+          this.drawBody();
+        }
+      });
+    } else if (!isRainbow(this.color) && this.rainbowTimer) {
+      this.rainbowTimer.remove();
+      this.rainbowTimer = null;
+    }
+  }
+
+  /**
+   * Draw this block's rounded outline (from buildOuterEdgePath)
    */
   private drawRoundedPath(
     points: { x: number; y: number }[],
@@ -177,11 +266,26 @@ export class Block extends Phaser.GameObjects.Container {
     offsetX: number = 0,
     offsetY: number = 0,
     graphics: Phaser.GameObjects.Graphics = this.graphics
+  ): void {
+    Block.drawRoundedPath(graphics, this.shapeOffsets, this.cellSize, points, cornerRadius, offsetX, offsetY);
+  }
+
+  /**
+   * Draw a rounded path using marching squares for grid-based shapes
+   * Checks 2×2 cell patterns to determine corner types with fixed angles
+   */
+  public static drawRoundedPath(
+    graphics: Phaser.GameObjects.Graphics,
+    offsets: readonly CellOffset[],
+    cellSize: number,
+    points: { x: number; y: number }[],
+    cornerRadius: number,
+    offsetX: number = 0,
+    offsetY: number = 0
   ): void {
     if (points.length < 3) return;
 
-    const cellSize = this.cellSize;
-    const cellMap = new Set(this.shapeOffsets.map(o => `${o.row},${o.col}`));
+    const cellMap = new Set(offsets.map(o => `${o.row},${o.col}`));
     const hasCell = (row: number, col: number) => cellMap.has(`${row},${col}`);
 
     graphics.beginPath();
@@ -320,10 +424,9 @@ export class Block extends Phaser.GameObjects.Container {
   /**
    * Draw 3D-looking LEGO studs
    */
-  private drawStuds(baseColor: number, studRadius: number): void {
+  private drawStuds(blockColor: number, studRadius: number): void {
     const cellSize = this.cellSize;
-    const lightColor = this.getLighterColor(baseColor);
-    const shadowColor = this.getDarkerColor(baseColor);
+    const rainbow = isRainbow(this.color);
 
     this.shapeOffsets.forEach(offset => {
       const x = offset.col * cellSize;
@@ -338,6 +441,13 @@ export class Block extends Phaser.GameObjects.Container {
           const studX = x + studOffsetX + col * studSpacing;
           const studY = y + studOffsetY + row * studSpacing;
 
+          // Rainbow studs run through the hues diagonally across the block
+          const baseColor = rainbow
+            ? Block.getRainbowColor(this.rainbowPhase + (studX + studY) / (cellSize * 8))
+            : blockColor;
+          const lightColor = this.getLighterColor(baseColor);
+          const shadowColor = this.getDarkerColor(baseColor);
+
           // Draw stud shadow first (slightly offset down-right)
           this.graphics.fillStyle(shadowColor, 0.6);
           this.graphics.fillCircle(studX + 1, studY + 1, studRadius * 0.9);
@@ -364,13 +474,160 @@ export class Block extends Phaser.GameObjects.Container {
   }
 
 
+  /**
+   * Draw a crate's boards: a frame and a diagonal brace on every cell
+   */
+  private drawPlanks(crateColor: number): void {
+    const cellSize = this.cellSize;
+    const inset = cellSize * 0.14;
+    const darkColor = this.getDarkerColor(crateColor);
+
+    this.graphics.lineStyle(Math.max(2, cellSize * 0.05), darkColor, 0.9);
+    this.shapeOffsets.forEach(offset => {
+      const x = offset.col * cellSize;
+      const y = offset.row * cellSize;
+      this.graphics.strokeRect(x + inset, y + inset, cellSize - inset * 2, cellSize - inset * 2);
+      this.graphics.lineBetween(x + inset, y + cellSize - inset, x + cellSize - inset, y + inset);
+    });
+
+    this.graphics.lineStyle(Math.max(1, cellSize * 0.02), this.getLighterColor(crateColor), 0.6);
+    this.shapeOffsets.forEach(offset => {
+      const x = offset.col * cellSize;
+      const y = offset.row * cellSize;
+      this.graphics.lineBetween(x + inset, y + inset, x + cellSize - inset, y + inset);
+    });
+  }
+
+  /**
+   * Cells ordered by distance from the block's center, for placing markings
+   */
+  private getMarkerCells(): CellOffset[] {
+    const centerRow = this.shapeOffsets.reduce((sum, o) => sum + o.row, 0) / this.shapeOffsets.length;
+    const centerCol = this.shapeOffsets.reduce((sum, o) => sum + o.col, 0) / this.shapeOffsets.length;
+    const distance = (o: CellOffset) => Math.hypot(o.row - centerRow, o.col - centerCol);
+    return [...this.shapeOffsets].sort((a, b) => distance(a) - distance(b));
+  }
+
+  /**
+   * Draw a double-headed arrow along the block's axis on a cell
+   */
+  private drawAxisMarker(cell: CellOffset): void {
+    const cellSize = this.cellSize;
+    const x = (cell.col + 0.5) * cellSize;
+    const y = (cell.row + 0.5) * cellSize;
+    const horizontal = this.axis === 'horizontal';
+    const half = cellSize * 0.36;
+    const head = cellSize * 0.14;
+
+    // Backing bar keeps the arrow readable over the studs
+    this.graphics.fillStyle(this.getDarkerColor(this.getColorValue()), 0.85);
+    if (horizontal) {
+      this.graphics.fillRoundedRect(x - half - head * 0.5, y - head * 1.4, (half + head * 0.5) * 2, head * 2.8, head);
+    } else {
+      this.graphics.fillRoundedRect(x - head * 1.4, y - half - head * 0.5, head * 2.8, (half + head * 0.5) * 2, head);
+    }
+
+    const dx = horizontal ? 1 : 0;
+    const dy = horizontal ? 0 : 1;
+    this.graphics.lineStyle(Math.max(2, cellSize * 0.06), 0xffffff, 0.95);
+    this.graphics.lineBetween(x - dx * (half - head), y - dy * (half - head), x + dx * (half - head), y + dy * (half - head));
+
+    this.graphics.fillStyle(0xffffff, 0.95);
+    [-1, 1].forEach(sign => {
+      const tipX = x + sign * dx * half;
+      const tipY = y + sign * dy * half;
+      const baseX = tipX - sign * dx * head * 1.4;
+      const baseY = tipY - sign * dy * head * 1.4;
+      this.graphics.fillTriangle(
+        tipX, tipY,
+        baseX + dy * head, baseY + dx * head,
+        baseX - dy * head, baseY - dx * head
+      );
+    });
+  }
+
+  /**
+   * Draw a circular arrow on a cell to mark the block as rotatable
+   */
+  private drawRotateMarker(cell: CellOffset): void {
+    const cellSize = this.cellSize;
+    const x = (cell.col + 0.5) * cellSize;
+    const y = (cell.row + 0.5) * cellSize;
+    const radius = cellSize * 0.22;
+    const startAngle = -Math.PI * 0.4;
+    const endAngle = Math.PI * 1.2;
+
+    // Backing disc keeps the arrow readable over the studs
+    this.graphics.fillStyle(this.getDarkerColor(this.getColorValue()), 0.85);
+    this.graphics.fillCircle(x, y, radius * 1.6);
+
+    this.graphics.lineStyle(Math.max(2, cellSize * 0.06), 0xffffff, 0.95);
+    this.graphics.beginPath();
+    this.graphics.arc(x, y, radius, startAngle, endAngle, false);
+    this.graphics.strokePath();
+
+    // Arrow head at the end of the arc, pointing clockwise
+    const tipX = x + Math.cos(endAngle) * radius;
+    const tipY = y + Math.sin(endAngle) * radius;
+    const head = radius * 0.6;
+    const tangent = endAngle + Math.PI / 2;
+    this.graphics.fillStyle(0xffffff, 0.95);
+    this.graphics.fillTriangle(
+      tipX + Math.cos(tangent) * head, tipY + Math.sin(tangent) * head,
+      tipX + Math.cos(endAngle) * head * 0.7, tipY + Math.sin(endAngle) * head * 0.7,
+      tipX - Math.cos(endAngle) * head * 0.7, tipY - Math.sin(endAngle) * head * 0.7
+    );
+  }
+
+  /**
+   * Draw the ice overlay and thaw counter while the block is frozen
+   */
+  private renderIce(): void {
+    this.iceGraphics.clear();
+    this.iceText.setVisible(this.frozen > 0);
+    if (this.frozen <= 0) return;
+
+    const cellSize = this.cellSize;
+    const cornerRadius = cellSize * 0.12;
+    const points = this.buildOuterEdgePath();
+
+    this.iceGraphics.fillStyle(0xd6f1ff, 0.6);
+    this.drawRoundedPath(points, cornerRadius, 0, 0, this.iceGraphics);
+    this.iceGraphics.fillPath();
+    this.iceGraphics.lineStyle(3, 0xffffff, 0.9);
+    this.drawRoundedPath(points, cornerRadius, 0, 0, this.iceGraphics);
+    this.iceGraphics.strokePath();
+
+    // Frost streaks across every cell
+    this.iceGraphics.lineStyle(Math.max(1, cellSize * 0.03), 0xffffff, 0.7);
+    this.shapeOffsets.forEach(offset => {
+      const x = offset.col * cellSize;
+      const y = offset.row * cellSize;
+      this.iceGraphics.lineBetween(x + cellSize * 0.18, y + cellSize * 0.42, x + cellSize * 0.42, y + cellSize * 0.18);
+      this.iceGraphics.lineBetween(x + cellSize * 0.58, y + cellSize * 0.82, x + cellSize * 0.82, y + cellSize * 0.58);
+    });
+
+    const cell = this.getMarkerCells()[0];
+    const x = (cell.col + 0.5) * cellSize;
+    const y = (cell.row + 0.5) * cellSize;
+    this.iceGraphics.fillStyle(0xffffff, 0.9);
+    this.iceGraphics.fillCircle(x, y, cellSize * 0.3);
+    this.iceText.setPosition(x, y).setText(String(this.frozen));
+  }
+
   /**
    * Build the outer edge path for the block shape
-   * Returns path points for continuous shape rendering
    */
   private buildOuterEdgePath(): { x: number; y: number }[] {
-    const cellSize = this.cellSize;
-    const cellMap = new Set(this.shapeOffsets.map(o => `${o.row},${o.col}`));
+    return Block.buildOuterEdgePath(this.shapeOffsets, this.cellSize);
+  }
+
+  /**
+   * Build the outer edge path around a set of cells (shaped obstacles share it)
+   * Returns path points for continuous shape rendering
+   */
+  public static buildOuterEdgePath(offsets: readonly CellOffset[], cellSize: number): { x: number; y: number }[] {
+    const cellMap = new Set(offsets.map(o => `${o.row},${o.col}`));
     const hasCell = (row: number, col: number) => cellMap.has(`${row},${col}`);
 
     // Collect all edge segments (each edge is defined by two vertices)
@@ -384,7 +641,7 @@ export class Block extends Phaser.GameObjects.Container {
     const edges: EdgeSegment[] = [];
 
     // For each cell, find perimeter edges (at full size, no inset)
-    this.shapeOffsets.forEach(({ row, col }) => {
+    offsets.forEach(({ row, col }) => {
       const x = col * cellSize;
       const y = row * cellSize;
 
@@ -455,7 +712,7 @@ export class Block extends Phaser.GameObjects.Container {
   /**
    * Offset a path inward by a given distance using perpendicular normals
    */
-  private offsetPathInward(points: { x: number; y: number }[], offset: number): { x: number; y: number }[] {
+  public static offsetPathInward(points: { x: number; y: number }[], offset: number): { x: number; y: number }[] {
     if (offset === 0 || points.length < 3) return points;
 
     const offsetPath: { x: number; y: number }[] = [];
@@ -526,7 +783,7 @@ export class Block extends Phaser.GameObjects.Container {
       const alpha = t * 0.5; // Fade from 0.5 at edge to 0 at center
 
       // Offset the path inward
-      const offsetPoints = this.offsetPathInward(points, insetAmount);
+      const offsetPoints = Block.offsetPathInward(points, insetAmount);
 
       // Draw this layer with appropriate alpha
       this.graphics.lineStyle(2, darkerColor, alpha);
@@ -551,6 +808,27 @@ export class Block extends Phaser.GameObjects.Container {
     this.drawInsetGradient(points, cornerRadius, color);
   }
 
+  /**
+   * Create a translucent outline of this block's shape at its position
+   * Used to preview moves (e.g. hints) without touching grid occupancy
+   */
+  public createGhost(): Phaser.GameObjects.Graphics {
+    const ghost = this.scene.add.graphics({ x: this.x, y: this.y });
+    const points = this.buildOuterEdgePath();
+    const cornerRadius = this.cellSize * 0.12;
+
+    ghost.fillStyle(this.getColorValue(), 0.45);
+    this.drawRoundedPath(points, cornerRadius, 0, 0, ghost);
+    ghost.fillPath();
+
+    ghost.lineStyle(3, 0xffffff, 0.9);
+    this.drawRoundedPath(points, cornerRadius, 0, 0, ghost);
+    ghost.strokePath();
+
+    ghost.setDepth(900);
+    return ghost;
+  }
+
   /**
    * Get all grid cells this block occupies
    */
@@ -617,13 +895,8 @@ export class Block extends Phaser.GameObjects.Container {
    * Update grid occupancy data
    */
   public updateGridOccupancy(): void {
-    // Clear previous occupancy
-    this.grid.clearEntity(this);
-
-    // Set new occupancy
-    this.getOccupiedCells().forEach(cell => {
-      this.grid.setCellOccupied(cell.row, cell.col, this);
-    });
+    // Replaces any previous occupancy for this block
+    this.grid.placeEntity(this);
   }
 
   /**
@@ -638,6 +911,7 @@ export class Block extends Phaser.GameObjects.Container {
    * Set block position in grid coordinates
    */
   public setGridPosition(row: number, col: number): void {
+    this.stopTeleport();
     this.gridPosition = { row, col };
     // Position container at actual top-left cell (accounting for shape offset)
     const worldPos = this.grid.gridToWorld(
@@ -649,10 +923,187 @@ export class Block extends Phaser.GameObjects.Container {
     this.lastValidPosition = { row, col };
   }
 
+  /**
+   * Jump through a portal to a new origin: the block shrinks into the cell it
+   * was dropped on and grows back out of the target (it holds the target
+   * from the start, and snapping or dragging it cuts the animation short)
+   */
+  public teleportTo(position: GridPosition): void {
+    const entry = { x: this.x, y: this.y };
+    this.setGridPosition(position.row, position.col);
+    const target = { x: this.x, y: this.y };
+    this.setWorldPosition(entry.x, entry.y);
+
+    this.teleportTween = this.scene.tweens.chain({
+      targets: this,
+      tweens: [
+        {
+          x: entry.x + this.width / 2,
+          y: entry.y + this.height / 2,
+          scale: 0,
+          duration: 180,
+          ease: 'Back.easeIn',
+          onComplete: () => this.setWorldPosition(target.x + this.width / 2, target.y + this.height / 2)
+        },
+        {
+          x: target.x,
+          y: target.y,
+          scale: 1,
+          duration: 220,
+          ease: 'Back.easeOut'
+        }
+      ],
+      onComplete: () => {
+        this.teleportTween = null;
+      }
+    });
+  }
+
+  /**
+   * Cut a portal jump short, leaving the block full size (the caller places it)
+   */
+  private stopTeleport(): void {
+    if (!this.teleportTween) return;
+    this.teleportTween.stop();
+    this.teleportTween = null;
+    this.setScale(1);
+  }
+
+  /**
+   * Switch to another shape (e.g. a rotation of this one): recomputes the
+   * offsets, hit area and LEGO outline; the caller re-places the block
+   */
+  public setShape(shape: ShapeType): void {
+    const rawOffsets = getShapeOffsets(shape);
+    const minRow = Math.min(...rawOffsets.map(o => o.row));
+    const minCol = Math.min(...rawOffsets.map(o => o.col));
+
+    this.shape = shape;
+    this.shapeOriginOffset = { row: minRow, col: minCol };
+    this.shapeOffsets = rawOffsets.map(offset => ({
+      row: offset.row - minRow,
+      col: offset.col - minCol
+    }));
+
+    const width = (Math.max(...this.shapeOffsets.map(o => o.col)) + 1) * this.cellSize;
+    const height = (Math.max(...this.shapeOffsets.map(o => o.row)) + 1) * this.cellSize;
+    this.setSize(width, height);
+    if (this.input) {
+      (this.input.hitArea as Phaser.Geom.Rectangle).setSize(width, height);
+    }
+
+    this.renderBlock();
+  }
+
+  /**
+   * Turn into a rotated shape at a new origin with a short pop
+   */
+  public rotateTo(shape: ShapeType, position: GridPosition): void {
+    this.setShape(shape);
+    this.setGridPosition(position.row, position.col);
+
+    this.scene.tweens.killTweensOf(this);
+    this.setScale(0.85);
+    this.scene.tweens.add({
+      targets: this,
+      scale: 1,
+      duration: 200,
+      ease: 'Back.easeOut'
+    });
+  }
+
+  /**
+   * Recolor the block (e.g. after passing over paint) with a short flash
+   */
+  public setColor(color: string, animate: boolean = true): void {
+    if (color === this.color) return;
+    this.color = color;
+    this.renderBlock();
+    if (!this.isDragging) {
+      this.updateGridOccupancy();
+    }
+
+    if (animate) {
+      this.scene.tweens.add({
+        targets: this.graphics,
+        alpha: { from: 0.4, to: 1 },
+        duration: 250,
+        ease: 'Quad.easeOut'
+      });
+    }
+  }
+
+  /**
+   * Chain the block into a link group, or free it (null) once the link is cut
+   */
+  public setLink(link: number | null): void {
+    if (link === this.link) return;
+    this.link = link;
+    this.updateGridOccupancy();
+  }
+
+  /**
+   * Update the moves left until the ice thaws, melting it away when it
+   * reaches zero (and refreezing if an undo brings it back)
+   */
+  public setFrozen(moves: number): void {
+    const wasFrozen = this.frozen > 0;
+    this.frozen = Math.max(0, moves);
+    this.updateGridOccupancy();
+
+    this.scene.tweens.killTweensOf([this.iceGraphics, this.iceText]);
+    if (wasFrozen && this.frozen === 0) {
+      this.scene.tweens.add({
+        targets: [this.iceGraphics, this.iceText],
+        alpha: 0,
+        duration: 400,
+        ease: 'Quad.easeIn',
+        onComplete: () => {
+          this.renderIce();
+          this.iceGraphics.setAlpha(1);
+          this.iceText.setAlpha(1);
+        }
+      });
+      this.scene.tweens.killTweensOf(this);
+      this.setScale(1.08);
+      this.scene.tweens.add({
+        targets: this,
+        scale: 1,
+        duration: 300,
+        ease: 'Back.easeOut'
+      });
+      return;
+    }
+
+    this.iceGraphics.setAlpha(1);
+    this.iceText.setAlpha(1);
+    this.renderIce();
+  }
+
+  /**
+   * Shake in place, e.g. when a rotation has no room or the block is frozen
+   */
+  public shake(): void {
+    const startX = this.x;
+    this.scene.tweens.add({
+      targets: this,
+      x: startX + this.cellSize * 0.08,
+      duration: 50,
+      yoyo: true,
+      repeat: 2,
+      onComplete: () => {
+        this.x = startX;
+      }
+    });
+  }
+
   /**
    * Start dragging
    */
   public startDrag(pointer: Phaser.Input.Pointer): void {
+    if (this.teleportTween) {
+      this.setGridPosition(this.gridPosition.row, this.gridPosition.col);
+    }
     this.isDragging = true;
     this.dragOffset.x = this.x - pointer.x;
     this.dragOffset.y = this.y - pointer.y;
@@ -720,8 +1171,13 @@ export class Block extends Phaser.GameObjects.Container {
    * Destroy the block
    */
   public destroy(fromScene?: boolean): void {
+    this.teleportTween?.stop();
+    this.rainbowTimer?.remove();
+    this.rainbowTimer = null;
     this.grid.clearEntity(this);
     this.graphics.destroy();
+    this.iceGraphics.destroy();
+    this.iceText.destroy();
     super.destroy(fromScene);
   }
 }
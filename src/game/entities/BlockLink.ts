@@ -0,0 +1,119 @@
+import Phaser from 'phaser';
+import { Grid } from './Grid';
+import { Block } from './Block';
+
+export interface BlockLinkConfig {
+  scene: Phaser.Scene;
+  grid: Grid;
+  index: number; // Link group in the level's links
+  blockIds: string[];
+  getBlock: (id: string) => Block | undefined; // Blocks on the board now (they are recreated on undo)
+}
+
+/**
+ * Chain drawn between the blocks of a link group; redrawn every frame so it
+ * follows drags and slides, and fades away when the link is cut on scissors
+ */
+export class BlockLink {
+  private scene: Phaser.Scene;
+  private grid: Grid;
+  public index: number;
+  public blockIds: string[];
+  public isIntact: boolean = true;
+  private getBlock: (id: string) => Block | undefined;
+  private graphics: Phaser.GameObjects.Graphics;
+
+  constructor(config: BlockLinkConfig) {
+    this.scene = config.scene;
+    this.grid = config.grid;
+    this.index = config.index;
+    this.blockIds = [...config.blockIds];
+    this.getBlock = config.getBlock;
+
+    // Above resting and dragged blocks, below hints and messages
+    this.graphics = this.scene.add.graphics().setDepth(1050);
+    this.scene.events.on(Phaser.Scenes.Events.POST_UPDATE, this.render, this);
+    this.scene.events.once(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+  }
+
+  /**
+   * Chain each block to the next one still on the board
+   */
+  private render(): void {
+    this.graphics.clear();
+    if (this.graphics.alpha === 0) return;
+
+    const blocks = this.blockIds
+      .map(id => this.getBlock(id))
+      .filter((block): block is Block => block !== undefined && block.active);
+    for (let i = 1; i < blocks.length; i++) {
+      this.drawChain(blocks[i - 1], blocks[i]);
+    }
+  }
+
+  /**
+   * Draw a chain between the closest cells of two blocks
+   */
+  private drawChain(a: Block, b: Block): void {
+    const size = this.grid.cellSize;
+    const centers = (block: Block) => block.shapeOffsets.map(offset => ({
+      x: block.x + (offset.col + 0.5) * size,
+      y: block.y + (offset.row + 0.5) * size
+    }));
+
+    let from = { x: a.x, y: a.y };
+    let to = { x: b.x, y: b.y };
+    let best = Infinity;
+    centers(a).forEach(p => {
+      centers(b).forEach(q => {
+        const distance = Phaser.Math.Distance.Between(p.x, p.y, q.x, q.y);
+        if (distance < best) {
+          best = distance;
+          from = p;
+          to = q;
+        }
+      });
+    });
+
+    // Bolts on each block, a bar between them and rings along it
+    this.graphics.lineStyle(Math.max(2, size * 0.08), 0x34495e, 0.9);
+    this.graphics.lineBetween(from.x, from.y, to.x, to.y);
+    this.graphics.fillStyle(0x34495e, 1);
+    this.graphics.fillCircle(from.x, from.y, size * 0.1);
+    this.graphics.fillCircle(to.x, to.y, size * 0.1);
+
+    const rings = Math.max(2, Math.round(best / (size * 0.22)));
+    this.graphics.lineStyle(Math.max(2, size * 0.045), 0xbdc3c7, 1);
+    for (let i = 1; i < rings; i++) {
+      const t = i / rings;
+      this.graphics.strokeCircle(from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, size * 0.08);
+    }
+  }
+
+  /**
+   * Show the chain (e.g. when undo mends a cut) or fade it away once cut
+   */
+  public setIntact(intact: boolean, animate: boolean = true): void {
+    if (intact === this.isIntact) return;
+    this.isIntact = intact;
+
+    this.scene.tweens.killTweensOf(this.graphics);
+    if (!animate) {
+      this.graphics.setAlpha(intact ? 1 : 0);
+      return;
+    }
+    this.scene.tweens.add({
+      targets: this.graphics,
+      alpha: intact ? 1 : 0,
+      duration: intact ? 250 : 400,
+      ease: intact ? 'Quad.easeOut' : 'Quad.easeIn'
+    });
+  }
+
+  public destroy(): void {
+    this.scene.events.off(Phaser.Scenes.Events.POST_UPDATE, this.render, this);
+    this.scene.events.off(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+    this.scene.tweens.killTweensOf(this.graphics);
+    this.graphics.destroy();
+  }
+}
@@ -1,25 +1,39 @@
 import Phaser from 'phaser';
 import { Grid, Bounds } from './Grid';
-
-export type ExitSide = 'top' | 'bottom' | 'left' | 'right';
+import { Block } from './Block';
+import { ExitCondition, isRainbow } from '../data/levels';
+import { ExitSide } from '../model/types';
 
 export interface ExitZoneConfig {
   scene: Phaser.Scene;
   grid: Grid;
+  index: number; // Position in the level's exit list (and BoardState.exits)
   color: string;
   side: ExitSide;
   startCell: number;
   endCell: number;
+  capacity?: number;
+  ordered?: boolean; // Blocks must leave through it in a set order
+  opensWhen?: ExitCondition;
 }
 
 export class ExitZone {
   private scene: Phaser.Scene;
   private grid: Grid;
+  public index: number;
   public color: string;
   public side: ExitSide;
   public startCell: number;
   public endCell: number;
+  public capacity?: number;
+  public ordered: boolean;
+  public opensWhen?: ExitCondition;
+  public isOpen: boolean = true;
+  public capacityLeft: number | null;
   private graphics: Phaser.GameObjects.Graphics;
+  private capacityText: Phaser.GameObjects.Text | null = null;
+  private rainbowPhase: number = 0; // Hue offset (0-1) that scrolls along a rainbow exit
+  private rainbowTimer: Phaser.Time.TimerEvent | null = null;
 
   // Color string to hex mapping
   private static colorMap: { [key: string]: number } = {
@@ -36,12 +50,47 @@ export class ExitZone {
   constructor(config: ExitZoneConfig) {
     this.scene = config.scene;
     this.grid = config.grid;
+    this.index = config.index;
     this.color = config.color;
     this.side = config.side;
     this.startCell = config.startCell;
     this.endCell = config.endCell;
+    this.capacity = config.capacity;
+    this.ordered = config.ordered ?? false;
+    this.opensWhen = config.opensWhen;
+    this.capacityLeft = config.capacity ?? null;
+    this.isOpen = this.capacityLeft !== 0 && !this.opensWhen;
 
     this.graphics = this.scene.add.graphics();
+    if (this.capacity !== undefined) {
+      this.capacityText = this.scene.add.text(0, 0, '', {
+        fontSize: `${Math.max(12, Math.floor(this.grid.wallThickness * 0.7))}px`,
+        color: '#ffffff',
+        fontFamily: 'Arial, sans-serif',
+        fontStyle: 'bold'
+      }).setOrigin(0.5);
+    }
+    this.render();
+
+    if (isRainbow(this.color)) {
+      this.rainbowTimer = this.scene.time.addEvent({
+        delay: 80,
+        loop: true,
+        callback: () => {
+          this.rainbowPhase = (this.rainbowPhase + 0.015) % 1;
+          this.render();
+        }
+      });
+    }
+  }
+
+  /**
+   * Show whether the exit is open and how many blocks it still takes
+   */
+  public setStatus(open: boolean, capacityLeft: number | null): void {
+    if (open === this.isOpen && capacityLeft === this.capacityLeft) return;
+    this.isOpen = open;
+    this.capacityLeft = capacityLeft;
     this.render();
   }
 
@@ -53,42 +102,45 @@ export class ExitZone {
   }
 
   /**
-   * Get the world bounds of this exit zone
+   * Get the world bounds of this exit zone: in the wall just outside the
+   * outermost playable cells along its span (the grid's edge unless the board
+   * is masked into an irregular shape)
    */
   public getWorldBounds(): Bounds {
     const playable = this.grid.getPlayableBounds();
-    const worldBounds = this.grid.getWorldBounds();
     const cellSize = this.grid.cellSize;
+    const wall = this.grid.wallThickness;
+    const edge = this.grid.board.getEdgeLine(this.side, this.startCell, this.endCell);
 
     switch (this.side) {
       case 'top':
         return {
           left: playable.left + this.startCell * cellSize,
           right: playable.left + (this.endCell + 1) * cellSize,
-          top: worldBounds.top,
-          bottom: playable.top
+          top: playable.top + edge * cellSize - wall,
+          bottom: playable.top + edge * cellSize
         };
 
       case 'bottom':
         return {
           left: playable.left + this.startCell * cellSize,
           right: playable.left + (this.endCell + 1) * cellSize,
-          top: playable.bottom,
-          bottom: worldBounds.bottom
+          top: playable.top + (edge + 1) * cellSize,
+          bottom: playable.top + (edge + 1) * cellSize + wall
         };
 
       case 'left':
         return {
-          left: worldBounds.left,
-          right: playable.left,
+          left: playable.left + edge * cellSize - wall,
+          right: playable.left + edge * cellSize,
           top: playable.top + this.startCell * cellSize,
           bottom: playable.top + (this.endCell + 1) * cellSize
         };
 
       case 'right':
         return {
-          left: playable.right,
-          right: worldBounds.right,
+          left: playable.left + (edge + 1) * cellSize,
+          right: playable.left + (edge + 1) * cellSize + wall,
           top: playable.top + this.startCell * cellSize,
           bottom: playable.top + (this.endCell + 1) * cellSize
         };
@@ -139,7 +191,8 @@ export class ExitZone {
   }
 
   /**
-   * Render the exit zone
+   * Render the exit zone: faded behind bars while closed, with its remaining
+   * capacity, order chevrons and the color it waits on when it has those rules
    */
   public render(): void {
     this.graphics.clear();
@@ -149,14 +202,18 @@ export class ExitZone {
     const cornerRadius = this.grid.wallThickness / 4;
 
     // Draw the colored exit zone
-    this.graphics.fillStyle(colorValue, 0.9);
-    this.graphics.fillRoundedRect(
-      bounds.left,
-      bounds.top,
-      bounds.right - bounds.left,
-      bounds.bottom - bounds.top,
-      cornerRadius
-    );
+    if (isRainbow(this.color)) {
+      this.renderRainbow(bounds);
+    } else {
+      this.graphics.fillStyle(colorValue, this.isOpen ? 0.9 : 0.35);
+      this.graphics.fillRoundedRect(
+        bounds.left,
+        bounds.top,
+        bounds.right - bounds.left,
+        bounds.bottom - bounds.top,
+        cornerRadius
+      );
+    }
 
     // Add a lighter highlight for depth
     this.graphics.fillStyle(0xffffff, 0.2);
@@ -167,12 +224,103 @@ export class ExitZone {
       (bounds.bottom - bounds.top) / 3,
       cornerRadius
     );
+
+    const centerX = (bounds.left + bounds.right) / 2;
+    const centerY = (bounds.top + bounds.bottom) / 2;
+    if (!this.isOpen) {
+      this.renderBars(bounds);
+      if (this.opensWhen) {
+        // The color that must be cleared before this exit opens
+        const waitColor = ExitZone.colorMap[this.opensWhen.color.toLowerCase()] || 0xffffff;
+        this.graphics.fillStyle(0x2c3e50, 1);
+        this.graphics.fillCircle(centerX, centerY, this.grid.wallThickness * 0.32);
+        this.graphics.fillStyle(waitColor, 1);
+        this.graphics.fillCircle(centerX, centerY, this.grid.wallThickness * 0.22);
+      }
+    } else if (this.ordered) {
+      this.renderOrderChevrons(bounds);
+    }
+
+    if (this.capacityText) {
+      const showCount = this.capacityLeft !== null && !(this.opensWhen && !this.isOpen);
+      this.capacityText
+        .setText(this.capacityLeft !== null ? `${this.capacityLeft}` : '')
+        .setPosition(centerX, centerY)
+        .setVisible(showCount)
+        .setAlpha(this.isOpen ? 1 : 0.7);
+    }
+  }
+
+  /**
+   * Fill a rainbow exit with bands of hue that scroll along its length
+   */
+  private renderRainbow(bounds: Bounds): void {
+    const isHorizontal = this.side === 'top' || this.side === 'bottom';
+    const length = isHorizontal ? bounds.right - bounds.left : bounds.bottom - bounds.top;
+    const bandCount = (this.endCell - this.startCell + 1) * 6;
+    const bandLength = length / bandCount;
+    const alpha = this.isOpen ? 0.9 : 0.35;
+
+    for (let i = 0; i < bandCount; i++) {
+      const color = Block.getRainbowColor(this.rainbowPhase + i / (bandCount + 6));
+      this.graphics.fillStyle(color, alpha);
+      if (isHorizontal) {
+        this.graphics.fillRect(bounds.left + i * bandLength, bounds.top, bandLength + 0.5, bounds.bottom - bounds.top);
+      } else {
+        this.graphics.fillRect(bounds.left, bounds.top + i * bandLength, bounds.right - bounds.left, bandLength + 0.5);
+      }
+    }
+  }
+
+  /**
+   * Bars across a closed exit, running from the board out through the wall
+   */
+  private renderBars(bounds: Bounds): void {
+    const isHorizontal = this.side === 'top' || this.side === 'bottom';
+    const length = isHorizontal ? bounds.right - bounds.left : bounds.bottom - bounds.top;
+    const barCount = Math.max(2, Math.round(length / (this.grid.cellSize / 3)));
+    const step = length / barCount;
+
+    this.graphics.lineStyle(Math.max(2, this.grid.wallThickness / 6), 0x2c3e50, 0.9);
+    for (let i = 0; i < barCount; i++) {
+      const offset = step * (i + 0.5);
+      if (isHorizontal) {
+        this.graphics.lineBetween(bounds.left + offset, bounds.top + 2, bounds.left + offset, bounds.bottom - 2);
+      } else {
+        this.graphics.lineBetween(bounds.left + 2, bounds.top + offset, bounds.right - 2, bounds.top + offset);
+      }
+    }
+  }
+
+  /**
+   * Small chevrons pointing out of the board, one per cell, on an ordered exit
+   */
+  private renderOrderChevrons(bounds: Bounds): void {
+    const size = this.grid.wallThickness * 0.22;
+    const cellSize = this.grid.cellSize;
+    const outward = { top: [0, -1], bottom: [0, 1], left: [-1, 0], right: [1, 0] }[this.side];
+
+    this.graphics.lineStyle(Math.max(2, size / 2), 0xffffff, 0.8);
+    for (let cell = 0; cell <= this.endCell - this.startCell; cell++) {
+      const isHorizontal = this.side === 'top' || this.side === 'bottom';
+      const x = isHorizontal ? bounds.left + (cell + 0.25) * cellSize : (bounds.left + bounds.right) / 2;
+      const y = isHorizontal ? (bounds.top + bounds.bottom) / 2 : bounds.top + (cell + 0.25) * cellSize;
+      const [dx, dy] = outward;
+      // Tip of the chevron points outward; arms spread sideways
+      this.graphics.beginPath();
+      this.graphics.moveTo(x - dx * size + dy * size, y - dy * size + dx * size);
+      this.graphics.lineTo(x + dx * size, y + dy * size);
+      this.graphics.lineTo(x - dx * size - dy * size, y - dy * size - dx * size);
+      this.graphics.strokePath();
+    }
   }
 
   /**
    * Destroy the exit zone
    */
   public destroy(): void {
+    this.rainbowTimer?.remove();
     this.graphics.destroy();
+    this.capacityText?.destroy();
   }
 }
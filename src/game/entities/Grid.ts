@@ -1,4 +1,22 @@
 import Phaser from 'phaser';
+import { BoardState } from '../model/BoardState';
+import { GridPosition } from '../model/types';
+import { ShapeType } from '../data/shapes';
+import {
+  BlockAxis,
+  ExitData,
+  LockData,
+  KeyData,
+  PaintData,
+  WallData,
+  PortalData,
+  PatrolData,
+  PlateData,
+  ObstacleData,
+  getObstacleCells,
+  getPatrolRoute,
+  normalizeWall
+} from '../data/levels';
 
 export interface GridConfig {
   scene: Phaser.Scene;
@@ -8,11 +26,17 @@ export interface GridConfig {
   y: number;
   maxWidth: number;
   maxHeight: number;
-}
-
-export interface GridPosition {
-  row: number;
-  col: number;
+  obstacles?: ObstacleData[];
+  exits?: ExitData[];
+  locks?: LockData[];
+  keys?: KeyData[];
+  paints?: PaintData[];
+  scissors?: GridPosition[];
+  mask?: string[]; // Rows of 'X' (playable) and '.' (cut out) cells
+  walls?: WallData[];
+  portals?: PortalData[];
+  patrols?: PatrolData[];
+  plates?: PlateData[];
 }
 
 export interface WorldPosition {
@@ -27,7 +51,24 @@ export interface Bounds {
   bottom: number;
 }
 
+/**
+ * Anything that can occupy grid cells (blocks and block-like pieces)
+ */
+export interface GridOccupant {
+  id: string;
+  color: string;
+  shape: ShapeType;
+  gridPosition: GridPosition;
+  rotatable?: boolean;
+  axis?: BlockAxis;
+  frozen?: number;
+  link?: number | null;
+}
+
 export class Grid {
+  // Plate colors in level order; each plate's gates match it
+  private static readonly PLATE_COLORS = [0x27ae60, 0xc0392b, 0x2980b9, 0x8e44ad];
+
   private scene: Phaser.Scene;
   public rows: number;
   public cols: number;
@@ -36,11 +77,16 @@ export class Grid {
   public y: number;
   public wallThickness: number;
 
-  // Track which cells are occupied and by what
-  private cells: Array<Array<any>>;
+  // Headless board model is the source of truth for occupancy
+  public board: BoardState;
+
+  // Occupant entities by id, resolved from the ids stored in the board
+  private occupants: Map<string, GridOccupant> = new Map();
 
   // Graphics object for rendering
   private graphics: Phaser.GameObjects.Graphics;
+  private wallGraphics: Phaser.GameObjects.Graphics;
+  private plateGraphics: Phaser.GameObjects.Graphics;
 
   constructor(config: GridConfig) {
     this.scene = config.scene;
@@ -61,16 +107,28 @@ export class Grid {
     this.cellSize = this.calculateCellSize(config.maxWidth, config.maxHeight);
 
     // Initialize cell occupancy tracking
-    this.cells = [];
-    for (let row = 0; row < this.rows; row++) {
-      this.cells[row] = [];
-      for (let col = 0; col < this.cols; col++) {
-        this.cells[row][col] = null;
-      }
-    }
+    this.board = new BoardState({
+      rows: this.rows,
+      cols: this.cols,
+      obstacles: (config.obstacles || []).flatMap(getObstacleCells),
+      exits: (config.exits || []).map(exit => ({ ...exit })),
+      locks: (config.locks || []).map(lock => ({ ...lock })),
+      keys: (config.keys || []).map(key => ({ ...key })),
+      paints: (config.paints || []).map(paint => ({ ...paint })),
+      scissors: (config.scissors || []).map(pos => ({ ...pos })),
+      mask: config.mask ? [...config.mask] : [],
+      walls: (config.walls || []).map(wall => ({ ...wall })),
+      portals: (config.portals || []).map(portal => ({ ...portal, a: { ...portal.a }, b: { ...portal.b } })),
+      patrols: (config.patrols || []).map(patrol => ({ route: getPatrolRoute(patrol), step: 0 })),
+      plates: (config.plates || []).map(plate => ({ ...plate, gates: plate.gates.map(gate => ({ ...gate })) }))
+    });
 
     // Create graphics object for rendering
     this.graphics = this.scene.add.graphics();
+    // Thin walls go over exits (a wall on the edge closes part of one) but under blocks
+    this.wallGraphics = this.scene.add.graphics().setDepth(50);
+    // Plates and gates sit on the floor, redrawn as blocks come and go
+    this.plateGraphics = this.scene.add.graphics();
   }
 
   private calculateCellSize(maxWidth: number, maxHeight: number): number {
@@ -114,7 +172,14 @@ export class Grid {
    * Check if a grid position is within bounds
    */
   public isInBounds(row: number, col: number): boolean {
-    return row >= 0 && row < this.rows && col >= 0 && col < this.cols;
+    return this.board.isInBounds(row, col);
+  }
+
+  /**
+   * Check if a cell inside the grid's rectangle is cut out of the board
+   */
+  public isVoid(row: number, col: number): boolean {
+    return this.board.isVoid(row, col);
   }
 
   /**
@@ -124,48 +189,81 @@ export class Grid {
     if (!this.isInBounds(row, col)) {
       return true; // Out of bounds = occupied
     }
-    return this.cells[row][col] !== null;
+    return this.board.getOccupantId(row, col) !== null;
   }
 
   /**
    * Get what occupies a cell (null if empty)
    */
-  public getCellOccupant(row: number, col: number): any {
-    if (!this.isInBounds(row, col)) {
+  public getCellOccupant(row: number, col: number): GridOccupant | null {
+    const id = this.board.getOccupantId(row, col);
+    if (id === null) {
       return null;
     }
-    return this.cells[row][col];
+    return this.occupants.get(id) || null;
   }
 
   /**
-   * Set a cell as occupied by an entity
+   * Place an entity on the board at its current grid position
    */
-  public setCellOccupied(row: number, col: number, occupant: any): void {
-    if (this.isInBounds(row, col)) {
-      this.cells[row][col] = occupant;
-    }
+  public placeEntity(entity: GridOccupant): void {
+    this.board = this.board.withBlock({
+      id: entity.id,
+      color: entity.color,
+      shape: entity.shape,
+      position: { ...entity.gridPosition },
+      rotatable: entity.rotatable,
+      axis: entity.axis,
+      frozen: entity.frozen,
+      link: entity.link ?? undefined
+    });
+    this.occupants.set(entity.id, entity);
+    this.renderPlates();
   }
 
   /**
-   * Clear a cell
+   * Clear all cells occupied by a specific entity
    */
-  public clearCell(row: number, col: number): void {
-    if (this.isInBounds(row, col)) {
-      this.cells[row][col] = null;
+  public clearEntity(entity: GridOccupant): void {
+    if (this.occupants.get(entity.id) !== entity) {
+      return;
     }
+    this.board = this.board.withoutBlock(entity.id);
+    this.occupants.delete(entity.id);
+    this.renderPlates();
   }
 
   /**
-   * Clear all cells occupied by a specific entity
+   * Set the cells under the blocks being dragged (lifted off the board), so
+   * the plates they cover stay pressed and the gates they stand in stay open
    */
-  public clearEntity(entity: any): void {
-    for (let row = 0; row < this.rows; row++) {
-      for (let col = 0; col < this.cols; col++) {
-        if (this.cells[row][col] === entity) {
-          this.cells[row][col] = null;
-        }
-      }
+  public setStanding(cells: readonly GridPosition[]): void {
+    if (cells.length === 0 && this.board.standing.length === 0) {
+      return;
     }
+    this.board = this.board.withStanding(cells);
+    this.renderPlates();
+  }
+
+  /**
+   * Replace the locks that are still closed (e.g. reopening one on undo)
+   */
+  public setLocks(locks: readonly LockData[]): void {
+    this.board = this.board.withLocks(locks);
+  }
+
+  /**
+   * Move each patrol to a step of its route (e.g. back a step on undo)
+   */
+  public setPatrolSteps(steps: readonly number[]): void {
+    this.board = this.board.withPatrolSteps(steps);
+  }
+
+  /**
+   * Replace the count of blocks that have left through each exit
+   */
+  public setExitUses(exitUses: readonly number[]): void {
+    this.board = this.board.withExitUses(exitUses);
   }
 
   /**
@@ -197,6 +295,13 @@ export class Grid {
    */
   public render(): void {
     this.graphics.clear();
+    this.renderWalls();
+    this.renderPlates();
+
+    if (this.board.mask.length > 0) {
+      this.renderMasked();
+      return;
+    }
 
     const bounds = this.getWorldBounds();
     const playable = this.getPlayableBounds();
@@ -236,10 +341,110 @@ export class Grid {
     }
   }
 
+  /**
+   * Render an irregular board: walls follow the outline of the playable
+   * cells, including around holes, and cut-out cells are left open
+   */
+  private renderMasked(): void {
+    const size = this.cellSize;
+    const wall = this.wallThickness;
+    const cells: GridPosition[] = [];
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        if (this.isInBounds(row, col)) cells.push({ row, col });
+      }
+    }
+
+    // Perimeter wall: every playable cell grown by the wall thickness
+    this.graphics.fillStyle(0x2c3e50, 1);
+    cells.forEach(({ row, col }) => {
+      const pos = this.gridToWorld(row, col);
+      this.graphics.fillRoundedRect(pos.x - wall, pos.y - wall, size + wall * 2, size + wall * 2, wall / 2);
+    });
+
+    // Playable cells (lighter background) with their grid lines
+    this.graphics.fillStyle(0x34495e, 0.3);
+    cells.forEach(({ row, col }) => {
+      const pos = this.gridToWorld(row, col);
+      this.graphics.fillRect(pos.x, pos.y, size, size);
+    });
+
+    this.graphics.lineStyle(1, 0x7f8c8d, 0.3);
+    cells.forEach(({ row, col }) => {
+      const pos = this.gridToWorld(row, col);
+      this.graphics.lineBetween(pos.x, pos.y, pos.x + size, pos.y);
+      this.graphics.lineBetween(pos.x, pos.y, pos.x, pos.y + size);
+      if (!this.isInBounds(row + 1, col)) {
+        this.graphics.lineBetween(pos.x, pos.y + size, pos.x + size, pos.y + size);
+      }
+      if (!this.isInBounds(row, col + 1)) {
+        this.graphics.lineBetween(pos.x + size, pos.y, pos.x + size, pos.y + size);
+      }
+    });
+  }
+
+  /**
+   * Draw each thin wall as a bar along its cell edge
+   */
+  private renderWalls(): void {
+    this.wallGraphics.clear();
+    const size = this.cellSize;
+    const thickness = Math.max(4, Math.floor(this.wallThickness / 2));
+
+    this.wallGraphics.fillStyle(0x2c3e50, 1);
+    this.board.walls.forEach(wall => {
+      const { row, col, side } = normalizeWall(wall);
+      const pos = this.gridToWorld(row, col);
+      if (side === 'top') {
+        this.wallGraphics.fillRoundedRect(pos.x - thickness / 2, pos.y - thickness / 2, size + thickness, thickness, thickness / 2);
+      } else {
+        this.wallGraphics.fillRoundedRect(pos.x - thickness / 2, pos.y - thickness / 2, thickness, size + thickness, thickness / 2);
+      }
+    });
+  }
+
+  /**
+   * Draw each plate as a button on the floor (sunk while pressed) and its
+   * gates in the same color: barred while shut, a faint frame while open
+   */
+  private renderPlates(): void {
+    this.plateGraphics.clear();
+    const size = this.cellSize;
+
+    this.board.plates.forEach((plate, index) => {
+      const color = Grid.PLATE_COLORS[index % Grid.PLATE_COLORS.length];
+      const pressed = this.board.isPlatePressed(index);
+      const pos = this.gridToWorld(plate.row, plate.col);
+      const inset = size * (pressed ? 0.22 : 0.16);
+
+      this.plateGraphics.fillStyle(color, 0.25);
+      this.plateGraphics.fillRoundedRect(pos.x + 3, pos.y + 3, size - 6, size - 6, size * 0.1);
+      this.plateGraphics.fillStyle(color, pressed ? 0.5 : 0.9);
+      this.plateGraphics.fillRoundedRect(pos.x + inset, pos.y + inset, size - inset * 2, size - inset * 2, size * 0.08);
+
+      plate.gates.forEach(gate => {
+        const gatePos = this.gridToWorld(gate.row, gate.col);
+        if (!this.board.isGateClosed(gate.row, gate.col)) {
+          this.plateGraphics.lineStyle(Math.max(2, size * 0.04), color, 0.4);
+          this.plateGraphics.strokeRoundedRect(gatePos.x + 3, gatePos.y + 3, size - 6, size - 6, size * 0.1);
+          return;
+        }
+        this.plateGraphics.fillStyle(0x2c3e50, 1);
+        this.plateGraphics.fillRoundedRect(gatePos.x + 2, gatePos.y + 2, size - 4, size - 4, size * 0.1);
+        this.plateGraphics.fillStyle(color, 1);
+        [0.25, 0.5, 0.75].forEach(at => {
+          this.plateGraphics.fillRect(gatePos.x + size * at - size * 0.04, gatePos.y + size * 0.12, size * 0.08, size * 0.76);
+        });
+      });
+    });
+  }
+
   /**
    * Destroy the grid
    */
   public destroy(): void {
     this.graphics.destroy();
+    this.wallGraphics.destroy();
+    this.plateGraphics.destroy();
   }
 }
@@ -0,0 +1,141 @@
+import Phaser from 'phaser';
+import { Grid } from './Grid';
+import { GridPosition } from '../model/types';
+import { Block } from './Block';
+
+export type LockTileKind = 'lock' | 'key';
+
+export interface LockTileConfig {
+  scene: Phaser.Scene;
+  grid: Grid;
+  kind: LockTileKind;
+  color: string;
+  position: GridPosition;
+}
+
+/**
+ * A locked cell (drawn as a padlock on an obstacle tile) or the key cell
+ * that opens locks of its color; both fade away once their color is unlocked
+ */
+export class LockTile {
+  private scene: Phaser.Scene;
+  private grid: Grid;
+  public kind: LockTileKind;
+  public color: string;
+  public position: GridPosition;
+  public isOpen: boolean = false;
+  private graphics: Phaser.GameObjects.Graphics;
+
+  constructor(config: LockTileConfig) {
+    this.scene = config.scene;
+    this.grid = config.grid;
+    this.kind = config.kind;
+    this.color = config.color;
+    this.position = { ...config.position };
+
+    // Drawn around the cell center so the open animation scales in place
+    const worldPos = this.grid.gridToWorld(this.position.row, this.position.col);
+    this.graphics = this.scene.add.graphics({
+      x: worldPos.x + this.grid.cellSize / 2,
+      y: worldPos.y + this.grid.cellSize / 2
+    });
+    this.render();
+  }
+
+  private getColorValue(): number {
+    return Block.getDisplayColor(this.color);
+  }
+
+  /**
+   * Draw the tile centered on (0, 0)
+   */
+  private render(): void {
+    this.graphics.clear();
+    if (this.kind === 'lock') {
+      this.drawLock();
+    } else {
+      this.drawKey();
+    }
+  }
+
+  private drawLock(): void {
+    const size = this.grid.cellSize;
+    const color = this.getColorValue();
+    const half = size / 2 - 2;
+
+    // Obstacle tile with a colored rim
+    this.graphics.fillStyle(0x2c3e50, 1);
+    this.graphics.fillRoundedRect(-half, -half, half * 2, half * 2, size * 0.1);
+    this.graphics.lineStyle(Math.max(2, size * 0.05), color, 1);
+    this.graphics.strokeRoundedRect(-half + 2, -half + 2, half * 2 - 4, half * 2 - 4, size * 0.08);
+
+    // Padlock: shackle over a body with a keyhole
+    const bodyWidth = size * 0.4;
+    const bodyHeight = size * 0.3;
+    this.graphics.lineStyle(Math.max(2, size * 0.07), color, 1);
+    this.graphics.beginPath();
+    this.graphics.arc(0, -size * 0.04, size * 0.13, Math.PI, 0, false);
+    this.graphics.strokePath();
+    this.graphics.fillStyle(color, 1);
+    this.graphics.fillRoundedRect(-bodyWidth / 2, -size * 0.04, bodyWidth, bodyHeight, size * 0.05);
+    this.graphics.fillStyle(0x2c3e50, 1);
+    this.graphics.fillCircle(0, size * 0.08, size * 0.045);
+    this.graphics.fillRect(-size * 0.015, size * 0.08, size * 0.03, size * 0.09);
+  }
+
+  private drawKey(): void {
+    const size = this.grid.cellSize;
+    const color = this.getColorValue();
+    const thickness = Math.max(2, size * 0.07);
+
+    // Faint floor marking so the key reads as a cell, not a piece
+    this.graphics.fillStyle(color, 0.18);
+    this.graphics.fillRoundedRect(-size / 2 + 3, -size / 2 + 3, size - 6, size - 6, size * 0.1);
+
+    // Key: ring bow, shaft and two teeth
+    this.graphics.lineStyle(thickness, color, 0.95);
+    this.graphics.strokeCircle(-size * 0.17, 0, size * 0.12);
+    this.graphics.lineBetween(-size * 0.05, 0, size * 0.3, 0);
+    this.graphics.lineBetween(size * 0.2, 0, size * 0.2, size * 0.12);
+    this.graphics.lineBetween(size * 0.29, 0, size * 0.29, size * 0.1);
+  }
+
+  /**
+   * Open (fade away) or close (reappear, e.g. on undo) the tile
+   */
+  public setOpen(open: boolean, animate: boolean = true): void {
+    if (open === this.isOpen) return;
+    this.isOpen = open;
+
+    this.scene.tweens.killTweensOf(this.graphics);
+    if (!animate) {
+      this.graphics.setAlpha(open ? 0 : 1).setScale(1);
+      return;
+    }
+
+    if (open) {
+      this.scene.tweens.add({
+        targets: this.graphics,
+        alpha: 0,
+        scale: this.kind === 'lock' ? 1.4 : 0.4,
+        duration: 350,
+        ease: 'Quad.easeIn',
+        onComplete: () => this.graphics.setScale(1)
+      });
+    } else {
+      this.graphics.setAlpha(0).setScale(0.6);
+      this.scene.tweens.add({
+        targets: this.graphics,
+        alpha: 1,
+        scale: 1,
+        duration: 250,
+        ease: 'Back.easeOut'
+      });
+    }
+  }
+
+  public destroy(): void {
+    this.scene.tweens.killTweensOf(this.graphics);
+    this.graphics.destroy();
+  }
+}
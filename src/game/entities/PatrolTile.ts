@@ -0,0 +1,109 @@
+import Phaser from 'phaser';
+import { Grid } from './Grid';
+import { GridPosition } from '../model/types';
+
+export interface PatrolTileConfig {
+  scene: Phaser.Scene;
+  grid: Grid;
+  index: number;
+  route: readonly GridPosition[];
+}
+
+/**
+ * A patrolling obstacle (drawn as an obstacle tile with an amber rim) over a
+ * dotted trail of the cells it walks; it slides to its next cell after a move
+ */
+export class PatrolTile {
+  private static readonly COLOR = 0xf39c12;
+
+  private scene: Phaser.Scene;
+  private grid: Grid;
+  public index: number;
+  public route: readonly GridPosition[];
+  public step: number = 0;
+  private trailGraphics: Phaser.GameObjects.Graphics;
+  private graphics: Phaser.GameObjects.Graphics;
+
+  constructor(config: PatrolTileConfig) {
+    this.scene = config.scene;
+    this.grid = config.grid;
+    this.index = config.index;
+    this.route = config.route.map(cell => ({ ...cell }));
+
+    this.trailGraphics = this.scene.add.graphics();
+    this.drawTrail();
+
+    // Drawn around the cell center so it can slide from cell to cell
+    const center = this.getCenter(this.route[0] ?? { row: 0, col: 0 });
+    this.graphics = this.scene.add.graphics(center);
+    this.drawTile();
+  }
+
+  private getCenter(cell: GridPosition): { x: number; y: number } {
+    const worldPos = this.grid.gridToWorld(cell.row, cell.col);
+    return { x: worldPos.x + this.grid.cellSize / 2, y: worldPos.y + this.grid.cellSize / 2 };
+  }
+
+  /**
+   * Faint line through the route's cells with a dot on each
+   */
+  private drawTrail(): void {
+    const size = this.grid.cellSize;
+    const centers = this.route.map(cell => this.getCenter(cell));
+
+    this.trailGraphics.lineStyle(Math.max(2, size * 0.05), PatrolTile.COLOR, 0.25);
+    centers.forEach((center, index) => {
+      const next = centers[(index + 1) % centers.length];
+      this.trailGraphics.lineBetween(center.x, center.y, next.x, next.y);
+    });
+    this.trailGraphics.fillStyle(PatrolTile.COLOR, 0.45);
+    centers.forEach(center => this.trailGraphics.fillCircle(center.x, center.y, size * 0.07));
+  }
+
+  /**
+   * Draw the tile centered on (0, 0)
+   */
+  private drawTile(): void {
+    const size = this.grid.cellSize;
+    const half = size / 2 - 2;
+
+    this.graphics.fillStyle(0x2c3e50, 1);
+    this.graphics.fillRoundedRect(-half, -half, half * 2, half * 2, size * 0.1);
+    this.graphics.lineStyle(Math.max(2, size * 0.06), PatrolTile.COLOR, 1);
+    this.graphics.strokeRoundedRect(-half + 3, -half + 3, half * 2 - 6, half * 2 - 6, size * 0.08);
+
+    // Two eyes, so it reads as something that walks
+    this.graphics.fillStyle(PatrolTile.COLOR, 1);
+    this.graphics.fillCircle(-size * 0.12, -size * 0.02, size * 0.07);
+    this.graphics.fillCircle(size * 0.12, -size * 0.02, size * 0.07);
+  }
+
+  /**
+   * Stand on another step of the route, sliding there unless `animate` is false
+   */
+  public setStep(step: number, animate: boolean = true): void {
+    const cell = this.route[step];
+    if (!cell || step === this.step) return;
+    this.step = step;
+
+    const center = this.getCenter(cell);
+    this.scene.tweens.killTweensOf(this.graphics);
+    if (!animate) {
+      this.graphics.setPosition(center.x, center.y);
+      return;
+    }
+    this.scene.tweens.add({
+      targets: this.graphics,
+      x: center.x,
+      y: center.y,
+      duration: 200,
+      ease: 'Quad.easeInOut'
+    });
+  }
+
+  public destroy(): void {
+    this.scene.tweens.killTweensOf(this.graphics);
+    this.trailGraphics.destroy();
+    this.graphics.destroy();
+  }
+}
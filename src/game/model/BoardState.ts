@@ -0,0 +1,1461 @@
+import { ShapeType, CellOffset, getShapeOffsets, getShapeDimensions, rotateShape } from '../data/shapes';
+import {
+  LevelData,
+  ExitData,
+  BlockAxis,
+  LockData,
+  KeyData,
+  PaintData,
+  WallData,
+  PortalData,
+  PlateData,
+  CRATE,
+  colorsMatch,
+  isCrate,
+  getBlockLink,
+  getObstacleCells,
+  getPortalCells,
+  getPatrolRoute,
+  normalizeWall
+} from '../data/levels';
+import { GridPosition, ExitSide } from './types';
+
+/**
+ * Headless, Phaser-free model of a puzzle board
+ *
+ * A BoardState is immutable: every mutation returns a new instance, so states
+ * can be shared freely between the scene, solvers, workers and tools.
+ */
+
+export interface BoardBlock {
+  id: string;
+  color: string;
+  shape: ShapeType;
+  position: GridPosition; // Origin that the shape offsets are applied to
+  rotatable?: boolean; // Can be turned in place (a quarter turn clockwise per move)
+  axis?: BlockAxis; // Directions it may slide in, relative to the board; defaults to 'free'
+  frozen?: number; // Moves left until it thaws; frozen blocks cannot move
+  link?: number; // Link group it is chained into; linked blocks move (and leave) as one
+}
+
+export interface BoardMove {
+  blockId: string;
+  to: GridPosition; // Cell the block is dropped at
+  exitIndex: number | null; // Exit the block leaves through, if any
+  shape?: ShapeType; // Shape after the move when it rotates the block in place
+  color?: string; // Color after the move when paint recolored the block on the way
+  unlocked?: string[]; // Colors of the locks opened by keys the block passed over on the way
+  teleport?: GridPosition; // Where the block reappears when dropped on a portal
+  linked?: BoardMove[]; // Moves of the blocks chained to this one, shifted by the same offset
+}
+
+/**
+ * An obstacle walking its route (see getPatrolRoute), standing on route[step]
+ */
+export interface BoardPatrol {
+  route: readonly GridPosition[];
+  step: number;
+}
+
+/**
+ * Somewhere a block can be dragged to, with the color it arrives in and the
+ * colors of the locks opened by keys it passed over on the way (sorted)
+ */
+export interface BoardReach {
+  position: GridPosition;
+  color: string;
+  unlocked: string[];
+}
+
+/**
+ * How far a linked group can be dragged, with the color each member arrives
+ * in (in getLinkedIds order) and the colors of the locks opened by keys any
+ * member passed over on the way (sorted)
+ */
+export interface BoardGroupReach {
+  offset: CellOffset;
+  colors: string[];
+  unlocked: string[];
+}
+
+export interface BoardStateConfig {
+  rows: number;
+  cols: number;
+  obstacles?: readonly GridPosition[];
+  exits?: readonly ExitData[];
+  blocks?: readonly BoardBlock[];
+  locks?: readonly LockData[]; // Still closed; they block like obstacles
+  keys?: readonly KeyData[];
+  paints?: readonly PaintData[];
+  exitUses?: readonly number[]; // Blocks that have left through each exit, by exit index
+  scissors?: readonly GridPosition[];
+  mask?: readonly string[]; // Rows of 'X' (playable) and '.' (cut out) cells; the full rectangle when empty
+  walls?: readonly WallData[];
+  portals?: readonly PortalData[];
+  patrols?: readonly BoardPatrol[]; // They block like obstacles wherever they stand
+  plates?: readonly PlateData[]; // Their gates block like obstacles while shut
+  standing?: readonly GridPosition[]; // Cells under blocks lifted off the board (mid-drag); they press plates and hold gates open
+}
+
+export class BoardState {
+  public readonly rows: number;
+  public readonly cols: number;
+  public readonly obstacles: readonly GridPosition[];
+  public readonly exits: readonly ExitData[];
+  public readonly blocks: readonly BoardBlock[];
+  public readonly locks: readonly LockData[];
+  public readonly keys: readonly KeyData[];
+  public readonly paints: readonly PaintData[];
+  public readonly exitUses: readonly number[];
+  public readonly scissors: readonly GridPosition[];
+  public readonly mask: readonly string[];
+  public readonly walls: readonly WallData[];
+  public readonly portals: readonly PortalData[];
+  public readonly patrols: readonly BoardPatrol[];
+  public readonly plates: readonly PlateData[];
+  public readonly standing: readonly GridPosition[];
+
+  private static readonly AXIS_DIRECTIONS: Record<BlockAxis, readonly CellOffset[]> = {
+    free: [
+      { row: -1, col: 0 }, { row: 1, col: 0 },
+      { row: 0, col: -1 }, { row: 0, col: 1 }
+    ],
+    horizontal: [{ row: 0, col: -1 }, { row: 0, col: 1 }],
+    vertical: [{ row: -1, col: 0 }, { row: 1, col: 0 }]
+  };
+
+  // Flattened (row * cols + col) lookups, built on first query so that
+  // intermediate states created during search stay cheap
+  private occupancyCache: Array<string | null> | null = null;
+  private obstacleCache: Set<number> | null = null;
+  private gateCache: Set<number> | null = null;
+  private voidCache: Set<number> | null = null;
+  private wallCache: Set<number> | null = null;
+  private exitEdgeCache: number[] | null = null;
+  private keyCache: string | null = null;
+
+  constructor(config: BoardStateConfig) {
+    this.rows = config.rows;
+    this.cols = config.cols;
+    // Entries are shared between derived states rather than copied; the
+    // readonly types keep callers from mutating them
+    this.obstacles = config.obstacles || [];
+    this.exits = config.exits || [];
+    this.blocks = config.blocks || [];
+    this.locks = config.locks || [];
+    this.keys = config.keys || [];
+    this.paints = config.paints || [];
+    this.exitUses = config.exitUses || [];
+    this.scissors = config.scissors || [];
+    this.mask = config.mask || [];
+    this.walls = config.walls || [];
+    this.portals = config.portals || [];
+    this.patrols = config.patrols || [];
+    this.plates = config.plates || [];
+    this.standing = config.standing || [];
+  }
+
+  /**
+   * Build the initial board for a level
+   * Block ids follow the `block-<index>` convention used by GameScene, and
+   * crates come after the blocks as `crate-<index>`; shaped obstacles are
+   * split into their cells
+   */
+  public static fromLevel(level: LevelData): BoardState {
+    return new BoardState({
+      rows: level.gridSize.rows,
+      cols: level.gridSize.cols,
+      obstacles: level.obstacles.flatMap(getObstacleCells),
+      exits: level.exits.map(exit => ({ ...exit })),
+      blocks: [
+        ...level.blocks.map((blockData, index): BoardBlock => ({
+          id: `block-${index}`,
+          color: blockData.color,
+          shape: blockData.shape,
+          position: { ...blockData.startPosition },
+          rotatable: blockData.rotatable ?? false,
+          axis: blockData.axis ?? 'free',
+          frozen: blockData.frozen ?? 0,
+          link: getBlockLink(level, index) ?? undefined
+        })),
+        ...(level.crates ?? []).map((crate, index): BoardBlock => ({
+          id: `crate-${index}`,
+          color: CRATE,
+          shape: crate.shape,
+          position: { ...crate.startPosition }
+        }))
+      ],
+      locks: (level.locks ?? []).map(lock => ({ ...lock })),
+      keys: (level.keys ?? []).map(key => ({ ...key })),
+      paints: (level.paints ?? []).map(paint => ({ ...paint })),
+      scissors: (level.scissors ?? []).map(pos => ({ ...pos })),
+      mask: level.mask ? [...level.mask] : [],
+      walls: (level.walls ?? []).map(wall => ({ ...wall })),
+      portals: (level.portals ?? []).map(portal => ({ ...portal, a: { ...portal.a }, b: { ...portal.b } })),
+      patrols: (level.patrols ?? []).map(patrol => ({ route: getPatrolRoute(patrol), step: 0 })),
+      plates: (level.plates ?? []).map(plate => ({ ...plate, gates: plate.gates.map(gate => ({ ...gate })) }))
+    });
+  }
+
+  private cellIndex(row: number, col: number): number {
+    return row * this.cols + col;
+  }
+
+  private get obstacleCells(): Set<number> {
+    if (!this.obstacleCache) {
+      this.obstacleCache = new Set();
+      [...this.obstacles, ...this.locks, ...this.getPatrolPositions()].forEach(pos => {
+        if (this.isInBounds(pos.row, pos.col)) {
+          this.obstacleCache!.add(this.cellIndex(pos.row, pos.col));
+        }
+      });
+    }
+    return this.obstacleCache;
+  }
+
+  /**
+   * Gate cells that are shut: none of their plates is pressed and nothing
+   * stands in them (a block, or a cell in `standing`)
+   */
+  private get closedGates(): Set<number> {
+    if (!this.gateCache) {
+      const standing = new Set(this.standing.map(pos => this.cellIndex(pos.row, pos.col)));
+      const isHeld = (pos: GridPosition) => this.isInBounds(pos.row, pos.col) &&
+        (this.getOccupantId(pos.row, pos.col) !== null || standing.has(this.cellIndex(pos.row, pos.col)));
+
+      const open = new Set<number>();
+      const gates = new Set<number>();
+      this.plates.forEach(plate => {
+        const pressed = isHeld(plate);
+        plate.gates.filter(gate => this.isInBounds(gate.row, gate.col)).forEach(gate => {
+          const index = this.cellIndex(gate.row, gate.col);
+          gates.add(index);
+          if (pressed || isHeld(gate)) {
+            open.add(index);
+          }
+        });
+      });
+      this.gateCache = new Set([...gates].filter(index => !open.has(index)));
+    }
+    return this.gateCache;
+  }
+
+  private get voidCells(): Set<number> {
+    if (!this.voidCache) {
+      this.voidCache = new Set();
+      for (let row = 0; row < this.rows; row++) {
+        for (let col = 0; col < this.cols; col++) {
+          if (this.mask[row]?.[col] !== 'X') {
+            this.voidCache.add(this.cellIndex(row, col));
+          }
+        }
+      }
+    }
+    return this.voidCache;
+  }
+
+  /**
+   * Walls keyed by edge: the top (even) or left (odd) side of a cell, on a
+   * grid one wider and taller so the far edges have names too
+   */
+  private get wallEdges(): Set<number> {
+    if (!this.wallCache) {
+      this.wallCache = new Set(this.walls.map(wall => this.edgeIndex(wall)));
+    }
+    return this.wallCache;
+  }
+
+  private edgeIndex(wall: WallData): number {
+    const { row, col, side } = normalizeWall(wall);
+    return (row * (this.cols + 1) + col) * 2 + (side === 'left' ? 1 : 0);
+  }
+
+  private get occupancy(): Array<string | null> {
+    if (!this.occupancyCache) {
+      const occupancy: Array<string | null> = new Array(this.rows * this.cols).fill(null);
+      this.blocks.forEach(block => {
+        this.getBlockCells(block).forEach(cell => {
+          if (this.isInBounds(cell.row, cell.col)) {
+            occupancy[this.cellIndex(cell.row, cell.col)] = block.id;
+          }
+        });
+      });
+      this.occupancyCache = occupancy;
+    }
+    return this.occupancyCache;
+  }
+
+  private isInRectangle(row: number, col: number): boolean {
+    return row >= 0 && row < this.rows && col >= 0 && col < this.cols;
+  }
+
+  /**
+   * Check if a grid position is within bounds: inside the grid's rectangle
+   * and not cut out by the mask
+   */
+  public isInBounds(row: number, col: number): boolean {
+    return this.isInRectangle(row, col) &&
+      (this.mask.length === 0 || !this.voidCells.has(this.cellIndex(row, col)));
+  }
+
+  /**
+   * Check if a cell inside the grid's rectangle is cut out by the mask
+   */
+  public isVoid(row: number, col: number): boolean {
+    return this.isInRectangle(row, col) && !this.isInBounds(row, col);
+  }
+
+  /**
+   * Check if a thin wall runs along one side of a cell
+   */
+  public hasWall(row: number, col: number, side: ExitSide): boolean {
+    return this.walls.length > 0 && this.wallEdges.has(this.edgeIndex({ row, col, side }));
+  }
+
+  /**
+   * Check if a thin wall runs between two cells of a shape placed at a position
+   */
+  public isCutByWall(offsets: readonly CellOffset[], position: GridPosition): boolean {
+    if (this.walls.length === 0) {
+      return false;
+    }
+    const has = (row: number, col: number) => offsets.some(o => o.row === row && o.col === col);
+    return offsets.some(offset =>
+      (has(offset.row + 1, offset.col) && this.hasWall(position.row + offset.row, position.col + offset.col, 'bottom')) ||
+      (has(offset.row, offset.col + 1) && this.hasWall(position.row + offset.row, position.col + offset.col, 'right'))
+    );
+  }
+
+  /**
+   * Check if a shape at a position can step one cell in a direction without
+   * any of its cells crossing a thin wall
+   */
+  public canStep(offsets: readonly CellOffset[], position: GridPosition, direction: CellOffset): boolean {
+    if (this.walls.length === 0) {
+      return true;
+    }
+    const side: ExitSide = direction.row < 0 ? 'top' : direction.row > 0 ? 'bottom' : direction.col < 0 ? 'left' : 'right';
+    return offsets.every(offset => !this.hasWall(position.row + offset.row, position.col + offset.col, side));
+  }
+
+  /**
+   * Check if shapes can slide together by an offset one cell at a time, only
+   * ever toward it, through free placements and without crossing a thin wall
+   * (the cells of the `ignore` blocks count as free)
+   */
+  public canSlide(
+    pieces: readonly { offsets: CellOffset[]; position: GridPosition }[],
+    offset: CellOffset,
+    ignore?: string | readonly string[]
+  ): boolean {
+    const rowStep = Math.sign(offset.row);
+    const colStep = Math.sign(offset.col);
+    const directions = [{ row: rowStep, col: 0 }, { row: 0, col: colStep }].filter(dir => dir.row !== 0 || dir.col !== 0);
+
+    const seen = new Set<string>(['0,0']);
+    const queue: CellOffset[] = [{ row: 0, col: 0 }];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current.row === offset.row && current.col === offset.col) {
+        return true;
+      }
+      for (const dir of directions) {
+        const next = { row: current.row + dir.row, col: current.col + dir.col };
+        if (Math.abs(next.row) > Math.abs(offset.row) || Math.abs(next.col) > Math.abs(offset.col)) continue;
+        if (seen.has(`${next.row},${next.col}`)) continue;
+
+        const fits = pieces.every(piece => {
+          const from = { row: piece.position.row + current.row, col: piece.position.col + current.col };
+          const to = { row: from.row + dir.row, col: from.col + dir.col };
+          return this.canStep(piece.offsets, from, dir) && this.canPlace(piece.offsets, to, ignore);
+        });
+        if (fits) {
+          seen.add(`${next.row},${next.col}`);
+          queue.push(next);
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Check if a thin wall on the board's edge stands between any of a block's
+   * cells and the exit it would leave through
+   */
+  public isExitWalled(exitIndex: number, cells: readonly GridPosition[]): boolean {
+    const exit = this.exits[exitIndex];
+    if (!exit || this.walls.length === 0) {
+      return false;
+    }
+    const edge = this.getExitEdge(exitIndex);
+    const horizontal = exit.side === 'top' || exit.side === 'bottom';
+    return cells.some(cell => (horizontal ? cell.row : cell.col) === edge && this.hasWall(cell.row, cell.col, exit.side));
+  }
+
+  /**
+   * Row (top/bottom) or column (left/right) of the outermost playable cells
+   * along a stretch of one side of the board, which is where an exit on that
+   * stretch sits; the grid's own edge when the stretch has no playable cells
+   */
+  public getEdgeLine(side: ExitSide, startCell: number, endCell: number): number {
+    const horizontal = side === 'top' || side === 'bottom';
+    const depth = horizontal ? this.rows : this.cols;
+    const inward = side === 'top' || side === 'left';
+
+    let line: number | null = null;
+    for (let cell = startCell; cell <= endCell; cell++) {
+      for (let step = 0; step < depth; step++) {
+        const along = inward ? step : depth - 1 - step;
+        if (horizontal ? this.isInBounds(along, cell) : this.isInBounds(cell, along)) {
+          line = line === null ? along : inward ? Math.min(line, along) : Math.max(line, along);
+          break;
+        }
+      }
+    }
+    return line ?? (inward ? 0 : depth - 1);
+  }
+
+  private getExitEdge(exitIndex: number): number {
+    if (!this.exitEdgeCache) {
+      this.exitEdgeCache = this.exits.map(exit => this.getEdgeLine(exit.side, exit.startCell, exit.endCell));
+    }
+    return this.exitEdgeCache[exitIndex];
+  }
+
+  /**
+   * Cells the patrols stand on, in level order
+   */
+  public getPatrolPositions(): GridPosition[] {
+    return this.patrols.flatMap(patrol => (patrol.route.length > 0 ? [patrol.route[patrol.step]] : []));
+  }
+
+  /**
+   * Check if a grid cell contains an obstacle (closed locks, shut gates and patrols count)
+   */
+  public isObstacle(row: number, col: number): boolean {
+    if (!this.isInBounds(row, col)) {
+      return false;
+    }
+    const index = this.cellIndex(row, col);
+    return this.obstacleCells.has(index) || (this.plates.length > 0 && this.closedGates.has(index));
+  }
+
+  /**
+   * Check if a plate has a block on it (or a cell in `standing`)
+   */
+  public isPlatePressed(plateIndex: number): boolean {
+    const plate = this.plates[plateIndex];
+    if (!plate || !this.isInBounds(plate.row, plate.col)) {
+      return false;
+    }
+    return this.getOccupantId(plate.row, plate.col) !== null ||
+      this.standing.some(pos => pos.row === plate.row && pos.col === plate.col);
+  }
+
+  /**
+   * Check if a gate cell is shut: none of its plates is pressed and nothing stands in it
+   */
+  public isGateClosed(row: number, col: number): boolean {
+    return this.isInBounds(row, col) && this.plates.length > 0 && this.closedGates.has(this.cellIndex(row, col));
+  }
+
+  /**
+   * Get the id of the block occupying a cell (null if empty or out of bounds)
+   */
+  public getOccupantId(row: number, col: number): string | null {
+    if (!this.isInBounds(row, col)) {
+      return null;
+    }
+    return this.occupancy[this.cellIndex(row, col)];
+  }
+
+  /**
+   * Check if a cell can be entered: in bounds, not an obstacle and not
+   * occupied by any block other than `ignoreId`
+   */
+  public isCellFree(row: number, col: number, ignoreId?: string): boolean {
+    if (!this.isInBounds(row, col) || this.isObstacle(row, col)) {
+      return false;
+    }
+    const occupant = this.getOccupantId(row, col);
+    return occupant === null || occupant === ignoreId;
+  }
+
+  /**
+   * Get a block by id
+   */
+  public getBlock(id: string): BoardBlock | undefined {
+    return this.blocks.find(block => block.id === id);
+  }
+
+  /**
+   * Ids of the blocks that move with a block: every block chained to it, in
+   * board order (just the block itself when it is not linked)
+   */
+  public getLinkedIds(id: string): string[] {
+    const block = this.getBlock(id);
+    if (!block) {
+      return [];
+    }
+    if (block.link === undefined) {
+      return [id];
+    }
+    return this.blocks.filter(b => b.link === block.link).map(b => b.id);
+  }
+
+  /**
+   * Get all grid cells a block occupies (optionally at another position)
+   */
+  public getBlockCells(block: BoardBlock, position: GridPosition = block.position): GridPosition[] {
+    return getShapeOffsets(block.shape).map(offset => ({
+      row: position.row + offset.row,
+      col: position.col + offset.col
+    }));
+  }
+
+  /**
+   * Check if a set of shape offsets can be placed with its origin at a position
+   * (the cells of the block `ignore`, or of every listed block, count as free)
+   * without a thin wall running between two of its cells
+   */
+  public canPlace(offsets: CellOffset[], position: GridPosition, ignore?: string | readonly string[]): boolean {
+    // Hot path for the solver: inlined isCellFree over the cached lookups
+    const occupancy = this.occupancy;
+    const obstacleCells = this.obstacleCells;
+    const closedGates = this.plates.length > 0 ? this.closedGates : null;
+
+    for (const offset of offsets) {
+      const row = position.row + offset.row;
+      const col = position.col + offset.col;
+      if (!this.isInBounds(row, col)) {
+        return false;
+      }
+
+      const index = this.cellIndex(row, col);
+      if (obstacleCells.has(index) || closedGates?.has(index)) {
+        return false;
+      }
+
+      const occupant = occupancy[index];
+      if (occupant !== null && occupant !== ignore && !(typeof ignore === 'object' && ignore.includes(occupant))) {
+        return false;
+      }
+    }
+    return !this.isCutByWall(offsets, position);
+  }
+
+  /**
+   * Check if a block can be placed at a position (ignoring its own cells)
+   */
+  public canPlaceBlock(id: string, position: GridPosition): boolean {
+    const block = this.getBlock(id);
+    if (!block) {
+      return false;
+    }
+    return this.canPlace(getShapeOffsets(block.shape), position, id);
+  }
+
+  /**
+   * Get every position a block can be dragged to from where it stands,
+   * stepping one cell at a time through free placements along its axis
+   * (includes the start; a frozen block only has its start)
+   */
+  public getReachablePositions(id: string): GridPosition[] {
+    const block = this.getBlock(id);
+    if (!block) {
+      return [];
+    }
+    if (block.frozen) {
+      return [{ ...block.position }];
+    }
+
+    const offsets = getShapeOffsets(block.shape);
+    const seen = new Set<number>([this.cellIndex(block.position.row, block.position.col)]);
+    const reachable: GridPosition[] = [{ ...block.position }];
+
+    for (let i = 0; i < reachable.length; i++) {
+      const current = reachable[i];
+      const from = this.withShifted([id], { row: current.row - block.position.row, col: current.col - block.position.col });
+      for (const dir of BoardState.AXIS_DIRECTIONS[block.axis ?? 'free']) {
+        const next = { row: current.row + dir.row, col: current.col + dir.col };
+        // Shape offsets are non-negative, so a placeable origin always lies
+        // in the grid's rectangle (though it may be a cut-out cell)
+        if (!this.isInRectangle(next.row, next.col)) continue;
+
+        const key = this.cellIndex(next.row, next.col);
+        if (seen.has(key)) continue;
+        // Which gates are open depends on where the block stands, so with
+        // plates a cell shut from here may still be reached from elsewhere
+        if (this.plates.length === 0) seen.add(key);
+
+        if (from.canStep(offsets, current, dir) && from.canPlace(offsets, next, id)) {
+          seen.add(key);
+          reachable.push(next);
+        }
+      }
+    }
+
+    return reachable;
+  }
+
+  /**
+   * Color of the first paint cell under a set of cells, or null if none
+   */
+  public getPaintAt(cells: readonly GridPosition[]): string | null {
+    const paint = this.paints.find(p => cells.some(cell => cell.row === p.row && cell.col === p.col));
+    return paint ? paint.color : null;
+  }
+
+  /**
+   * Check if any of a set of cells is a scissors cell
+   */
+  public isOnScissors(cells: readonly GridPosition[]): boolean {
+    return this.scissors.some(pos => cells.some(cell => cell.row === pos.row && cell.col === pos.col));
+  }
+
+  /**
+   * Where the other end of a portal puts a block dropped at a position with
+   * every cell on one end's footprint (shifted by as much as the ends are
+   * apart), whether or not it fits there; null if it is not on a portal
+   * (linked blocks never teleport)
+   */
+  public getPortalTarget(id: string, position: GridPosition): GridPosition | null {
+    const block = this.getBlock(id);
+    if (!block || block.link !== undefined || this.portals.length === 0) {
+      return null;
+    }
+
+    const cells = this.getBlockCells(block, position);
+    for (const portal of this.portals) {
+      for (const [entry, exit] of [[portal.a, portal.b], [portal.b, portal.a]]) {
+        const footprint = getPortalCells(entry, portal.shape);
+        if (cells.every(cell => footprint.some(f => f.row === cell.row && f.col === cell.col))) {
+          return { row: position.row + exit.row - entry.row, col: position.col + exit.col - entry.col };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Where a block dropped at a position reappears through a portal, or null
+   * if it stays put (not on a portal, or the other end has no room for it)
+   */
+  public getTeleportTarget(id: string, position: GridPosition): GridPosition | null {
+    const target = this.getPortalTarget(id, position);
+    return target && this.canPlaceBlock(id, target) ? target : null;
+  }
+
+  /**
+   * Like getReachablePositions, but also tracks the color the block arrives
+   * in and the locks it opens: passing over paint recolors it and passing
+   * over a key of its color opens those locks, so one cell may be reached
+   * in several ways (crates are never painted and open nothing)
+   */
+  public getReachableStates(id: string): BoardReach[] {
+    const block = this.getBlock(id);
+    if (!block) {
+      return [];
+    }
+    const hasKeys = this.locks.length > 0 && this.keys.length > 0;
+    if ((this.paints.length === 0 && !hasKeys) || block.frozen || isCrate(block.color)) {
+      return this.getReachablePositions(id).map(position => ({ position, color: block.color, unlocked: [] }));
+    }
+
+    const offsets = getShapeOffsets(block.shape);
+    const keyOf = (reach: BoardReach) =>
+      `${this.cellIndex(reach.position.row, reach.position.col)}:${reach.color}:${reach.unlocked.join('/')}`;
+    const start: BoardReach = { position: { ...block.position }, color: block.color, unlocked: [] };
+    const seen = new Set<string>([keyOf(start)]);
+    const reachable: BoardReach[] = [start];
+
+    for (let i = 0; i < reachable.length; i++) {
+      const current = reachable[i];
+      const from = this.withShifted([id], {
+        row: current.position.row - block.position.row,
+        col: current.position.col - block.position.col
+      });
+      for (const dir of BoardState.AXIS_DIRECTIONS[block.axis ?? 'free']) {
+        const next = { row: current.position.row + dir.row, col: current.position.col + dir.col };
+        if (!this.isInRectangle(next.row, next.col) || !from.canStep(offsets, current.position, dir)) continue;
+        if (!from.canPlace(offsets, next, id)) continue;
+
+        const cells = offsets.map(o => ({ row: next.row + o.row, col: next.col + o.col }));
+        const color = this.getPaintAt(cells) ?? current.color;
+        const reach = { position: next, color, unlocked: this.addUnlocked(current.unlocked, color, cells) };
+        const key = keyOf(reach);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        reachable.push(reach);
+      }
+    }
+
+    return reachable;
+  }
+
+  /**
+   * Every offset a block's linked group can be dragged by, stepping one cell
+   * at a time while every member fits (members do not block each other);
+   * a member locked to an axis holds the whole group to it, and a frozen
+   * member holds the group in place
+   */
+  public getGroupReaches(id: string): BoardGroupReach[] {
+    const members = this.getLinkedIds(id).map(memberId => this.getBlock(memberId)!);
+    const start: BoardGroupReach = { offset: { row: 0, col: 0 }, colors: members.map(member => member.color), unlocked: [] };
+    if (members.length === 0) {
+      return [];
+    }
+    if (members.some(member => member.frozen)) {
+      return [start];
+    }
+
+    const ids = members.map(member => member.id);
+    const offsets = members.map(member => getShapeOffsets(member.shape));
+    const axes = new Set(members.map(member => member.axis ?? 'free'));
+    const directions = BoardState.AXIS_DIRECTIONS.free.filter(dir =>
+      !(dir.row !== 0 && axes.has('horizontal')) && !(dir.col !== 0 && axes.has('vertical'))
+    );
+    const hasKeys = this.locks.length > 0 && this.keys.length > 0;
+    const keyOf = (reach: BoardGroupReach) =>
+      `${reach.offset.row},${reach.offset.col}${this.paints.length > 0 ? `:${reach.colors.join('/')}` : ''}` +
+      `${hasKeys ? `:${reach.unlocked.join('/')}` : ''}`;
+
+    const seen = new Set<string>([keyOf(start)]);
+    const reachable: BoardGroupReach[] = [start];
+
+    for (let i = 0; i < reachable.length; i++) {
+      const current = reachable[i];
+      const from = this.withShifted(ids, current.offset);
+      for (const dir of directions) {
+        const offset = { row: current.offset.row + dir.row, col: current.offset.col + dir.col };
+        const positions = members.map(member => ({
+          row: member.position.row + offset.row,
+          col: member.position.col + offset.col
+        }));
+        const fits = members.every((member, k) =>
+          from.canStep(offsets[k], { row: member.position.row + current.offset.row, col: member.position.col + current.offset.col }, dir) &&
+          from.canPlace(offsets[k], positions[k], ids)
+        );
+        if (!fits) continue;
+
+        const cells = members.map((_member, k) =>
+          offsets[k].map(o => ({ row: positions[k].row + o.row, col: positions[k].col + o.col }))
+        );
+        const colors = this.paints.length === 0 ? current.colors : members.map((_member, k) =>
+          this.getPaintAt(cells[k]) ?? current.colors[k]
+        );
+        const unlocked = !hasKeys ? current.unlocked : members.reduce(
+          (opened, member, k) => (isCrate(member.color) ? opened : this.addUnlocked(opened, colors[k], cells[k])),
+          current.unlocked
+        );
+        const next = { offset, colors, unlocked };
+        const key = keyOf(next);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        reachable.push(next);
+      }
+    }
+
+    return reachable;
+  }
+
+  /**
+   * Origins to try, best first, for a shape turned a quarter turn clockwise
+   * about its center; when the center falls between cells every nearby
+   * rounding is offered so blocks can still turn next to a wall
+   */
+  public static getRotationOrigins(shape: ShapeType, position: GridPosition): GridPosition[] {
+    const { width, height } = getShapeDimensions(shape);
+    const rowShift = (height - width) / 2;
+    const colShift = (width - height) / 2;
+
+    const origins: GridPosition[] = [];
+    [Math.round(rowShift), Math.floor(rowShift), Math.ceil(rowShift)].forEach(dr => {
+      [Math.round(colShift), Math.floor(colShift), Math.ceil(colShift)].forEach(dc => {
+        if (!origins.some(origin => origin.row === position.row + dr && origin.col === position.col + dc)) {
+          origins.push({ row: position.row + dr, col: position.col + dc });
+        }
+      });
+    });
+    return origins;
+  }
+
+  /**
+   * The move that turns a rotatable block a quarter turn clockwise in place,
+   * or null if it is fixed, looks the same turned, or has no room to turn
+   */
+  public getRotationMove(id: string): BoardMove | null {
+    const block = this.getBlock(id);
+    if (!block || !block.rotatable || block.frozen || block.link !== undefined) {
+      return null;
+    }
+
+    const shape = rotateShape(block.shape);
+    if (shape === block.shape) {
+      return null;
+    }
+
+    const offsets = getShapeOffsets(shape);
+    const origin = BoardState.getRotationOrigins(block.shape, block.position)
+      .find(position => this.canPlace(offsets, position, id));
+    if (!origin) {
+      return null;
+    }
+
+    const move: BoardMove = { blockId: id, to: origin, exitIndex: null, shape };
+    const color = this.getPaintAt(offsets.map(o => ({ row: origin.row + o.row, col: origin.col + o.col })));
+    if (color !== null && color !== block.color) move.color = color;
+    return move;
+  }
+
+  /**
+   * Blocks that can still leave through an exit before it closes
+   * (null if it has no capacity)
+   */
+  public getExitCapacityLeft(exitIndex: number): number | null {
+    const capacity = this.exits[exitIndex]?.capacity;
+    if (capacity === undefined) {
+      return null;
+    }
+    return Math.max(0, capacity - (this.exitUses[exitIndex] ?? 0));
+  }
+
+  /**
+   * Check if an exit's rules let blocks through right now: capacity left and
+   * its opening condition met (the block `id`, if given, does not count
+   * against the condition and must be next in the exit's order)
+   */
+  public isExitOpen(exitIndex: number, id?: string): boolean {
+    const exit = this.exits[exitIndex];
+    if (!exit || this.getExitCapacityLeft(exitIndex) === 0) {
+      return false;
+    }
+
+    const condition = exit.opensWhen;
+    if (condition && this.blocks.some(b => b.id !== id && b.color.toLowerCase() === condition.color.toLowerCase())) {
+      return false;
+    }
+
+    // Listed blocks leave in order: every block listed earlier must be gone
+    const order = exit.order;
+    if (!order || id === undefined) {
+      return true;
+    }
+    const place = order.indexOf(Number(id.slice('block-'.length)));
+    return place < 0 || order.slice(0, place).every(index => !this.getBlock(`block-${index}`));
+  }
+
+  /**
+   * Check if a block at a position may leave through an exit:
+   * colors must match (in `color`, if paint has recolored it on the way;
+   * rainbow matches any color), the exit must be open to it, and the block's
+   * bounding box must touch the exit's side and lie within the exit's cell span,
+   * with no thin wall on the edge in its way
+   */
+  public canExitAt(id: string, exitIndex: number, position: GridPosition, color?: string): boolean {
+    const block = this.getBlock(id);
+    const exit = this.exits[exitIndex];
+    if (!block || !exit) {
+      return false;
+    }
+
+    if (!colorsMatch(color ?? block.color, exit.color)) {
+      return false;
+    }
+    if (!this.isExitOpen(exitIndex, id)) {
+      return false;
+    }
+
+    const cells = this.getBlockCells(block, position);
+    const minRow = Math.min(...cells.map(c => c.row));
+    const maxRow = Math.max(...cells.map(c => c.row));
+    const minCol = Math.min(...cells.map(c => c.col));
+    const maxCol = Math.max(...cells.map(c => c.col));
+
+    const edge = this.getExitEdge(exitIndex);
+    const horizontal = exit.side === 'top' || exit.side === 'bottom';
+    const touchesEdge = { top: minRow, bottom: maxRow, left: minCol, right: maxCol }[exit.side] === edge;
+    const inSpan = horizontal
+      ? minCol >= exit.startCell && maxCol <= exit.endCell
+      : minRow >= exit.startCell && maxRow <= exit.endCell;
+    return touchesEdge && inSpan && !this.isExitWalled(exitIndex, cells);
+  }
+
+  /**
+   * Check if an exit could ever accept a block, wherever it stands:
+   * colors match (the block's own or any paint's) and the exit span is at
+   * least as wide as the block; never for a crate
+   */
+  public canEverExitThrough(id: string, exitIndex: number): boolean {
+    const block = this.getBlock(id);
+    const exit = this.exits[exitIndex];
+    if (!block || !exit || isCrate(block.color)) {
+      return false;
+    }
+
+    const colors = [block.color, ...this.paints.map(paint => paint.color)];
+    if (!colors.some(color => colorsMatch(color, exit.color))) {
+      return false;
+    }
+
+    const span = exit.endCell - exit.startCell + 1;
+    const isHorizontal = exit.side === 'top' || exit.side === 'bottom';
+    const orientations = block.rotatable ? [block.shape, rotateShape(block.shape)] : [block.shape];
+    return orientations.some(shape => {
+      const { width, height } = getShapeDimensions(shape);
+      return isHorizontal ? width <= span : height <= span;
+    });
+  }
+
+  /**
+   * Check if a block could reach and leave through any exit if every other
+   * block were out of the way (obstacles still apply but patrols have walked
+   * off, gates stand open, ice has thawed, any link is cut, paint may recolor
+   * it, portals may carry it)
+   */
+  public canEverExit(id: string): boolean {
+    const block = this.getBlock(id);
+    if (!block) {
+      return false;
+    }
+
+    // Explore every orientation the block can turn into, and every portal
+    // it can hop through, along the way
+    const reached = new Set<string>();
+    const queue = [this.copyWith({ blocks: [{ ...block, frozen: 0, link: undefined }], locks: [], patrols: [], plates: [] })];
+    while (queue.length > 0) {
+      const alone = queue.pop()!;
+      const current = alone.getBlock(id)!;
+
+      for (const { position, color } of alone.getReachableStates(id)) {
+        const key = `${current.shape}@${position.row},${position.col}:${color}`;
+        if (reached.has(key)) continue;
+        reached.add(key);
+
+        if (alone.findExitAt(id, position, color) !== null) {
+          return true;
+        }
+
+        const turned = alone.withBlock({ ...current, position: { ...position }, color });
+        const rotation = turned.getRotationMove(id);
+        const turnedColor = rotation?.color ?? color;
+        if (rotation && !reached.has(`${rotation.shape}@${rotation.to.row},${rotation.to.col}:${turnedColor}`)) {
+          queue.push(turned.applyMove(rotation));
+        }
+
+        const teleport = turned.getTeleportTarget(id, position);
+        if (teleport) {
+          const arrived = turned.getPaintAt(turned.getBlockCells(current, teleport)) ?? color;
+          if (!reached.has(`${current.shape}@${teleport.row},${teleport.col}:${arrived}`)) {
+            queue.push(turned.withBlock({ ...current, position: teleport, color: arrived }));
+          }
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Color of the locks opened by a block of `color` that exits (`cells` null)
+   * or covers a key of its color with `cells`; null if none open
+   */
+  public getUnlockedBy(color: string, cells: readonly GridPosition[] | null): string | null {
+    const lockColor = color.toLowerCase();
+    if (!this.locks.some(lock => lock.color.toLowerCase() === lockColor)) {
+      return null;
+    }
+    if (cells === null) {
+      return lockColor;
+    }
+    const onKey = this.keys.some(key =>
+      key.color.toLowerCase() === lockColor &&
+      cells.some(cell => cell.row === key.row && cell.col === key.col)
+    );
+    return onKey ? lockColor : null;
+  }
+
+  /**
+   * Lock colors opened so far plus any a block of `color` opens on `cells`
+   * (kept sorted, so the same set always reads the same)
+   */
+  private addUnlocked(unlocked: string[], color: string, cells: readonly GridPosition[] | null): string[] {
+    const opened = this.getUnlockedBy(color, cells);
+    return opened === null || unlocked.includes(opened) ? unlocked : [...unlocked, opened].sort();
+  }
+
+  /**
+   * Get the index of the first exit a block may leave through at a position
+   */
+  public findExitAt(id: string, position: GridPosition, color?: string): number | null {
+    for (let i = 0; i < this.exits.length; i++) {
+      if (this.canExitAt(id, i, position, color)) {
+        return i;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Exits a linked group leaves through when dropped with each member at a
+   * position (in a color), one per member, or null unless every member is
+   * aligned with an exit open to it and the exits have room for them all
+   * (members leave together, so they never hold an exit closed for each other)
+   */
+  public findGroupExitsAt(drops: readonly Pick<BoardMove, 'blockId' | 'to' | 'color'>[]): number[] | null {
+    const ids = drops.map(drop => drop.blockId);
+    const exits: number[] = [];
+    for (const drop of drops) {
+      const exitIndex = this.withoutOthers(drop.blockId, ids).findExitAt(drop.blockId, drop.to, drop.color);
+      if (exitIndex === null) {
+        return null;
+      }
+      exits.push(exitIndex);
+    }
+    return this.hasExitRoom(exits) ? exits : null;
+  }
+
+  private withoutOthers(id: string, ids: readonly string[]): BoardState {
+    return this.copyWith({ blocks: this.blocks.filter(b => b.id === id || !ids.includes(b.id)) });
+  }
+
+  /**
+   * Check if exits with a capacity have room for a block through each of
+   * `exits` (an exit listed twice takes two)
+   */
+  private hasExitRoom(exits: readonly number[]): boolean {
+    return exits.every(exitIndex => {
+      const left = this.getExitCapacityLeft(exitIndex);
+      return left === null || exits.filter(other => other === exitIndex).length <= left;
+    });
+  }
+
+  /**
+   * List every legal move: one per reachable drop position (and color and
+   * opened locks, when paint or keys are passed on the way), where dropping on an
+   * exit-aligned position removes the block instead of sliding it and
+   * dropping on a portal teleports it, plus a
+   * rotation in place for each rotatable block that has room to turn;
+   * a linked group gets its moves once, led by its first member
+   */
+  public getLegalMoves(): BoardMove[] {
+    const moves: BoardMove[] = [];
+
+    this.blocks.forEach(block => {
+      if (block.frozen) return;
+      if (block.link !== undefined) {
+        if (this.getLinkedIds(block.id)[0] === block.id) {
+          moves.push(...this.getGroupMoves(block.id));
+        }
+        return;
+      }
+      const exitsTaken = new Set<string>();
+
+      this.getReachableStates(block.id).forEach(({ position, color, unlocked }) => {
+        const exitIndex = this.findExitAt(block.id, position, color);
+        const recolor = color !== block.color ? { color } : {};
+        const opened = unlocked.length > 0 ? { unlocked } : {};
+
+        if (exitIndex !== null) {
+          // One exit move per exit (and set of keys passed) is enough; drop positions are equivalent
+          const key = `${exitIndex}:${unlocked.join('/')}`;
+          if (!exitsTaken.has(key)) {
+            exitsTaken.add(key);
+            moves.push({ blockId: block.id, to: position, exitIndex, ...recolor, ...opened });
+          }
+          return;
+        }
+
+        if (position.row === block.position.row && position.col === block.position.col && color === block.color && unlocked.length === 0) {
+          return;
+        }
+
+        // A drop on a portal lands on its other end, picking up any paint there
+        const teleport = this.withShifted([block.id], {
+          row: position.row - block.position.row,
+          col: position.col - block.position.col
+        }).getTeleportTarget(block.id, position);
+        if (teleport) {
+          const arrived = this.getPaintAt(this.getBlockCells(block, teleport)) ?? color;
+          moves.push({ blockId: block.id, to: position, exitIndex: null, teleport, ...(arrived !== block.color ? { color: arrived } : {}), ...opened });
+          return;
+        }
+        moves.push({ blockId: block.id, to: position, exitIndex: null, ...recolor, ...opened });
+      });
+
+      const rotation = this.getRotationMove(block.id);
+      if (rotation) {
+        moves.push(rotation);
+      }
+    });
+
+    return moves;
+  }
+
+  /**
+   * Moves of a linked group: one per reachable offset (and member colors and
+   * opened locks), leaving through exits when every member is aligned with one;
+   * the lead move carries the locks opened on the way
+   */
+  private getGroupMoves(id: string): BoardMove[] {
+    const members = this.getLinkedIds(id).map(memberId => this.getBlock(memberId)!);
+    const moves: BoardMove[] = [];
+    const exitsTaken = new Set<string>();
+
+    this.getGroupReaches(id).forEach(({ offset, colors, unlocked }) => {
+      const drops: BoardMove[] = members.map((member, k) => ({
+        blockId: member.id,
+        to: { row: member.position.row + offset.row, col: member.position.col + offset.col },
+        exitIndex: null,
+        ...(colors[k] !== member.color ? { color: colors[k] } : {})
+      }));
+
+      if (unlocked.length > 0) drops[0].unlocked = unlocked;
+
+      const exits = this.findGroupExitsAt(drops);
+      if (exits !== null) {
+        const key = `${exits.join(',')}:${unlocked.join('/')}`;
+        if (exitsTaken.has(key)) return;
+        exitsTaken.add(key);
+        drops.forEach((drop, k) => {
+          drop.exitIndex = exits[k];
+        });
+      } else if (
+        offset.row === 0 && offset.col === 0 && unlocked.length === 0 &&
+        colors.every((color, k) => color === members[k].color)
+      ) {
+        return;
+      }
+
+      const [lead, ...linked] = drops;
+      moves.push({ ...lead, linked });
+    });
+
+    return moves;
+  }
+
+  /**
+   * Return a new state with a block added or replaced (matched by id)
+   */
+  public withBlock(block: BoardBlock): BoardState {
+    const exists = this.blocks.some(b => b.id === block.id);
+    const blocks = exists
+      ? this.blocks.map(b => (b.id === block.id ? block : b))
+      : [...this.blocks, block];
+    return this.copyWith({ blocks });
+  }
+
+  /**
+   * Return a new state without a block
+   */
+  public withoutBlock(id: string): BoardState {
+    return this.copyWith({ blocks: this.blocks.filter(b => b.id !== id) });
+  }
+
+  /**
+   * Return a new state with blocks shifted by an offset, unchecked, to test
+   * a move's next step from where they stand partway: they press the plates
+   * they cover and hold open the gates they stand in (the same state when
+   * there are no plates, since nothing else depends on where they stand)
+   */
+  private withShifted(ids: readonly string[], offset: CellOffset): BoardState {
+    if (this.plates.length === 0 || (offset.row === 0 && offset.col === 0)) {
+      return this;
+    }
+    return this.copyWith({
+      blocks: this.blocks.map(b => (ids.includes(b.id)
+        ? { ...b, position: { row: b.position.row + offset.row, col: b.position.col + offset.col } }
+        : b))
+    });
+  }
+
+  /**
+   * Return a new state with standing cells: the cells under blocks lifted
+   * off the board mid-drag, which press plates and hold gates open
+   */
+  public withStanding(cells: readonly GridPosition[]): BoardState {
+    return this.copyWith({ standing: cells });
+  }
+
+  /**
+   * Return a new state with a different obstacle list
+   */
+  public withObstacles(obstacles: readonly GridPosition[]): BoardState {
+    return this.copyWith({ obstacles });
+  }
+
+  /**
+   * Return a new state with a different list of closed locks
+   */
+  public withLocks(locks: readonly LockData[]): BoardState {
+    return this.copyWith({ locks });
+  }
+
+  /**
+   * Return a new state with every lock of a color opened
+   */
+  public withoutLocks(color: string): BoardState {
+    return this.withLocks(this.locks.filter(lock => lock.color.toLowerCase() !== color.toLowerCase()));
+  }
+
+  /**
+   * Return a new state with each patrol at a different step of its route
+   */
+  public withPatrolSteps(steps: readonly number[]): BoardState {
+    return this.copyWith({ patrols: this.patrols.map((patrol, index) => ({ ...patrol, step: steps[index] ?? patrol.step })) });
+  }
+
+  /**
+   * Return the state after every patrol has tried to step once along its
+   * route, in level order: one whose next cell holds a block, an obstacle,
+   * a closed lock or another patrol waits where it is
+   */
+  public advancePatrols(): BoardState {
+    return this.patrols.reduce<BoardState>((state, patrol, index) => {
+      if (patrol.route.length < 2) {
+        return state;
+      }
+      const step = (patrol.step + 1) % patrol.route.length;
+      const cell = patrol.route[step];
+      const taken = !state.isInBounds(cell.row, cell.col) ||
+        state.isObstacle(cell.row, cell.col) ||
+        state.getOccupantId(cell.row, cell.col) !== null;
+      if (taken) {
+        return state;
+      }
+      return state.copyWith({ patrols: state.patrols.map((other, k) => (k === index ? { ...other, step } : other)) });
+    }, this);
+  }
+
+  /**
+   * Return a new state with different counts of blocks through each exit
+   */
+  public withExitUses(exitUses: readonly number[]): BoardState {
+    return this.copyWith({ exitUses });
+  }
+
+  private withExitUsed(exitIndex: number): BoardState {
+    if (this.exits[exitIndex]?.capacity === undefined) {
+      return this;
+    }
+    const exitUses = this.exits.map((_exit, index) => this.exitUses[index] ?? 0);
+    exitUses[exitIndex]++;
+    return this.withExitUses(exitUses);
+  }
+
+  /**
+   * Return a new state with a different exit list
+   */
+  public withExits(exits: readonly ExitData[]): BoardState {
+    return this.copyWith({ exits });
+  }
+
+  /**
+   * Return a new state with a block moved to a position
+   * Throws if the block is unknown or the position is blocked (a gate it
+   * comes to rest in stays open, so only the way there decides if it could enter)
+   */
+  public moveBlock(id: string, to: GridPosition): BoardState {
+    const block = this.getBlock(id);
+    if (!block) {
+      throw new Error(`Unknown block "${id}"`);
+    }
+    const offset = { row: to.row - block.position.row, col: to.col - block.position.col };
+    if (!this.withShifted([id], offset).canPlaceBlock(id, to)) {
+      throw new Error(`Block "${id}" cannot be placed at (${to.row}, ${to.col})`);
+    }
+    return this.withBlock({ ...block, position: { ...to } });
+  }
+
+  /**
+   * Return a new state with a block turned into another shape at a position
+   * Throws if the block is unknown or the turned shape does not fit there
+   */
+  public rotateBlock(id: string, shape: ShapeType, to: GridPosition): BoardState {
+    const block = this.getBlock(id);
+    if (!block) {
+      throw new Error(`Unknown block "${id}"`);
+    }
+    if (!this.canPlace(getShapeOffsets(shape), to, id)) {
+      throw new Error(`Block "${id}" cannot turn into ${shape} at (${to.row}, ${to.col})`);
+    }
+    return this.withBlock({ ...block, shape, position: { ...to } });
+  }
+
+  /**
+   * Return the state after applying a move; every move brings frozen blocks
+   * one move closer to thawing, and opens the locks of keys passed on the way
+   * and of the block's color (after any recoloring) when it exits or stops on
+   * a key; an exit uses up some of the exit's capacity, and
+   * a drop on a portal teleports the block; then the patrols step
+   */
+  public applyMove(move: BoardMove): BoardState {
+    const block = this.getBlock(move.blockId);
+    if (block?.frozen) {
+      throw new Error(`Block "${move.blockId}" is frozen for ${block.frozen} more move(s)`);
+    }
+    if (block?.link !== undefined) {
+      return this.applyGroupMove([move, ...(move.linked ?? [])]);
+    }
+
+    const color = move.color ?? block?.color;
+    let next: BoardState;
+    if (move.exitIndex !== null) {
+      if (!this.canExitAt(move.blockId, move.exitIndex, move.to, color)) {
+        throw new Error(`Block "${move.blockId}" cannot leave through exit ${move.exitIndex}`);
+      }
+      next = this.withoutBlock(move.blockId).withExitUsed(move.exitIndex);
+    } else if (move.shape !== undefined) {
+      next = this.rotateBlock(move.blockId, move.shape, move.to);
+    } else {
+      next = this.moveBlock(move.blockId, move.to);
+      const teleport = next.getTeleportTarget(move.blockId, move.to);
+      if (move.teleport !== undefined && (teleport === null || teleport.row !== move.teleport.row || teleport.col !== move.teleport.col)) {
+        throw new Error(`Block "${move.blockId}" cannot teleport to (${move.teleport.row}, ${move.teleport.col})`);
+      }
+      if (teleport) {
+        next = next.moveBlock(move.blockId, teleport);
+      }
+    }
+    if (move.color !== undefined && move.exitIndex === null) {
+      next = next.withBlock({ ...next.getBlock(move.blockId)!, color: move.color });
+    }
+
+    if (block && color && this.locks.length > 0) {
+      const cells = move.exitIndex !== null ? null : next.getBlockCells(next.getBlock(move.blockId)!);
+      next = this.addUnlocked(move.unlocked ?? [], color, cells)
+        .reduce<BoardState>((state, unlocked) => state.withoutLocks(unlocked), next);
+    }
+    return next.thawByOneMove().advancePatrols();
+  }
+
+  /**
+   * Apply the moves of every member of a linked group at once: they all leave
+   * or all slide, the link is cut if any member comes to rest on scissors,
+   * and locks open as in applyMove (then the patrols step)
+   * Throws unless the moves cover exactly the group
+   */
+  private applyGroupMove(moves: readonly BoardMove[]): BoardState {
+    const ids = moves.map(move => move.blockId);
+    const group = this.getLinkedIds(ids[0]);
+    if (group.length !== ids.length || !group.every(id => ids.includes(id))) {
+      throw new Error(`Linked blocks "${group.join('", "')}" must move together`);
+    }
+
+    const members = ids.map(id => this.getBlock(id)!);
+    const frozen = members.find(member => member.frozen);
+    if (frozen) {
+      throw new Error(`Block "${frozen.id}" is frozen for ${frozen.frozen} more move(s)`);
+    }
+    const colors = moves.map((move, k) => move.color ?? members[k].color);
+
+    let next: BoardState;
+    if (moves[0].exitIndex !== null) {
+      moves.forEach((move, k) => {
+        if (move.exitIndex === null || !this.withoutOthers(move.blockId, ids).canExitAt(move.blockId, move.exitIndex, move.to, colors[k])) {
+          throw new Error(`Block "${move.blockId}" cannot leave through exit ${move.exitIndex}`);
+        }
+      });
+      const exits = moves.map(move => move.exitIndex!);
+      if (!this.hasExitRoom(exits)) {
+        throw new Error(`Exits ${exits.join(', ')} have no room left for linked blocks "${ids.join('", "')}"`);
+      }
+      next = exits.reduce<BoardState>((state, exitIndex, k) => state.withoutBlock(ids[k]).withExitUsed(exitIndex), this);
+    } else {
+      const arrived = this.withShifted(ids, { row: moves[0].to.row - members[0].position.row, col: moves[0].to.col - members[0].position.col });
+      moves.forEach((move, k) => {
+        if (!arrived.canPlace(getShapeOffsets(members[k].shape), move.to, ids)) {
+          throw new Error(`Block "${move.blockId}" cannot be placed at (${move.to.row}, ${move.to.col})`);
+        }
+      });
+      const cut = moves.some((move, k) => this.isOnScissors(this.getBlockCells(members[k], move.to)));
+      next = this.copyWith({
+        blocks: this.blocks.map(b => {
+          const k = ids.indexOf(b.id);
+          if (k < 0) return b;
+          return { ...b, position: { ...moves[k].to }, color: colors[k], link: cut ? undefined : b.link };
+        })
+      });
+    }
+
+    if (this.locks.length > 0) {
+      const moved = next;
+      const unlocked = new Set(moves.flatMap((move, k) => {
+        const cells = move.exitIndex !== null ? null : moved.getBlockCells(moved.getBlock(move.blockId)!);
+        return this.addUnlocked(move.unlocked ?? [], colors[k], cells);
+      }));
+      next = [...unlocked].reduce<BoardState>((state, color) => state.withoutLocks(color), next);
+    }
+    return next.thawByOneMove().advancePatrols();
+  }
+
+  private thawByOneMove(): BoardState {
+    if (!this.blocks.some(block => block.frozen)) {
+      return this;
+    }
+    return this.copyWith({
+      blocks: this.blocks.map(block => (block.frozen ? { ...block, frozen: block.frozen - 1 } : block))
+    });
+  }
+
+  /**
+   * Pieces left to clear: blocks that move alone plus linked groups, each
+   * needing at least one more move (crates stay on the board)
+   */
+  public getPieceCount(): number {
+    const links = new Set(this.blocks.filter(b => b.link !== undefined).map(b => b.link));
+    return this.blocks.filter(b => b.link === undefined && !isCrate(b.color)).length + links.size;
+  }
+
+  /**
+   * A board is solved once every block has exited; crates may be left behind
+   */
+  public isSolved(): boolean {
+    return this.blocks.every(b => isCrate(b.color));
+  }
+
+  /**
+   * Stable string key of the block layout (and locks still closed, exit
+   * capacity used and where the patrols are), for deduplicating searched states
+   */
+  public getKey(): string {
+    if (this.keyCache === null) {
+      this.keyCache = this.blocks
+        .map(b => `${b.id}@${b.position.row},${b.position.col}${b.rotatable ? `:${b.shape}` : ''}${b.frozen ? `~${b.frozen}` : ''}${this.paints.length > 0 ? `=${b.color}` : ''}${b.link !== undefined ? `&${b.link}` : ''}`)
+        .sort()
+        .join('|');
+      if (this.locks.length > 0) {
+        const colors = new Set(this.locks.map(lock => lock.color.toLowerCase()));
+        this.keyCache += `#${[...colors].sort().join(',')}`;
+      }
+      if (this.exits.some(exit => exit.capacity !== undefined)) {
+        this.keyCache += `^${this.exits.map((_exit, index) => this.exitUses[index] ?? 0).join(',')}`;
+      }
+      if (this.patrols.length > 0) {
+        this.keyCache += `!${this.patrols.map(patrol => patrol.step).join(',')}`;
+      }
+    }
+    return this.keyCache;
+  }
+
+  private copyWith(overrides: Partial<BoardStateConfig>): BoardState {
+    return new BoardState({
+      rows: this.rows,
+      cols: this.cols,
+      obstacles: this.obstacles,
+      exits: this.exits,
+      blocks: this.blocks,
+      locks: this.locks,
+      keys: this.keys,
+      paints: this.paints,
+      exitUses: this.exitUses,
+      scissors: this.scissors,
+      mask: this.mask,
+      walls: this.walls,
+      portals: this.portals,
+      patrols: this.patrols,
+      plates: this.plates,
+      standing: this.standing,
+      ...overrides
+    });
+  }
+}
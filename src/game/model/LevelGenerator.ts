@@ -0,0 +1,263 @@
+import { LevelData, BlockData, ExitData } from '../data/levels';
+import { ShapeType, BUILT_IN_SHAPES, getShapeDimensions, getShapeOffsets } from '../data/shapes';
+import { ExitSide, GridPosition } from './types';
+import { BoardState, BoardMove } from './BoardState';
+import { solveLevel } from './Solver';
+
+/**
+ * Seedable procedural level generator
+ *
+ * Candidates are built from a seeded random stream and kept only once the
+ * solver proves them solvable within the requested difficulty band, so the
+ * same options always produce the same level.
+ */
+
+export interface DifficultyBand {
+  minMoves: number;
+  maxMoves: number;
+}
+
+export interface LevelGeneratorOptions {
+  seed: number | string;
+  gridSize: { rows: number; cols: number };
+  blockCount: number;
+  shapes?: ShapeType[]; // Shape pool, defaults to every built-in shape variant
+  obstacleDensity?: number; // Fraction of cells turned into obstacles (0-1)
+  difficulty?: DifficultyBand; // Optimal solution length, defaults to blockCount..blockCount * 3
+  colors?: string[];
+  id?: number;
+  timeLimit?: number; // Defaults to a budget derived from the solution length
+  maxAttempts?: number;
+  maxSolverStates?: number; // Per attempt
+}
+
+export interface GeneratedLevel {
+  level: LevelData;
+  solution: BoardMove[];
+  attempts: number;
+}
+
+export const DEFAULT_COLORS = ['red', 'blue', 'green', 'yellow', 'orange', 'purple', 'cyan', 'pink'];
+
+const EXIT_SIDES: ExitSide[] = ['top', 'bottom', 'left', 'right'];
+
+/**
+ * Deterministic pseudo-random stream (mulberry32)
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number | string) {
+    this.state = typeof seed === 'number' ? seed >>> 0 : SeededRandom.hash(seed);
+  }
+
+  /**
+   * FNV-1a hash so string seeds map to a 32-bit state
+   */
+  private static hash(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Next integer in [min, max] (inclusive)
+   */
+  public int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  public pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  public shuffle<T>(items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = this.int(0, i);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+}
+
+/**
+ * Generate a solvable level matching the options
+ * Throws if no candidate fits within maxAttempts
+ */
+export function generateLevel(options: LevelGeneratorOptions): GeneratedLevel {
+  const { rows, cols } = options.gridSize;
+  const shapes = options.shapes && options.shapes.length > 0
+    ? options.shapes
+    : [...BUILT_IN_SHAPES];
+  const colors = options.colors || DEFAULT_COLORS;
+  const difficulty = options.difficulty || {
+    minMoves: options.blockCount,
+    maxMoves: options.blockCount * 3
+  };
+  const maxAttempts = options.maxAttempts ?? 200;
+
+  if (!Number.isInteger(rows) || !Number.isInteger(cols) || rows < 1 || cols < 1) {
+    throw new Error(`gridSize ${rows}x${cols} must be positive whole numbers`);
+  }
+  if (!Number.isInteger(options.blockCount) || options.blockCount < 1) {
+    throw new Error(`blockCount ${options.blockCount} must be a whole number of at least 1`);
+  }
+  const density = options.obstacleDensity ?? 0;
+  if (!Number.isFinite(density) || density < 0 || density > 1) {
+    throw new Error(`obstacleDensity ${density} must be a number from 0 to 1`);
+  }
+  if (!Number.isInteger(difficulty.minMoves) || !Number.isInteger(difficulty.maxMoves) || difficulty.minMoves < 0) {
+    throw new Error(`difficulty ${difficulty.minMoves}..${difficulty.maxMoves} must be whole numbers of moves`);
+  }
+  if (options.blockCount > colors.length) {
+    throw new Error(`blockCount ${options.blockCount} needs more than the ${colors.length} available colors`);
+  }
+  if (difficulty.minMoves > difficulty.maxMoves) {
+    throw new Error(`difficulty.minMoves ${difficulty.minMoves} is above difficulty.maxMoves ${difficulty.maxMoves}`);
+  }
+  if (difficulty.maxMoves < options.blockCount) {
+    throw new Error(`difficulty.maxMoves ${difficulty.maxMoves} is below the ${options.blockCount} moves needed to clear every block`);
+  }
+
+  const random = new SeededRandom(options.seed);
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const candidate = buildCandidate(random, rows, cols, shapes, colors, options);
+    if (!candidate) continue;
+
+    const result = solveLevel(candidate, { maxStates: options.maxSolverStates ?? 20000 });
+    if (result.status !== 'solved') continue;
+
+    const moves = result.moves.length;
+    if (moves < difficulty.minMoves || moves > difficulty.maxMoves) continue;
+
+    return {
+      level: {
+        ...candidate,
+        timeLimit: options.timeLimit ?? 60 + moves * 15
+      },
+      solution: result.moves,
+      attempts: attempt
+    };
+  }
+
+  throw new Error(`No level matching the options found in ${maxAttempts} attempts (seed ${options.seed})`);
+}
+
+/**
+ * Build one random layout: obstacles, then blocks, then one exit per block color
+ * Returns null when the random layout cannot fit everything
+ */
+function buildCandidate(
+  random: SeededRandom,
+  rows: number,
+  cols: number,
+  shapes: ShapeType[],
+  colors: string[],
+  options: LevelGeneratorOptions
+): LevelData | null {
+  // Obstacles
+  const cells: GridPosition[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      cells.push({ row, col });
+    }
+  }
+  const obstacleCount = Math.round(rows * cols * (options.obstacleDensity ?? 0));
+  const obstacles = random.shuffle(cells).slice(0, obstacleCount);
+
+  // Blocks, each with its own color
+  let board = new BoardState({ rows, cols, obstacles });
+  const blockColors = random.shuffle(colors).slice(0, options.blockCount);
+  const blocks: BlockData[] = [];
+
+  for (let index = 0; index < options.blockCount; index++) {
+    const shape = random.pick(shapes);
+    const { width, height } = getShapeDimensions(shape);
+    if (width > cols || height > rows) return null;
+
+    const offsets = getShapeOffsets(shape);
+    const position = random.shuffle(cells).find(pos => board.canPlace(offsets, pos));
+    if (!position) return null;
+
+    const color = blockColors[index];
+    board = board.withBlock({ id: `block-${index}`, color, shape, position });
+    blocks.push({ color, shape, startPosition: { ...position } });
+  }
+
+  // Exits: one per color, never sharing perimeter cells with another exit
+  const usedSideCells: Record<ExitSide, Set<number>> = {
+    top: new Set(), bottom: new Set(), left: new Set(), right: new Set()
+  };
+  const exits: ExitData[] = [];
+
+  for (const block of blocks) {
+    const { width, height } = getShapeDimensions(block.shape);
+    let exit: ExitData | null = null;
+    for (const side of random.shuffle(EXIT_SIDES)) {
+      const blockSpan = side === 'top' || side === 'bottom' ? width : height;
+      exit = placeExit(random, side, block.color, blockSpan, rows, cols, usedSideCells[side]);
+      if (exit) break;
+    }
+    if (!exit) return null;
+
+    for (let cell = exit.startCell; cell <= exit.endCell; cell++) {
+      usedSideCells[exit.side].add(cell);
+    }
+    exits.push(exit);
+  }
+
+  return {
+    id: options.id ?? 0,
+    gridSize: { rows, cols },
+    timeLimit: 0, // Filled in once the solution length is known
+    blocks,
+    obstacles,
+    exits
+  };
+}
+
+/**
+ * Place an exit on a side, sized to the block plus up to one cell of slack
+ */
+function placeExit(
+  random: SeededRandom,
+  side: ExitSide,
+  color: string,
+  blockSpan: number,
+  rows: number,
+  cols: number,
+  usedCells: Set<number>
+): ExitData | null {
+  const sideLength = side === 'top' || side === 'bottom' ? cols : rows;
+  if (blockSpan > sideLength) return null;
+  const span = Math.min(sideLength, blockSpan + random.int(0, 1));
+
+  const starts: number[] = [];
+  for (let start = 0; start + span <= sideLength; start++) {
+    let free = true;
+    for (let cell = start; cell < start + span; cell++) {
+      if (usedCells.has(cell)) free = false;
+    }
+    if (free) starts.push(start);
+  }
+  if (starts.length === 0) return null;
+
+  const startCell = random.pick(starts);
+  return { color, side, startCell, endCell: startCell + span - 1 };
+}
@@ -0,0 +1,609 @@
+import {
+  LevelData,
+  BlockData,
+  CrateData,
+  colorsMatch,
+  isRainbow,
+  getObstacleCells,
+  getPatrolRoute,
+  getPortalCells,
+  normalizeWall
+} from '../data/levels';
+import {
+  ShapeType,
+  getLevelShapes,
+  getShapeDimensions,
+  getShapeOffsets,
+  hasShape,
+  rotateShape,
+  useLevelShapes
+} from '../data/shapes';
+import { BoardState } from './BoardState';
+import { solveLevel, SolverOptions } from './Solver';
+
+/**
+ * Static and solvability checks for level definitions
+ */
+
+export type LevelIssueSeverity = 'error' | 'warning';
+
+export interface LevelIssue {
+  levelId: number;
+  severity: LevelIssueSeverity;
+  message: string;
+}
+
+export interface LevelValidationOptions {
+  checkSolvable?: boolean; // Defaults to true
+  solver?: SolverOptions;
+}
+
+/**
+ * Human-readable label for a block, e.g. `block 2 (yellow Cross)`
+ */
+function describeBlock(block: BlockData, index: number): string {
+  return `block ${index} (${block.color} ${block.shape})`;
+}
+
+/**
+ * Human-readable label for a crate, e.g. `crate 0 (2x2)`
+ */
+function describeCrate(crate: CrateData, index: number): string {
+  return `crate ${index} (${crate.shape})`;
+}
+
+/**
+ * A shape and every other shape it turns into a quarter turn at a time
+ */
+function getOrientations(shape: ShapeType): ShapeType[] {
+  const orientations = [shape];
+  for (let turned = rotateShape(shape); !orientations.includes(turned); turned = rotateShape(turned)) {
+    orientations.push(turned);
+  }
+  return orientations;
+}
+
+/**
+ * Check if a shape can be placed with every cell on a set of cells
+ */
+function fitsWithin(shape: ShapeType, cells: readonly { row: number; col: number }[]): boolean {
+  const offsets = getShapeOffsets(shape);
+  const has = (row: number, col: number) => cells.some(cell => cell.row === row && cell.col === col);
+  return cells.some(cell => {
+    const origin = { row: cell.row - offsets[0].row, col: cell.col - offsets[0].col };
+    return offsets.every(offset => has(origin.row + offset.row, origin.col + offset.col));
+  });
+}
+
+/**
+ * Count the separate areas of playable cells (joined by their sides)
+ */
+function countAreas(board: BoardState): number {
+  const seen = new Set<string>();
+  let areas = 0;
+  for (let row = 0; row < board.rows; row++) {
+    for (let col = 0; col < board.cols; col++) {
+      if (!board.isInBounds(row, col) || seen.has(`${row},${col}`)) continue;
+
+      areas++;
+      const stack = [{ row, col }];
+      seen.add(`${row},${col}`);
+      while (stack.length > 0) {
+        const cell = stack.pop()!;
+        [[-1, 0], [1, 0], [0, -1], [0, 1]].forEach(([dRow, dCol]) => {
+          const next = { row: cell.row + dRow, col: cell.col + dCol };
+          const key = `${next.row},${next.col}`;
+          if (board.isInBounds(next.row, next.col) && !seen.has(key)) {
+            seen.add(key);
+            stack.push(next);
+          }
+        });
+      }
+    }
+  }
+  return areas;
+}
+
+/**
+ * Validate a single level; returns every issue found (empty when valid)
+ * The level's custom shapes are registered while checking, then the level in play's are restored
+ */
+export function validateLevel(level: LevelData, options: LevelValidationOptions = {}): LevelIssue[] {
+  const shapesInPlay = getLevelShapes();
+  try {
+    return checkLevel(level, options);
+  } finally {
+    useLevelShapes(shapesInPlay);
+  }
+}
+
+function checkLevel(level: LevelData, options: LevelValidationOptions): LevelIssue[] {
+  const issues: LevelIssue[] = [];
+  const error = (message: string) => issues.push({ levelId: level.id, severity: 'error', message });
+  const warning = (message: string) => issues.push({ levelId: level.id, severity: 'warning', message });
+
+  const { rows, cols } = level.gridSize;
+  if (!Number.isInteger(rows) || !Number.isInteger(cols) || rows <= 0 || cols <= 0) {
+    error(`gridSize ${rows}x${cols} must be positive whole numbers`);
+    return issues;
+  }
+
+  if (level.timeLimit <= 0) {
+    error(`timeLimit ${level.timeLimit} must be greater than zero`);
+  }
+
+  // Shapes: custom declarations must register and every block, shaped
+  // obstacle, crate and shaped portal needs a known shape
+  try {
+    useLevelShapes(level.shapes);
+  } catch (shapeError) {
+    error(shapeError instanceof Error ? shapeError.message : String(shapeError));
+    useLevelShapes();
+  }
+  const unknownShapes = [
+    ...level.blocks.map((block, index) => ({ label: describeBlock(block, index), shape: block.shape })),
+    ...level.obstacles.map((obstacle, index) => ({ label: `obstacle ${index} (${obstacle.shape})`, shape: obstacle.shape })),
+    ...(level.crates ?? []).map((crate, index) => ({ label: describeCrate(crate, index), shape: crate.shape })),
+    ...(level.portals ?? []).map((portal, index) => ({ label: `portal ${index} (${portal.shape})`, shape: portal.shape }))
+  ].filter(({ shape }) => shape !== undefined && !hasShape(shape));
+  if (unknownShapes.length > 0) {
+    unknownShapes.forEach(({ label }) => error(`${label} uses an unknown shape`));
+    return issues;
+  }
+
+  // Mask: one row of 'X' (playable) and '.' (cut out) cells per grid row
+  const mask = level.mask ?? [];
+  if (level.mask) {
+    if (mask.length !== rows) {
+      error(`mask has ${mask.length} row(s) but the grid has ${rows}`);
+    }
+    mask.forEach((row, index) => {
+      if (row.length !== cols) {
+        error(`mask row ${index} has ${row.length} cell(s) but the grid has ${cols} columns`);
+      } else if (!/^[X.]*$/.test(row)) {
+        error(`mask row ${index} "${row}" uses characters other than "X" and "."`);
+      }
+    });
+  }
+  const boardName = level.mask ? 'the board\'s masked shape' : `the ${rows}x${cols} grid`;
+
+  const board = BoardState.fromLevel(level);
+  const inBounds = (row: number, col: number) => board.isInBounds(row, col);
+  if (level.mask) {
+    const areas = countAreas(board);
+    if (areas === 0) {
+      error('mask cuts out every cell of the board');
+    } else if (areas > 1) {
+      warning(`mask splits the board into ${areas} separate areas`);
+    }
+  }
+
+  // Obstacles (a shaped one covers every cell of its shape)
+  const obstacleCells = new Set<string>();
+  level.obstacles.forEach((obstacle, index) => {
+    const label = `obstacle ${index}${obstacle.shape !== undefined ? ` (${obstacle.shape})` : ''} at (${obstacle.row}, ${obstacle.col})`;
+    getObstacleCells(obstacle).forEach(cell => {
+      const key = `${cell.row},${cell.col}`;
+      if (obstacle.shape === undefined) {
+        if (!inBounds(cell.row, cell.col)) {
+          error(`${label} is outside ${boardName}`);
+        } else if (level.obstacles.slice(0, index).some(other => other.shape === undefined && other.row === cell.row && other.col === cell.col)) {
+          warning(`${label} is listed twice`);
+        } else if (obstacleCells.has(key)) {
+          warning(`${label} overlaps another obstacle`);
+        }
+      } else if (!inBounds(cell.row, cell.col)) {
+        error(`${label} covers (${cell.row}, ${cell.col}), outside ${boardName}`);
+      } else if (obstacleCells.has(key)) {
+        warning(`${label} overlaps another obstacle at (${cell.row}, ${cell.col})`);
+      }
+      obstacleCells.add(key);
+    });
+  });
+
+  // Locks block like obstacles; keys sit on open floor
+  const lockCells = new Set<string>();
+  const blockColors = new Set(level.blocks.map(block => block.color.toLowerCase()));
+  (level.locks ?? []).forEach((lock, index) => {
+    const key = `${lock.row},${lock.col}`;
+    const label = `lock ${index} (${lock.color}) at (${lock.row}, ${lock.col})`;
+    if (!inBounds(lock.row, lock.col)) {
+      error(`${label} is outside ${boardName}`);
+    } else if (obstacleCells.has(key)) {
+      error(`${label} overlaps an obstacle`);
+    } else if (lockCells.has(key)) {
+      warning(`${label} is listed twice`);
+    }
+    if (!blockColors.has(lock.color.toLowerCase())) {
+      warning(`${label} never opens: there is no ${lock.color} block`);
+    }
+    lockCells.add(key);
+  });
+  (level.keys ?? []).forEach((keyCell, index) => {
+    const key = `${keyCell.row},${keyCell.col}`;
+    const label = `key ${index} (${keyCell.color}) at (${keyCell.row}, ${keyCell.col})`;
+    if (!inBounds(keyCell.row, keyCell.col)) {
+      error(`${label} is outside ${boardName}`);
+    } else if (obstacleCells.has(key) || lockCells.has(key)) {
+      error(`${label} sits on an obstacle or lock`);
+    }
+    if (!(level.locks ?? []).some(lock => lock.color.toLowerCase() === keyCell.color.toLowerCase())) {
+      warning(`${label} has no ${keyCell.color} lock to open`);
+    }
+  });
+
+  // Paints sit on open floor, one per cell
+  const paintCells = new Set<string>();
+  const keyCells = new Set((level.keys ?? []).map(keyCell => `${keyCell.row},${keyCell.col}`));
+  (level.paints ?? []).forEach((paint, index) => {
+    const key = `${paint.row},${paint.col}`;
+    const label = `paint ${index} (${paint.color}) at (${paint.row}, ${paint.col})`;
+    if (!inBounds(paint.row, paint.col)) {
+      error(`${label} is outside ${boardName}`);
+    } else if (obstacleCells.has(key) || lockCells.has(key) || keyCells.has(key)) {
+      error(`${label} sits on an obstacle, lock or key`);
+    } else if (paintCells.has(key)) {
+      error(`${label} is listed twice`);
+    }
+    paintCells.add(key);
+  });
+
+  // Links chain at least two existing blocks, each into one group only
+  const linkOf = new Map<number, number>();
+  (level.links ?? []).forEach((group, linkIndex) => {
+    const label = `link ${linkIndex}`;
+    if (group.length < 2) {
+      warning(`${label} chains ${group.length} block(s); it needs at least two`);
+    }
+    group.forEach(blockIndex => {
+      const block = level.blocks[blockIndex];
+      if (!block) {
+        error(`${label} refers to missing block ${blockIndex}`);
+        return;
+      }
+      const other = linkOf.get(blockIndex);
+      if (other !== undefined) {
+        error(`${describeBlock(block, blockIndex)} is in ${other === linkIndex ? `${label} twice` : `link ${other} and ${label}`}`);
+        return;
+      }
+      linkOf.set(blockIndex, linkIndex);
+      if (block.rotatable && group.length > 1) {
+        warning(`${describeBlock(block, blockIndex)} is linked, so it cannot be rotated`);
+      }
+    });
+
+    const axes = new Set(group.map(blockIndex => level.blocks[blockIndex]?.axis ?? 'free'));
+    if (axes.has('horizontal') && axes.has('vertical')) {
+      error(`${label} chains horizontal and vertical blocks, so it can never move`);
+    }
+  });
+
+  // Scissors sit on open floor and need a link to cut
+  const scissorsCells = new Set<string>();
+  (level.scissors ?? []).forEach((pos, index) => {
+    const key = `${pos.row},${pos.col}`;
+    const label = `scissors ${index} at (${pos.row}, ${pos.col})`;
+    if (!inBounds(pos.row, pos.col)) {
+      error(`${label} is outside ${boardName}`);
+    } else if (obstacleCells.has(key) || lockCells.has(key)) {
+      error(`${label} sits on an obstacle or lock`);
+    } else if (scissorsCells.has(key)) {
+      warning(`${label} is listed twice`);
+    }
+    scissorsCells.add(key);
+  });
+  if ((level.scissors ?? []).length > 0 && !(level.links ?? []).some(group => group.length > 1)) {
+    warning('scissors have no link to cut');
+  }
+
+  // Walls run along the edge of a board cell, one per edge; on the board's
+  // edge they only matter where they close part of an exit
+  const wallEdges = new Set<string>();
+  (level.walls ?? []).forEach((wall, index) => {
+    const edge = normalizeWall(wall);
+    const key = `${edge.row},${edge.col},${edge.side}`;
+    const label = `wall ${index} on the ${wall.side} of (${wall.row}, ${wall.col})`;
+    const inside = inBounds(edge.row, edge.col);
+    const outside = edge.side === 'top' ? inBounds(edge.row - 1, edge.col) : inBounds(edge.row, edge.col - 1);
+
+    if (!inside && !outside) {
+      error(`${label} is not on the edge of any cell of ${boardName}`);
+    } else if (wallEdges.has(key)) {
+      warning(`${label} is listed twice`);
+    } else if (inside !== outside) {
+      // The board cell the wall belongs to
+      const cell = inside ? edge : edge.side === 'top' ? { row: edge.row - 1, col: edge.col } : { row: edge.row, col: edge.col - 1 };
+      const closesExit = level.exits.some((exit, exitIndex) => {
+        const along = exit.side === 'top' || exit.side === 'bottom' ? cell.col : cell.row;
+        return along >= exit.startCell && along <= exit.endCell && board.isExitWalled(exitIndex, [cell]);
+      });
+      if (!closesExit) {
+        warning(`${label} is on the board's edge away from any exit, so it does nothing`);
+      }
+    }
+    wallEdges.add(key);
+  });
+
+  // Portals: both ends of each pair on open floor, clear of every other end,
+  // and big enough for some block or crate to be dropped wholly on them
+  const portalCells = new Set<string>();
+  const pieceShapes = [
+    ...level.blocks.flatMap(block => (block.rotatable ? getOrientations(block.shape) : [block.shape])),
+    ...(level.crates ?? []).map(crate => crate.shape)
+  ];
+  (level.portals ?? []).forEach((portal, index) => {
+    ([['a', portal.a], ['b', portal.b]] as const).forEach(([name, end]) => {
+      const label = `portal ${index} end ${name} at (${end.row}, ${end.col})`;
+      getPortalCells(end, portal.shape).forEach(cell => {
+        const key = `${cell.row},${cell.col}`;
+        const where = portal.shape !== undefined ? ` at (${cell.row}, ${cell.col})` : '';
+        if (!inBounds(cell.row, cell.col)) {
+          error(portal.shape !== undefined
+            ? `${label} covers (${cell.row}, ${cell.col}), outside ${boardName}`
+            : `${label} is outside ${boardName}`);
+        } else if (obstacleCells.has(key) || lockCells.has(key)) {
+          error(`${label} sits on an obstacle or lock${where}`);
+        } else if (portalCells.has(key)) {
+          error(`${label} overlaps another portal end${where}`);
+        }
+        portalCells.add(key);
+      });
+    });
+
+    const footprint = getPortalCells({ row: 0, col: 0 }, portal.shape);
+    if (!pieceShapes.some(shape => fitsWithin(shape, footprint))) {
+      warning(`portal ${index} is too small for any block or crate to be dropped on it`);
+    }
+  });
+
+  // Blocks and crates: bounds and overlaps with obstacles and earlier pieces
+  const pieces = [
+    ...level.blocks.map((block, index) => ({ label: describeBlock(block, index), ...block })),
+    ...(level.crates ?? []).map((crate, index) => ({ label: describeCrate(crate, index), ...crate }))
+  ];
+  const pieceCells = new Map<string, string>();
+  pieces.forEach(({ label, shape, startPosition }) => {
+    const offsets = getShapeOffsets(shape);
+    if (board.isCutByWall(offsets, startPosition)) {
+      error(`${label} at (${startPosition.row}, ${startPosition.col}) has a wall running through it`);
+    }
+
+    offsets.forEach(offset => {
+      const cell = { row: startPosition.row + offset.row, col: startPosition.col + offset.col };
+      const key = `${cell.row},${cell.col}`;
+
+      if (!inBounds(cell.row, cell.col)) {
+        error(`${label} at (${startPosition.row}, ${startPosition.col}) covers (${cell.row}, ${cell.col}), outside ${boardName}`);
+        return;
+      }
+      if (obstacleCells.has(key)) {
+        error(`${label} overlaps the obstacle at (${cell.row}, ${cell.col})`);
+      }
+      if (lockCells.has(key)) {
+        error(`${label} overlaps the lock at (${cell.row}, ${cell.col})`);
+      }
+
+      const other = pieceCells.get(key);
+      if (other !== undefined) {
+        error(`${label} overlaps ${other} at (${cell.row}, ${cell.col})`);
+      } else {
+        pieceCells.set(key, label);
+      }
+    });
+  });
+
+  // Patrols: waypoints in straight lines, a route over open floor that no
+  // wall cuts, and a free start cell
+  const patrolStarts = new Map<string, number>();
+  (level.patrols ?? []).forEach((patrol, index) => {
+    const label = `patrol ${index}`;
+    if (patrol.path.length === 0) {
+      error(`${label} has no waypoints`);
+      return;
+    }
+    patrol.path.slice(1).forEach((waypoint, k) => {
+      const previous = patrol.path[k];
+      if (waypoint.row !== previous.row && waypoint.col !== previous.col) {
+        error(`${label} waypoint ${k + 1} at (${waypoint.row}, ${waypoint.col}) is not in a straight line from the one before`);
+      }
+    });
+
+    const route = getPatrolRoute(patrol);
+    const routeCells = new Set<string>();
+    route.forEach((cell, k) => {
+      const key = `${cell.row},${cell.col}`;
+      if (routeCells.has(key)) return;
+      routeCells.add(key);
+      if (!inBounds(cell.row, cell.col)) {
+        error(`${label} walks through (${cell.row}, ${cell.col}), outside ${boardName}`);
+      } else if (obstacleCells.has(key) || lockCells.has(key)) {
+        error(`${label} walks through the obstacle or lock at (${cell.row}, ${cell.col})`);
+      }
+      const next = route[(k + 1) % route.length];
+      const origin = { row: Math.min(cell.row, next.row), col: Math.min(cell.col, next.col) };
+      const step = { row: Math.abs(next.row - cell.row), col: Math.abs(next.col - cell.col) };
+      if (route.length > 1 && board.isCutByWall([{ row: 0, col: 0 }, step], origin)) {
+        error(`${label} walks through the wall between (${cell.row}, ${cell.col}) and (${next.row}, ${next.col})`);
+      }
+    });
+
+    const start = route[0];
+    const startKey = `${start.row},${start.col}`;
+    const piece = pieceCells.get(startKey);
+    const other = patrolStarts.get(startKey);
+    if (piece !== undefined) {
+      error(`${label} starts under ${piece} at (${start.row}, ${start.col})`);
+    } else if (other !== undefined) {
+      error(`${label} starts on patrol ${other} at (${start.row}, ${start.col})`);
+    }
+    patrolStarts.set(startKey, index);
+    if (route.length < 2) {
+      warning(`${label} has a single cell, so it never moves`);
+    }
+  });
+
+  // Plates sit on open floor, one per cell, with gates on open floor off any plate
+  const plateCells = new Map<string, number>();
+  (level.plates ?? []).forEach((plate, index) => {
+    const key = `${plate.row},${plate.col}`;
+    const label = `plate ${index} at (${plate.row}, ${plate.col})`;
+    const other = plateCells.get(key);
+    if (!inBounds(plate.row, plate.col)) {
+      error(`${label} is outside ${boardName}`);
+    } else if (obstacleCells.has(key) || lockCells.has(key)) {
+      error(`${label} sits on an obstacle or lock`);
+    } else if (other !== undefined) {
+      error(`${label} shares its cell with plate ${other}`);
+    }
+    if (plate.gates.length === 0) {
+      warning(`${label} opens no gates`);
+    }
+    if (other === undefined) {
+      plateCells.set(key, index);
+    }
+  });
+  (level.plates ?? []).forEach((plate, index) => {
+    plate.gates.forEach((gate, k) => {
+      const key = `${gate.row},${gate.col}`;
+      const label = `plate ${index} gate ${k} at (${gate.row}, ${gate.col})`;
+      if (!inBounds(gate.row, gate.col)) {
+        error(`${label} is outside ${boardName}`);
+      } else if (obstacleCells.has(key) || lockCells.has(key)) {
+        error(`${label} sits on an obstacle or lock`);
+      } else if (plateCells.has(key)) {
+        error(`${label} sits on plate ${plateCells.get(key)}`);
+      } else if (plate.gates.slice(0, k).some(earlier => earlier.row === gate.row && earlier.col === gate.col)) {
+        warning(`${label} is listed twice`);
+      }
+    });
+  });
+
+  // Exits: cell span within the side they sit on
+  level.exits.forEach((exit, index) => {
+    const sideLength = exit.side === 'top' || exit.side === 'bottom' ? cols : rows;
+    const label = `exit ${index} (${exit.color} ${exit.side})`;
+
+    if (exit.startCell > exit.endCell) {
+      error(`${label} has startCell ${exit.startCell} after endCell ${exit.endCell}`);
+    }
+    if (exit.startCell < 0 || exit.endCell >= sideLength) {
+      error(`${label} spans cells ${exit.startCell}-${exit.endCell}, but the ${exit.side} side only has cells 0-${sideLength - 1}`);
+    } else if (level.mask && exit.startCell <= exit.endCell) {
+      // On an irregular board the exit sits on the outermost playable cells,
+      // which must form one straight stretch of edge
+      const edge = board.getEdgeLine(exit.side, exit.startCell, exit.endCell);
+      const horizontal = exit.side === 'top' || exit.side === 'bottom';
+      for (let cell = exit.startCell; cell <= exit.endCell; cell++) {
+        if (!(horizontal ? inBounds(edge, cell) : inBounds(cell, edge))) {
+          error(`${label} does not run along a straight stretch of the board's edge`);
+          break;
+        }
+      }
+    }
+
+    // Rules: capacity, block order and opening condition
+    if (exit.capacity !== undefined && exit.capacity < 1) {
+      error(`${label} has capacity ${exit.capacity}, so it never opens`);
+    }
+    const paintsExitColor = (level.paints ?? []).some(paint => colorsMatch(paint.color, exit.color));
+    (exit.order ?? []).forEach((blockIndex, place) => {
+      const block = level.blocks[blockIndex];
+      if (!block) {
+        error(`${label} orders block ${blockIndex}, which does not exist`);
+      } else if ((exit.order ?? []).indexOf(blockIndex) !== place) {
+        error(`${label} lists ${describeBlock(block, blockIndex)} twice in its order`);
+      } else if (!colorsMatch(block.color, exit.color) && !paintsExitColor) {
+        warning(`${label} orders ${describeBlock(block, blockIndex)}, which can never leave through it`);
+      }
+    });
+    if (exit.opensWhen && !blockColors.has(exit.opensWhen.color.toLowerCase())) {
+      warning(`${label} waits for ${exit.opensWhen.color} blocks to clear, but there are none, so it is always open`);
+    }
+  });
+
+  // Without paint or rainbow exits, each color's blocks must fit through its
+  // exits' capacity (rainbow blocks can use any exit, so they are not counted)
+  if ((level.paints ?? []).length === 0 && !level.exits.some(exit => isRainbow(exit.color))) {
+    blockColors.forEach(color => {
+      if (isRainbow(color)) return;
+      const colorExits = level.exits.filter(exit => exit.color.toLowerCase() === color);
+      if (colorExits.length === 0 || colorExits.some(exit => exit.capacity === undefined)) return;
+
+      const capacity = colorExits.reduce((sum, exit) => sum + (exit.capacity ?? 0), 0);
+      const count = level.blocks.filter(block => block.color.toLowerCase() === color).length;
+      if (capacity < count) {
+        error(`${color} exits only take ${capacity} block(s) but there are ${count} ${color} blocks`);
+      }
+    });
+  }
+
+  // Every block needs an exit of its color (or of a paint it could pick up,
+  // or a rainbow one) wide enough for its shape
+  const paintColors = (level.paints ?? []).map(paint => paint.color.toLowerCase());
+  level.blocks.forEach((block, index) => {
+    const label = describeBlock(block, index);
+    const colors = [block.color, ...paintColors];
+    const colorExits = level.exits
+      .map((exit, exitIndex) => ({ exit, exitIndex }))
+      .filter(({ exit }) => colors.some(color => colorsMatch(color, exit.color)));
+
+    if (colorExits.length === 0) {
+      error(`${label} has no ${block.color} exit`);
+      return;
+    }
+
+    const fits = colorExits.some(({ exitIndex }) => board.canEverExitThrough(`block-${index}`, exitIndex));
+    if (!fits) {
+      const { width, height } = getShapeDimensions(block.shape);
+      const spans = colorExits
+        .map(({ exit }) => `${exit.side} ${exit.endCell - exit.startCell + 1}`)
+        .join(', ');
+      error(`${label} is ${width} wide and ${height} tall but no ${block.color} exit is wide enough (${spans})`);
+      return;
+    }
+
+    const id = `block-${index}`;
+    if (board.canPlaceBlock(id, block.startPosition) && !board.canEverExit(id)) {
+      error(`${label} cannot reach a ${block.color} exit even with every other block removed`);
+    }
+  });
+
+  // Solvability only means something once the layout itself is sound
+  const hasErrors = issues.some(issue => issue.severity === 'error');
+  if (!hasErrors && options.checkSolvable !== false) {
+    const result = solveLevel(level, options.solver);
+
+    switch (result.status) {
+      case 'unsolvable':
+        error('no sequence of moves clears the board');
+        break;
+      case 'limit':
+        warning(`solvability unknown: search stopped after ${result.statesExplored} states`);
+        break;
+      case 'cancelled':
+        warning('solvability unknown: search was cancelled');
+        break;
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a table of levels, including checks across levels
+ */
+export function validateLevels(levels: LevelData[], options: LevelValidationOptions = {}): LevelIssue[] {
+  const issues: LevelIssue[] = [];
+  const seenIds = new Set<number>();
+
+  levels.forEach(level => {
+    if (seenIds.has(level.id)) {
+      issues.push({ levelId: level.id, severity: 'error', message: `duplicate level id ${level.id}` });
+    }
+    seenIds.add(level.id);
+
+    issues.push(...validateLevel(level, options));
+  });
+
+  return issues;
+}
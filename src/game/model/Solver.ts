@@ -0,0 +1,229 @@
+import { LevelData, isCrate } from '../data/levels';
+import { BoardState, BoardMove } from './BoardState';
+
+/**
+ * Optimal-move solver over headless board states
+ *
+ * Every drag counts as one move (a drop onto an exit-aligned position removes
+ * the block in that same move), as does every rotation in place, so the shortest path in the state graph is the
+ * level's par. A* uses "pieces remaining" as its heuristic: each block (or
+ * linked group of blocks) needs at least one more move to exit, which keeps
+ * the search optimal.
+ */
+
+export type SolverStrategy = 'bfs' | 'astar';
+
+export type SolverStatus =
+  | 'solved'      // moves holds an optimal solution
+  | 'unsolvable'  // the whole state space was searched without a solution
+  | 'limit'       // maxStates was reached before an answer was found
+  | 'cancelled';  // the abort signal fired
+
+export interface SolverOptions {
+  strategy?: SolverStrategy;
+  maxStates?: number; // Cap on distinct states discovered
+  signal?: AbortSignal;
+  yieldInterval?: number; // States expanded between yields in solveBoardAsync
+}
+
+export interface SolverResult {
+  status: SolverStatus;
+  moves: BoardMove[];
+  statesExplored: number;
+}
+
+const DEFAULT_MAX_STATES = 100000;
+const DEFAULT_YIELD_INTERVAL = 500;
+
+interface SearchNode {
+  state: BoardState;
+  key: string;
+  depth: number;
+  priority: number;
+  order: number; // Insertion order, keeps BFS and tie-breaks stable
+}
+
+interface VisitRecord {
+  depth: number; // Shortest known distance from the start
+  parentKey: string | null;
+  move: BoardMove | null;
+  closed: boolean;
+}
+
+/**
+ * Minimal binary min-heap ordered by (priority, remaining blocks, insertion order)
+ */
+class NodeQueue {
+  private heap: SearchNode[] = [];
+
+  public get size(): number {
+    return this.heap.length;
+  }
+
+  public push(node: SearchNode): void {
+    this.heap.push(node);
+    let i = this.heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(this.heap[i], this.heap[parent])) break;
+      [this.heap[i], this.heap[parent]] = [this.heap[parent], this.heap[i]];
+      i = parent;
+    }
+  }
+
+  public pop(): SearchNode | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (this.heap.length > 0 && last) {
+      this.heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.heap.length && this.less(this.heap[left], this.heap[smallest])) smallest = left;
+        if (right < this.heap.length && this.less(this.heap[right], this.heap[smallest])) smallest = right;
+        if (smallest === i) break;
+        [this.heap[i], this.heap[smallest]] = [this.heap[smallest], this.heap[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private less(a: SearchNode, b: SearchNode): boolean {
+    if (a.priority !== b.priority) return a.priority < b.priority;
+    // Prefer states closer to solved when costs tie (dives toward solutions)
+    if (a.state.blocks.length !== b.state.blocks.length) {
+      return a.state.blocks.length < b.state.blocks.length;
+    }
+    return a.order < b.order;
+  }
+}
+
+/**
+ * Core search; yields after every `yieldInterval` expanded states so callers
+ * can hand control back to the event loop
+ */
+function* search(start: BoardState, options: SolverOptions): Generator<void, SolverResult> {
+  const strategy = options.strategy || 'astar';
+  const maxStates = options.maxStates ?? DEFAULT_MAX_STATES;
+  const yieldInterval = options.yieldInterval ?? DEFAULT_YIELD_INTERVAL;
+
+  const heuristic = (state: BoardState) => (strategy === 'astar' ? state.getPieceCount() : 0);
+
+  // A block that starts overlapping a wall or another block, or that could
+  // not leave even on an otherwise empty board, makes the level unsolvable
+  // (crates never leave, so they only need to fit)
+  const strandedBlock = start.blocks.find(block =>
+    !start.canPlaceBlock(block.id, block.position) || (!isCrate(block.color) && !start.canEverExit(block.id))
+  );
+  if (strandedBlock) {
+    return { status: 'unsolvable', moves: [], statesExplored: 0 };
+  }
+
+  const startKey = start.getKey();
+  const visits = new Map<string, VisitRecord>([
+    [startKey, { depth: 0, parentKey: null, move: null, closed: false }]
+  ]);
+  const queue = new NodeQueue();
+  let order = 0;
+  let statesExplored = 0;
+
+  queue.push({ state: start, key: startKey, depth: 0, priority: heuristic(start), order: order++ });
+
+  while (queue.size > 0) {
+    if (options.signal?.aborted) {
+      return { status: 'cancelled', moves: [], statesExplored };
+    }
+    // Capped on discovered states, which bounds memory as well as time
+    if (visits.size >= maxStates) {
+      return { status: 'limit', moves: [], statesExplored };
+    }
+
+    const node = queue.pop()!;
+    const visit = visits.get(node.key)!;
+
+    // Skip stale queue entries superseded by a shorter path
+    if (visit.closed || node.depth > visit.depth) continue;
+    visit.closed = true;
+    statesExplored++;
+
+    if (node.state.isSolved()) {
+      return { status: 'solved', moves: buildPath(visits, node.key), statesExplored };
+    }
+
+    for (const move of node.state.getLegalMoves()) {
+      const next = node.state.applyMove(move);
+      const key = next.getKey();
+      const depth = node.depth + 1;
+
+      const known = visits.get(key);
+      if (known && (known.closed || known.depth <= depth)) continue;
+
+      visits.set(key, { depth, parentKey: node.key, move, closed: false });
+      queue.push({ state: next, key, depth, priority: depth + heuristic(next), order: order++ });
+    }
+
+    if (statesExplored % yieldInterval === 0) {
+      yield;
+    }
+  }
+
+  return { status: 'unsolvable', moves: [], statesExplored };
+}
+
+/**
+ * Walk parent links back from a solved state to recover the move sequence
+ */
+function buildPath(visits: Map<string, VisitRecord>, key: string): BoardMove[] {
+  const moves: BoardMove[] = [];
+  let visit = visits.get(key);
+
+  while (visit && visit.move) {
+    moves.push(visit.move);
+    visit = visit.parentKey !== null ? visits.get(visit.parentKey) : undefined;
+  }
+
+  return moves.reverse();
+}
+
+/**
+ * Solve a board synchronously
+ */
+export function solveBoard(board: BoardState, options: SolverOptions = {}): SolverResult {
+  const run = search(board, options);
+  let step = run.next();
+  while (!step.done) {
+    step = run.next();
+  }
+  return step.value;
+}
+
+/**
+ * Solve a board without blocking the event loop; aborting `signal` stops the
+ * search at its next yield
+ */
+export async function solveBoardAsync(board: BoardState, options: SolverOptions = {}): Promise<SolverResult> {
+  const run = search(board, options);
+  let step = run.next();
+  while (!step.done) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    step = run.next();
+  }
+  return step.value;
+}
+
+/**
+ * Solve a level from its starting layout
+ */
+export function solveLevel(level: LevelData, options: SolverOptions = {}): SolverResult {
+  return solveBoard(BoardState.fromLevel(level), options);
+}
+
+/**
+ * Solve a level from its starting layout without blocking the event loop
+ */
+export function solveLevelAsync(level: LevelData, options: SolverOptions = {}): Promise<SolverResult> {
+  return solveBoardAsync(BoardState.fromLevel(level), options);
+}
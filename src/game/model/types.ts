@@ -0,0 +1,9 @@
+/**
+ * Board coordinates shared by the headless model and the Phaser entities
+ */
+export interface GridPosition {
+  row: number;
+  col: number;
+}
+
+export type ExitSide = 'top' | 'bottom' | 'left' | 'right';
@@ -1,7 +1,11 @@
 import Phaser from 'phaser';
+import { Replay } from '../systems/ReplayRecorder';
+import { GameSceneData } from './GameScene';
 
 interface DefeatData {
   level: number;
+  replay?: Replay;
+  play?: GameSceneData; // Starts the same level again
 }
 
 export class DefeatScene extends Phaser.Scene {
@@ -23,7 +27,7 @@ export class DefeatScene extends Phaser.Scene {
 
     // Defeat panel
     const panelWidth = Math.min(400, width * 0.9);
-    const panelHeight = 300;
+    const panelHeight = data.replay ? 350 : 300;
     const panelX = centerX - panelWidth / 2;
     const panelY = centerY - panelHeight / 2;
 
@@ -65,14 +69,29 @@ export class DefeatScene extends Phaser.Scene {
     // Buttons
     const buttonsY = panelY + panelHeight - 70;
 
+    const play = data.play ?? { level: data.level };
+
+    // Review where the attempt got stuck
+    if (data.replay) {
+      const replay = data.replay;
+      this.createButton(centerX, buttonsY - 60, 150, 'REPLAY', 0x9b59b6, () => {
+        this.scene.start('ReplayScene', { replay, play });
+      });
+    }
+
     // Retry button
     this.createButton(centerX - 70, buttonsY, 120, 'RETRY', 0x3498db, () => {
-      this.scene.start('GameScene', { level: data.level });
+      this.scene.start('GameScene', play);
     });
 
-    // Exit to level 1 button
-    this.createButton(centerX + 70, buttonsY, 120, 'EXIT', 0x95a5a6, () => {
-      this.scene.start('GameScene', { level: 1 });
+    // Exit to level 1 button (or back to the editor when test-playing)
+    const returnTo = play.returnTo;
+    this.createButton(centerX + 70, buttonsY, 120, returnTo ? 'EDIT' : 'EXIT', 0x95a5a6, () => {
+      if (returnTo) {
+        this.scene.start(returnTo, { levelData: play.customLevel });
+      } else {
+        this.scene.start('GameScene', { level: 1 });
+      }
     });
   }
 
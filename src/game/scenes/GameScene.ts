@@ -2,31 +2,69 @@ import Phaser from 'phaser';
 import { Grid } from '../entities/Grid';
 import { Block } from '../entities/Block';
 import { ExitZone } from '../entities/ExitZone';
-import { DragController } from '../systems/DragController';
+import { LockTile } from '../entities/LockTile';
+import { PatrolTile } from '../entities/PatrolTile';
+import { BlockLink } from '../entities/BlockLink';
+import { createLevelBoard, createBlockLinks } from '../systems/LevelBuilder';
+import { DragController, LinkedDrag } from '../systems/DragController';
 import { CollisionDetector } from '../systems/CollisionDetector';
-import { getLevel } from '../data/levels';
+import { MoveHistory, MoveRecord } from '../systems/MoveHistory';
+import { ReplayRecorder, ReplayAction, ReplayEventDetails } from '../systems/ReplayRecorder';
+import { getLevel, getBlockLink, isCrate, LevelData, BlockData, CRATE, DEFAULT_HINT_LIMIT } from '../data/levels';
+import { decodeLevel, encodeLevel } from '../data/levelCode';
+import { ShapeType, useLevelShapes } from '../data/shapes';
+import { GridPosition } from '../model/types';
+import { solveLevelAsync, solveBoardAsync } from '../model/Solver';
+import { BoardMove } from '../model/BoardState';
+
+/**
+ * What to play: a built-in level by number, or a custom level (editor, shared code)
+ */
+export interface GameSceneData {
+  level?: number;
+  customLevel?: LevelData;
+  levelCode?: string; // Encoded custom level, e.g. from a shared link
+  returnTo?: string; // Scene to go back to when done, e.g. the level editor
+}
 
 export class GameScene extends Phaser.Scene {
   // Game entities
   private grid!: Grid;
   private blocks: Block[] = [];
   private exitZones: ExitZone[] = [];
+  private lockTiles: LockTile[] = [];
+  private patrolTiles: PatrolTile[] = [];
+  private blockLinks: BlockLink[] = [];
   private dragController!: DragController;
   private collisionDetector!: CollisionDetector;
+  private history: MoveHistory = new MoveHistory();
+  private recorder: ReplayRecorder = new ReplayRecorder(1);
 
   // Game state
   private currentLevel: number = 1;
+  private customLevel?: LevelData;
+  private returnTo?: string;
   private timer: number = 0;
   private moveCount: number = 0;
   private isGameActive: boolean = false;
   private isPaused: boolean = false;
   private timerStarted: boolean = false;
+  private par?: number; // Optimal move count, once the solver has found it
+  private hintsUsed: number = 0;
+  private hintController?: AbortController; // Set while a hint is being solved
+  private hintGhosts: Phaser.GameObjects.Graphics[] = []; // The hinted block first, then any linked to it
 
   // UI elements
   private timerText!: Phaser.GameObjects.Text;
   private levelText!: Phaser.GameObjects.Text;
   private moveText!: Phaser.GameObjects.Text;
   private restartButton!: Phaser.GameObjects.Graphics;
+  private undoButton!: Phaser.GameObjects.Graphics;
+  private redoButton!: Phaser.GameObjects.Graphics;
+  private hintButton!: Phaser.GameObjects.Graphics;
+  private hintText!: Phaser.GameObjects.Text;
+  private hintBadgeText!: Phaser.GameObjects.Text;
+  private hintMessage?: Phaser.GameObjects.Text;
 
   // Timer event
   private timerEvent?: Phaser.Time.TimerEvent;
@@ -35,18 +73,32 @@ export class GameScene extends Phaser.Scene {
     super({ key: 'GameScene' });
   }
 
-  create(data?: { level?: number }): void {
+  create(data?: GameSceneData): void {
     // Set current level
     if (data && data.level) {
       this.currentLevel = data.level;
     }
+    this.customLevel = data?.customLevel;
+    this.returnTo = data?.returnTo;
+    if (!this.customLevel && data?.levelCode) {
+      try {
+        this.customLevel = decodeLevel(data.levelCode);
+      } catch (error) {
+        this.showError(`Invalid level link: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+    }
+    if (this.customLevel) {
+      this.currentLevel = this.customLevel.id;
+    }
 
     // Load level data
-    const levelData = getLevel(this.currentLevel);
+    const levelData = this.getLevelData();
     if (!levelData) {
       console.error(`Level ${this.currentLevel} not found`);
       return;
     }
+    useLevelShapes(levelData.shapes);
 
     // Initialize game state
     this.timer = levelData.timeLimit;
@@ -56,88 +108,50 @@ export class GameScene extends Phaser.Scene {
     this.timerStarted = false;
     this.blocks = [];
     this.exitZones = [];
+    this.lockTiles = [];
+    this.patrolTiles = [];
+    this.blockLinks = [];
+    this.par = undefined;
+    this.history = new MoveHistory();
+    this.recorder = new ReplayRecorder(this.currentLevel, this.customLevel && encodeLevel(this.customLevel));
+    this.hintsUsed = 0;
+    this.hintController = undefined;
+    this.hintGhosts = [];
+    this.hintMessage = undefined;
+
+    // Solve the level in the background to find par for the star rating
+    this.computePar(levelData);
 
     // Create UI
     this.createUI();
 
-    // Calculate grid positioning
-    const gameWidth = this.cameras.main.width;
-    const gameHeight = this.cameras.main.height;
-    const uiTopHeight = 80;
-    const uiBottomHeight = 60;
-    const gridMaxWidth = gameWidth * 0.95;
-    const gridMaxHeight = gameHeight - uiTopHeight - uiBottomHeight;
-
-    // Create grid (with temporary position)
-    this.grid = new Grid({
-      scene: this,
-      rows: levelData.gridSize.rows,
-      cols: levelData.gridSize.cols,
-      x: 0,
-      y: 0,
-      maxWidth: gridMaxWidth,
-      maxHeight: gridMaxHeight * 0.95
-    });
-
-    // Calculate actual grid dimensions and center it
-    const actualGridWidth = this.grid.cols * this.grid.cellSize + this.grid.wallThickness * 2;
-    const actualGridHeight = this.grid.rows * this.grid.cellSize + this.grid.wallThickness * 2;
-
-    this.grid.x = (gameWidth - actualGridWidth) / 2;
-    this.grid.y = uiTopHeight + (gridMaxHeight - actualGridHeight) / 2;
-
-    // Render grid
-    this.grid.render();
-
-    // Create exit zones
-    levelData.exits.forEach(exitData => {
-      const exitZone = new ExitZone({
-        scene: this,
-        grid: this.grid,
-        color: exitData.color,
-        side: exitData.side,
-        startCell: exitData.startCell,
-        endCell: exitData.endCell
-      });
-      this.exitZones.push(exitZone);
-    });
-
-    // Create obstacles (render as dark gray blocks)
-    levelData.obstacles.forEach(obstaclePos => {
-      const worldPos = this.grid.gridToWorld(obstaclePos.row, obstaclePos.col);
-      const graphics = this.add.graphics();
-      graphics.fillStyle(0x2c3e50, 1);
-      graphics.fillRoundedRect(
-        worldPos.x + 2,
-        worldPos.y + 2,
-        this.grid.cellSize - 4,
-        this.grid.cellSize - 4,
-        this.grid.cellSize * 0.1
-      );
-    });
+    // Create grid, exit zones and obstacles
+    const board = createLevelBoard(this, levelData, { uiTopHeight: 80, uiBottomHeight: 60 });
+    this.grid = board.grid;
+    this.exitZones = board.exitZones;
+    this.lockTiles = board.lockTiles;
+    this.patrolTiles = board.patrolTiles;
 
     // Create collision detector
-    this.collisionDetector = new CollisionDetector(
-      this.grid,
-      this.blocks,
-      levelData.obstacles
-    );
+    this.collisionDetector = new CollisionDetector(this.grid, this.blocks);
 
     // Create blocks
     levelData.blocks.forEach((blockData, index) => {
-      const block = new Block({
-        scene: this,
-        grid: this.grid,
-        id: `block-${index}`,
-        color: blockData.color,
-        shape: blockData.shape,
-        gridPosition: blockData.startPosition
-      });
+      const block = this.createBlock(`block-${index}`, blockData.color, blockData.shape, blockData.startPosition);
       this.blocks.push(block);
     });
 
+    // Create crates (dragged like blocks, but they stay on the board)
+    (levelData.crates ?? []).forEach((crate, index) => {
+      this.blocks.push(this.createBlock(`crate-${index}`, CRATE, crate.shape, crate.startPosition));
+    });
+
+    // Chain linked blocks together
+    this.blockLinks = createBlockLinks(this, this.grid, levelData, id => this.blocks.find(b => b.id === id));
+
     // Update collision detector with blocks
     this.collisionDetector.setBlocks(this.blocks);
+    this.updateExits();
 
     // Create drag controller
     this.dragController = new DragController({
@@ -146,8 +160,10 @@ export class GameScene extends Phaser.Scene {
       blocks: this.blocks,
       exitZones: this.exitZones,
       collisionDetector: this.collisionDetector,
-      onMoveComplete: () => this.onMoveComplete(),
-      onBlockRemoved: (block) => this.onBlockRemoved(block),
+      onMoveComplete: (block, from, fromColor, unlocked, linked) => this.onMoveComplete(block, from, fromColor, unlocked, linked),
+      onBlockRemoved: (block, from, fromColor, unlocked, exit, linked) =>
+        this.onBlockRemoved(block, from, fromColor, unlocked, exit, linked),
+      onBlockRotated: (block, fromShape, from, fromColor) => this.onBlockRotated(block, fromShape, from, fromColor),
       onFirstInteraction: () => this.startTimer()
     });
 
@@ -155,6 +171,38 @@ export class GameScene extends Phaser.Scene {
     this.updateUI();
   }
 
+  /**
+   * Solve the level without blocking gameplay; cancelled if the scene shuts down
+   */
+  private computePar(levelData: LevelData): void {
+    const controller = new AbortController();
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => controller.abort());
+
+    solveLevelAsync(levelData, {
+      signal: controller.signal,
+      maxStates: 20000,
+      yieldInterval: 25 // Keep each slice well under a frame
+    }).then(result => {
+      if (result.status === 'solved') {
+        this.par = result.moves.length;
+      }
+    });
+  }
+
+  /**
+   * Level being played: the custom level if one was given, else the built-in one
+   */
+  private getLevelData(): LevelData | undefined {
+    return this.customLevel ?? getLevel(this.currentLevel);
+  }
+
+  /**
+   * Scene data that starts this same level again
+   */
+  private getPlayData(): GameSceneData {
+    return { level: this.currentLevel, customLevel: this.customLevel, returnTo: this.returnTo };
+  }
+
   /**
    * Create UI elements
    */
@@ -200,6 +248,64 @@ export class GameScene extends Phaser.Scene {
     );
     this.restartButton.on('pointerdown', () => this.restartLevel());
 
+    // Hint button (left of restart) with remaining-hints badge
+    this.hintButton = this.add.graphics();
+    this.hintButton.setInteractive(
+      new Phaser.Geom.Circle(width - 90, 40, 20),
+      Phaser.Geom.Circle.Contains
+    );
+    this.hintButton.on('pointerdown', () => this.showHint());
+
+    this.hintText = this.add.text(width - 90, 40, '?', {
+      fontSize: '22px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold'
+    }).setOrigin(0.5);
+
+    this.hintBadgeText = this.add.text(width - 75, 25, '', {
+      fontSize: '11px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold'
+    }).setOrigin(0.5);
+
+    // Back to the scene that launched a test play (e.g. the level editor)
+    if (this.returnTo) {
+      const returnTo = this.returnTo;
+      const backButton = this.add.graphics();
+      backButton.fillStyle(0x9b59b6, 1);
+      backButton.fillRoundedRect(width - 180, 22, 60, 36, 8);
+      backButton.setInteractive(
+        new Phaser.Geom.Rectangle(width - 180, 22, 60, 36),
+        Phaser.Geom.Rectangle.Contains
+      );
+      backButton.on('pointerdown', () => this.scene.start(returnTo, { levelData: this.customLevel }));
+
+      this.add.text(width - 150, 40, 'EDIT', {
+        fontSize: '14px',
+        color: '#ffffff',
+        fontFamily: 'Arial, sans-serif',
+        fontStyle: 'bold'
+      }).setOrigin(0.5);
+    }
+
+    // Undo / redo buttons (bottom left)
+    const buttonY = this.cameras.main.height - 30;
+    this.undoButton = this.add.graphics();
+    this.undoButton.setInteractive(
+      new Phaser.Geom.Circle(40, buttonY, 20),
+      Phaser.Geom.Circle.Contains
+    );
+    this.undoButton.on('pointerdown', () => this.undoMove());
+
+    this.redoButton = this.add.graphics();
+    this.redoButton.setInteractive(
+      new Phaser.Geom.Circle(90, buttonY, 20),
+      Phaser.Geom.Circle.Contains
+    );
+    this.redoButton.on('pointerdown', () => this.redoMove());
+
     // Move counter (bottom right)
     const movesBg = this.add.graphics();
     movesBg.fillStyle(0x34495e, 0.9);
@@ -239,6 +345,42 @@ export class GameScene extends Phaser.Scene {
     );
   }
 
+  /**
+   * Draw an undo (direction -1) or redo (direction 1) button icon
+   */
+  private drawHistoryButton(
+    button: Phaser.GameObjects.Graphics,
+    x: number,
+    direction: 1 | -1,
+    enabled: boolean
+  ): void {
+    const y = this.cameras.main.height - 30;
+    button.clear();
+
+    // Background circle
+    button.fillStyle(enabled ? 0x3498db : 0x95a5a6, enabled ? 1 : 0.6);
+    button.fillCircle(x, y, 20);
+
+    // Arc over the top, ending on the left for undo and the right for redo
+    button.lineStyle(2, 0xffffff, 1);
+    button.beginPath();
+    if (direction === -1) {
+      button.arc(x, y + 3, 9, 0, -Math.PI, true);
+    } else {
+      button.arc(x, y + 3, 9, Math.PI, Math.PI * 2, false);
+    }
+    button.strokePath();
+
+    // Arrow head pointing down at the end of the arc
+    const tipX = x + direction * 9;
+    button.fillStyle(0xffffff, 1);
+    button.fillTriangle(
+      tipX - 5, y + 3,
+      tipX + 5, y + 3,
+      tipX, y + 9
+    );
+  }
+
   /**
    * Update UI elements
    */
@@ -246,6 +388,30 @@ export class GameScene extends Phaser.Scene {
     this.timerText.setText(this.formatTime(this.timer));
     this.levelText.setText(`LEVEL\n${this.currentLevel}`);
     this.moveText.setText(`Moves: ${this.moveCount}`);
+    this.drawHistoryButton(this.undoButton, 40, -1, this.history.canUndo());
+    this.drawHistoryButton(this.redoButton, 90, 1, this.history.canRedo());
+    this.drawHintButton();
+  }
+
+  /**
+   * Draw hint button with a badge showing hints left
+   */
+  private drawHintButton(): void {
+    const x = this.cameras.main.width - 90;
+    const remaining = this.getHintsRemaining();
+    const enabled = remaining > 0;
+    this.hintButton.clear();
+
+    // Background circle
+    this.hintButton.fillStyle(enabled ? 0xf39c12 : 0x95a5a6, 1);
+    this.hintButton.fillCircle(x, 40, 20);
+
+    // Badge
+    this.hintButton.fillStyle(0xe74c3c, enabled ? 1 : 0.6);
+    this.hintButton.fillCircle(x + 15, 25, 9);
+
+    this.hintText.setAlpha(enabled ? 1 : 0.6);
+    this.hintBadgeText.setText(`${remaining}`);
   }
 
   /**
@@ -264,6 +430,7 @@ export class GameScene extends Phaser.Scene {
     if (this.timerStarted) return;
 
     this.timerStarted = true;
+    this.recorder.start(this.time.now);
     this.timerEvent = this.time.addEvent({
       delay: 1000,
       callback: this.onTimerTick,
@@ -295,31 +462,604 @@ export class GameScene extends Phaser.Scene {
   }
 
   /**
-   * Handle move completion
+   * Handle move completion (of a block and any blocks linked to it)
    */
-  private onMoveComplete(): void {
+  private onMoveComplete(block: Block, from: GridPosition, fromColor: string, unlocked: string[], linked: LinkedDrag[]): void {
+    this.cancelHint();
+    const move = this.createMoveRecord(block, from, fromColor, unlocked, false, linked);
+    this.stepPatrols(move);
+    this.history.record(move);
+    this.getRecords(move).forEach((record, index) => {
+      this.recordReplayEvent('move', record.blockId, record.from, record.to, {
+        color: this.getRecolor(record),
+        unlocked: record.unlocked,
+        linked: index > 0
+      });
+    });
     this.moveCount++;
+    this.updateMoveEffects();
     this.updateUI();
   }
 
   /**
-   * Handle block removal
+   * Handle block removal (of a block and any blocks linked to it)
    */
-  private onBlockRemoved(_block: Block): void {
+  private onBlockRemoved(
+    block: Block,
+    from: GridPosition,
+    fromColor: string,
+    unlocked: string[],
+    exit: ExitZone,
+    linked: LinkedDrag[]
+  ): void {
+    this.cancelHint();
+    const move = { ...this.createMoveRecord(block, from, fromColor, unlocked, true, linked), exitIndex: exit.index };
+    this.stepPatrols(move);
+    this.history.record(move);
+    this.getRecords(move).forEach((record, index) => {
+      this.recordReplayEvent('exit', record.blockId, record.from, record.to, {
+        color: this.getRecolor(record),
+        unlocked: record.unlocked,
+        linked: index > 0
+      });
+    });
     this.moveCount++;
+    this.updateMoveEffects();
     this.updateUI();
 
     // Check for win condition
-    if (this.blocks.length === 0) {
+    if (this.isCleared()) {
+      this.onLevelComplete();
+    }
+  }
+
+  /**
+   * Handle a block turned in place; counts as a move
+   */
+  private onBlockRotated(block: Block, fromShape: ShapeType, from: GridPosition, fromColor: string): void {
+    this.cancelHint();
+    const move = { ...this.createMoveRecord(block, from, fromColor, [], false), rotatedFrom: fromShape };
+    this.stepPatrols(move);
+    this.history.record(move);
+    this.recordReplayEvent('rotate', move.blockId, move.from, move.to, {
+      shape: move.shape,
+      color: this.getRecolor(move)
+    });
+    this.moveCount++;
+    this.updateMoveEffects();
+    this.updateUI();
+  }
+
+  /**
+   * Snapshot a finished move for the history, with a record for each block
+   * carried along through a link; locks open for the keys passed on the way
+   * (`unlocked`) and for a block that exits or stops on a key
+   */
+  private createMoveRecord(
+    block: Block,
+    from: GridPosition,
+    fromColor: string,
+    unlocked: string[],
+    exited: boolean,
+    linked: LinkedDrag[] = []
+  ): MoveRecord {
+    const move: MoveRecord = {
+      blockId: block.id,
+      color: block.color,
+      shape: block.shape,
+      from: { ...from },
+      to: { ...block.gridPosition },
+      exited
+    };
+    const opened = new Set(unlocked);
+    const unlockedHere = this.grid.board.getUnlockedBy(block.color, exited ? null : block.getOccupiedCells());
+    if (unlockedHere !== null) opened.add(unlockedHere);
+    if (opened.size > 0) move.unlocked = [...opened].sort();
+    if (fromColor !== block.color) move.recoloredFrom = fromColor;
+
+    if (linked.length > 0) {
+      move.linked = linked.map(drag => {
+        const record = this.createMoveRecord(drag.block, drag.from, drag.fromColor, drag.unlocked, exited);
+        if (drag.exit) record.exitIndex = drag.exit.index;
+        return record;
+      });
+
+      // Any block of the group stopping on scissors cuts the link
+      const cells = [block, ...linked.map(drag => drag.block)].flatMap(member => member.getOccupiedCells());
+      if (!exited && block.link !== null && this.grid.board.isOnScissors(cells)) {
+        move.cutLink = block.link;
+      }
+    }
+    return move;
+  }
+
+  /**
+   * Step the patrols once a move is on the board (after any locks it opens,
+   * as the model does) and keep where they stop on the move, so undo and
+   * redo can put them back
+   */
+  private stepPatrols(move: MoveRecord): void {
+    if (this.patrolTiles.length === 0) return;
+    const board = this.getRecords(move).reduce(
+      (state, record) => (record.unlocked ?? []).reduce((opened, color) => opened.withoutLocks(color), state),
+      this.grid.board
+    );
+    move.patrolSteps = board.advancePatrols().patrols.map(patrol => patrol.step);
+  }
+
+  /**
+   * A move's block record followed by those of any blocks linked to it
+   */
+  private getRecords(move: MoveRecord): MoveRecord[] {
+    return [move, ...(move.linked ?? [])];
+  }
+
+  /**
+   * Every block record of the moves currently applied
+   */
+  private getAppliedRecords(): MoveRecord[] {
+    return this.history.getMoves().flatMap(move => this.getRecords(move));
+  }
+
+  /**
+   * Color a move painted its block, for the replay (undefined if unchanged)
+   */
+  private getRecolor(move: MoveRecord): string | undefined {
+    return move.recoloredFrom !== undefined ? move.color : undefined;
+  }
+
+  /**
+   * Add an event to the session replay, timed from the timer start
+   */
+  private recordReplayEvent(
+    action: ReplayAction,
+    blockId: string,
+    from: GridPosition,
+    to: GridPosition,
+    details: ReplayEventDetails = {}
+  ): void {
+    this.recorder.record(action, blockId, from, to, this.time.now, details);
+  }
+
+  /**
+   * Check if every block has left (crates never do)
+   */
+  private isCleared(): boolean {
+    return this.blocks.every(block => isCrate(block.color));
+  }
+
+  /**
+   * Level definition of a block, from its `block-<index>` id
+   * (undefined for crates)
+   */
+  private getBlockData(id: string): BlockData | undefined {
+    if (!id.startsWith('block-')) return undefined;
+    const index = Number(id.slice('block-'.length));
+    return this.getLevelData()?.blocks[index];
+  }
+
+  /**
+   * Moves left before a frozen block thaws; each applied move counts, so
+   * undoing a move refreezes by one
+   */
+  private getFrozenMoves(id: string): number {
+    const frozen = this.getBlockData(id)?.frozen ?? 0;
+    return Math.max(0, frozen - this.history.getMoves().length);
+  }
+
+  /**
+   * Bring ice, links, locks, exits and patrols in line with the moves currently applied
+   */
+  private updateMoveEffects(): void {
+    this.updateIce();
+    this.updateLinks();
+    this.updateLocks();
+    this.updateExits();
+    this.updatePatrols();
+  }
+
+  /**
+   * Sync every block's ice with the moves made so far
+   */
+  private updateIce(): void {
+    this.blocks.forEach(block => {
+      const frozen = this.getFrozenMoves(block.id);
+      if (frozen !== block.frozen) {
+        block.setFrozen(frozen);
+      }
+    });
+  }
+
+  /**
+   * Link group a block is chained into, unless an applied move cut it
+   */
+  private getLink(id: string): number | null {
+    const levelData = this.getLevelData();
+    const link = levelData && id.startsWith('block-') ? getBlockLink(levelData, Number(id.slice('block-'.length))) : null;
+    return link !== null && !this.history.getMoves().some(move => move.cutLink === link) ? link : null;
+  }
+
+  /**
+   * Cut the links that an applied move stopped on scissors; undoing that
+   * move mends them
+   */
+  private updateLinks(): void {
+    const cut = new Set(this.history.getMoves().map(move => move.cutLink));
+    this.blockLinks.forEach(link => link.setIntact(!cut.has(link.index)));
+    this.blocks.forEach(block => block.setLink(this.getLink(block.id)));
+  }
+
+  /**
+   * Open the locks (and use up the keys) of every color unlocked by an
+   * applied move; undoing that move closes them again
+   */
+  private updateLocks(): void {
+    const unlocked = new Set(this.getAppliedRecords().flatMap(move => move.unlocked ?? []));
+    const locks = this.getLevelData()?.locks ?? [];
+    this.grid.setLocks(locks.filter(lock => !unlocked.has(lock.color.toLowerCase())));
+    this.lockTiles.forEach(tile => tile.setOpen(unlocked.has(tile.color.toLowerCase())));
+  }
+
+  /**
+   * Count the blocks each exit has taken so far, then show which exits are
+   * open and how much room they have left
+   */
+  private updateExits(): void {
+    const moves = this.getAppliedRecords();
+    this.grid.setExitUses(this.exitZones.map(exit => moves.filter(move => move.exitIndex === exit.index).length));
+    this.exitZones.forEach(exit => {
+      exit.setStatus(this.grid.board.isExitOpen(exit.index), this.grid.board.getExitCapacityLeft(exit.index));
+    });
+  }
+
+  /**
+   * Put every patrol where the latest applied move left it (on the first
+   * cell of its route before any move)
+   */
+  private updatePatrols(): void {
+    const moves = this.history.getMoves();
+    const steps = moves.length > 0 ? moves[moves.length - 1].patrolSteps : undefined;
+    const current = this.patrolTiles.map((_tile, index) => steps?.[index] ?? 0);
+    this.grid.setPatrolSteps(current);
+    this.patrolTiles.forEach((tile, index) => tile.setStep(current[index]));
+  }
+
+  /**
+   * Create a block entity on the grid
+   */
+  private createBlock(id: string, color: string, shape: ShapeType, position: GridPosition): Block {
+    return new Block({
+      scene: this,
+      grid: this.grid,
+      id,
+      color,
+      shape,
+      gridPosition: position,
+      rotatable: this.getBlockData(id)?.rotatable,
+      axis: this.getBlockData(id)?.axis,
+      frozen: this.getFrozenMoves(id),
+      link: this.getLink(id)
+    });
+  }
+
+  /**
+   * Check if the board can be driven from the HUD (not mid-drag or after the game ended)
+   */
+  private isBoardIdle(): boolean {
+    return this.isGameActive && !this.blocks.some(block => block.isDragging);
+  }
+
+  /**
+   * Undo the latest move, resurrecting the block if it had exited
+   */
+  private undoMove(): void {
+    if (!this.isBoardIdle()) return;
+
+    const move = this.history.undo();
+    if (!move) return;
+    this.cancelHint();
+
+    this.getRecords(move).forEach((record, index) => this.undoRecord(record, index > 0));
+
+    this.moveCount = Math.max(0, this.moveCount - 1);
+    this.applyUndoCost(this.getLevelData());
+    this.updateMoveEffects();
+    this.updateUI();
+  }
+
+  /**
+   * Put one block back where a move found it (`linked` when it was carried along)
+   */
+  private undoRecord(move: MoveRecord, linked: boolean): void {
+    const fromColor = move.recoloredFrom ?? move.color;
+    const color = move.recoloredFrom;
+    if (move.exited) {
+      const block = this.createBlock(move.blockId, fromColor, move.shape, move.from);
+      this.dragController.addBlock(block);
+      this.recordReplayEvent('restore', move.blockId, move.to, move.from, {
+        shape: move.shape,
+        color: fromColor,
+        undo: true,
+        linked
+      });
+    } else if (move.rotatedFrom !== undefined) {
+      const block = this.blocks.find(b => b.id === move.blockId);
+      block?.rotateTo(move.rotatedFrom, move.from);
+      block?.setColor(fromColor);
+      this.recordReplayEvent('rotate', move.blockId, move.to, move.from, {
+        shape: move.rotatedFrom,
+        color,
+        undo: true,
+        linked
+      });
+    } else {
+      const block = this.blocks.find(b => b.id === move.blockId);
+      block?.setGridPosition(move.from.row, move.from.col);
+      block?.setColor(fromColor);
+      this.recordReplayEvent('move', move.blockId, move.to, move.from, { color, undo: true, linked });
+    }
+  }
+
+  /**
+   * Redo the latest undone move
+   */
+  private redoMove(): void {
+    if (!this.isBoardIdle()) return;
+
+    // Check the move can be replayed before taking it off the redo stack
+    const move = this.history.peekRedo();
+    if (!move) return;
+    const records = this.getRecords(move);
+    if (!records.every(record => this.blocks.some(b => b.id === record.blockId))) return;
+
+    this.history.redo();
+    this.cancelHint();
+
+    this.moveCount++;
+    records.forEach((record, index) => this.redoRecord(record, index > 0));
+    this.updateMoveEffects();
+    this.updateUI();
+
+    if (move.exited && this.isCleared()) {
       this.onLevelComplete();
     }
   }
 
+  /**
+   * Move one block as a move did again (`linked` when it was carried along)
+   */
+  private redoRecord(move: MoveRecord, linked: boolean): void {
+    const block = this.blocks.find(b => b.id === move.blockId)!;
+    block.setColor(move.color);
+
+    if (move.rotatedFrom !== undefined) {
+      block.rotateTo(move.shape, move.to);
+      this.recordReplayEvent('rotate', move.blockId, move.from, move.to, {
+        shape: move.shape,
+        color: this.getRecolor(move),
+        linked
+      });
+      return;
+    }
+
+    this.recordReplayEvent(move.exited ? 'exit' : 'move', move.blockId, move.from, move.to, {
+      color: this.getRecolor(move),
+      linked
+    });
+
+    if (move.exited) {
+      block.removeBlock();
+      this.dragController.removeBlock(block);
+      return;
+    }
+
+    block.setGridPosition(move.to.row, move.to.col);
+  }
+
+  /**
+   * Hints left for the current level
+   */
+  private getHintsRemaining(): number {
+    const limit = this.getLevelData()?.hintLimit ?? DEFAULT_HINT_LIMIT;
+    return Math.max(0, limit - this.hintsUsed);
+  }
+
+  /**
+   * Solve from the current board and preview the next optimal move
+   */
+  private showHint(): void {
+    const levelData = this.getLevelData();
+    if (!levelData || !this.isBoardIdle()) return;
+    if (this.hintController || this.getHintsRemaining() <= 0) return;
+
+    this.clearHintGhost();
+
+    const controller = new AbortController();
+    this.hintController = controller;
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => controller.abort());
+
+    solveBoardAsync(this.grid.board, {
+      signal: controller.signal,
+      maxStates: 20000,
+      yieldInterval: 25
+    }).then(result => {
+      if (this.hintController !== controller) return; // Cancelled or superseded
+      this.hintController = undefined;
+
+      if (result.status !== 'solved' || result.moves.length === 0) {
+        this.showHintMessage(result.status === 'unsolvable' ? 'No way out from here - try undo' : 'No hint found');
+        return;
+      }
+
+      this.hintsUsed++;
+      this.updateUI();
+      this.playHintAnimation(result.moves[0]);
+    });
+  }
+
+  /**
+   * Stop any pending hint search and remove its preview
+   */
+  private cancelHint(): void {
+    if (this.hintController) {
+      this.hintController.abort();
+      this.hintController = undefined;
+    }
+    this.clearHintGhost();
+  }
+
+  private clearHintGhost(): void {
+    this.hintGhosts.forEach(ghost => {
+      this.tweens.killTweensOf(ghost);
+      ghost.destroy();
+    });
+    this.hintGhosts = [];
+  }
+
+  /**
+   * Slide a ghost of the block (and of any blocks linked to it) to its
+   * target, continuing out through the exit if it leaves
+   */
+  private playHintAnimation(move: BoardMove): void {
+    const block = this.blocks.find(b => b.id === move.blockId);
+    if (!block) return;
+
+    if (move.shape !== undefined) {
+      this.playRotationHint(block);
+      return;
+    }
+
+    const members = [block, ...this.blocks.filter(b => move.linked?.some(linked => linked.blockId === b.id))];
+    const ghosts = members.map(member => member.createGhost());
+    this.hintGhosts = ghosts;
+
+    // Linked ghosts travel by the same offset as the hinted one
+    const starts = ghosts.map(ghost => ({ x: ghost.x, y: ghost.y }));
+    const target = this.grid.gridToWorld(move.to.row, move.to.col);
+    const shift = { x: target.x - starts[0].x, y: target.y - starts[0].y };
+    const exitSide = move.exitIndex !== null ? this.getLevelData()?.exits[move.exitIndex]?.side : undefined;
+
+    // Past the exit: far enough to clear the wall and the blocks themselves
+    const bounds = members.map(member => member.getWorldBounds());
+    const width = Math.max(...bounds.map(b => b.right)) - Math.min(...bounds.map(b => b.left));
+    const height = Math.max(...bounds.map(b => b.bottom)) - Math.min(...bounds.map(b => b.top));
+    const travel = Math.max(width, height) + this.grid.wallThickness;
+    const exitOffset = {
+      top: { x: 0, y: -travel },
+      bottom: { x: 0, y: travel },
+      left: { x: -travel, y: 0 },
+      right: { x: travel, y: 0 }
+    };
+
+    const steps: Phaser.Types.Tweens.TweenBuilderConfig[] = [];
+    steps.push({ targets: ghosts, x: `+=${shift.x}`, y: `+=${shift.y}`, duration: 600, ease: 'Sine.easeInOut' });
+    if (exitSide) {
+      steps.push({
+        targets: ghosts,
+        x: `+=${exitOffset[exitSide].x}`,
+        y: `+=${exitOffset[exitSide].y}`,
+        alpha: 0,
+        duration: 400,
+        ease: 'Sine.easeIn'
+      });
+    }
+
+    // Play the preview twice, then clean up
+    let remainingPlays = 2;
+    const play = () => {
+      if (this.hintGhosts !== ghosts) return;
+      ghosts.forEach((ghost, index) => ghost.setPosition(starts[index].x, starts[index].y).setAlpha(1));
+      this.tweens.chain({
+        tweens: steps,
+        onComplete: () => {
+          remainingPlays--;
+          if (remainingPlays > 0) {
+            this.time.delayedCall(250, play);
+          } else {
+            this.clearHintGhost();
+          }
+        }
+      });
+    };
+    play();
+  }
+
+  /**
+   * Point out a block that should be turned: pulse a ghost over it and say how
+   */
+  private playRotationHint(block: Block): void {
+    const ghost = block.createGhost();
+    this.hintGhosts = [ghost];
+    this.showHintMessage(`Double-tap the ${block.color} block to rotate it`);
+
+    this.tweens.add({
+      targets: ghost,
+      alpha: 0.2,
+      duration: 400,
+      yoyo: true,
+      repeat: 2,
+      onComplete: () => {
+        if (this.hintGhosts[0] === ghost) {
+          this.clearHintGhost();
+        }
+      }
+    });
+  }
+
+  /**
+   * Show a short-lived message under the top bar
+   */
+  private showHintMessage(message: string): void {
+    this.hintMessage?.destroy();
+
+    const text = this.add.text(this.cameras.main.centerX, 95, message, {
+      fontSize: '16px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold',
+      backgroundColor: '#34495e',
+      padding: { x: 10, y: 6 }
+    }).setOrigin(0.5).setDepth(1100);
+    this.hintMessage = text;
+
+    this.tweens.add({
+      targets: text,
+      alpha: 0,
+      delay: 1500,
+      duration: 400,
+      onComplete: () => {
+        text.destroy();
+        if (this.hintMessage === text) {
+          this.hintMessage = undefined;
+        }
+      }
+    });
+  }
+
+  /**
+   * Charge the level's undo cost, if it has one
+   */
+  private applyUndoCost(levelData?: LevelData): void {
+    const cost = levelData?.undoCost;
+    if (!cost) return;
+
+    if (cost.kind === 'moves') {
+      this.moveCount += cost.amount;
+      return;
+    }
+
+    this.timer = Math.max(0, this.timer - cost.amount);
+    if (this.timer <= 0) {
+      this.onTimeUp();
+    }
+  }
+
   /**
    * Handle level completion (win)
    */
   private onLevelComplete(): void {
     this.isGameActive = false;
+    this.recorder.finish('won', this.time.now);
     if (this.timerEvent) {
       this.timerEvent.remove();
     }
@@ -330,7 +1070,11 @@ export class GameScene extends Phaser.Scene {
         level: this.currentLevel,
         timeTaken: this.getTimeTaken(),
         moves: this.moveCount,
-        timeLimit: getLevel(this.currentLevel)?.timeLimit || 0
+        timeLimit: this.getLevelData()?.timeLimit || 0,
+        par: this.par,
+        hintsUsed: this.hintsUsed,
+        replay: this.recorder.getReplay(),
+        play: this.getPlayData()
       });
     });
   }
@@ -340,6 +1084,7 @@ export class GameScene extends Phaser.Scene {
    */
   private onTimeUp(): void {
     this.isGameActive = false;
+    this.recorder.finish('lost', this.time.now);
     if (this.timerEvent) {
       this.timerEvent.remove();
     }
@@ -347,7 +1092,9 @@ export class GameScene extends Phaser.Scene {
     // Show defeat screen
     this.time.delayedCall(500, () => {
       this.scene.start('DefeatScene', {
-        level: this.currentLevel
+        level: this.currentLevel,
+        replay: this.recorder.getReplay(),
+        play: this.getPlayData()
       });
     });
   }
@@ -356,11 +1103,44 @@ export class GameScene extends Phaser.Scene {
    * Get time taken to complete level
    */
   private getTimeTaken(): number {
-    const levelData = getLevel(this.currentLevel);
+    const levelData = this.getLevelData();
     if (!levelData) return 0;
     return levelData.timeLimit - this.timer;
   }
 
+  /**
+   * Show an error instead of the board, with a way into the built-in levels
+   */
+  private showError(message: string): void {
+    const centerX = this.cameras.main.centerX;
+    const centerY = this.cameras.main.centerY;
+
+    this.add.text(centerX, centerY - 40, message, {
+      fontSize: '20px',
+      color: '#2c3e50',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold',
+      align: 'center',
+      wordWrap: { width: this.cameras.main.width * 0.8 }
+    }).setOrigin(0.5);
+
+    const playButton = this.add.graphics();
+    playButton.fillStyle(0x3498db, 1);
+    playButton.fillRoundedRect(centerX - 60, centerY + 10, 120, 40, 8);
+    playButton.setInteractive(
+      new Phaser.Geom.Rectangle(centerX - 60, centerY + 10, 120, 40),
+      Phaser.Geom.Rectangle.Contains
+    );
+    playButton.on('pointerdown', () => this.scene.restart({ level: 1 }));
+
+    this.add.text(centerX, centerY + 30, 'PLAY', {
+      fontSize: '16px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold'
+    }).setOrigin(0.5);
+  }
+
   /**
    * Restart current level
    */
@@ -368,7 +1148,7 @@ export class GameScene extends Phaser.Scene {
     if (this.timerEvent) {
       this.timerEvent.remove();
     }
-    this.scene.restart({ level: this.currentLevel });
+    this.scene.restart(this.getPlayData());
   }
 
   /**
@@ -385,6 +1165,8 @@ export class GameScene extends Phaser.Scene {
       this.grid.destroy();
     }
     this.exitZones.forEach(exit => exit.destroy());
+    this.lockTiles.forEach(tile => tile.destroy());
+    this.patrolTiles.forEach(tile => tile.destroy());
     this.blocks.forEach(block => block.destroy());
   }
 }
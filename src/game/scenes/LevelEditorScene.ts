@@ -0,0 +1,1441 @@
+import Phaser from 'phaser';
+import { Grid } from '../entities/Grid';
+import { GridPosition, ExitSide } from '../model/types';
+import { Block } from '../entities/Block';
+import { ExitZone } from '../entities/ExitZone';
+import { LockTile } from '../entities/LockTile';
+import { PatrolTile } from '../entities/PatrolTile';
+import { BlockLink } from '../entities/BlockLink';
+import { createLevelBoard, createBlockLinks } from '../systems/LevelBuilder';
+import {
+  LevelData,
+  BlockData,
+  BlockAxis,
+  CrateData,
+  ExitData,
+  WallData,
+  CRATE,
+  RAINBOW,
+  getLevels,
+  getBlockLink,
+  getObstacleCells,
+  getPortalCells,
+  isCrate,
+  isRainbow,
+  normalizeWall
+} from '../data/levels';
+import {
+  BASE_SHAPES,
+  ShapeDefinition,
+  ShapeType,
+  getShapeDefinition,
+  getShapeFamilies,
+  getShapeFamily,
+  getShapeOffsets,
+  getShapeVariants,
+  hasShape,
+  useLevelShapes
+} from '../data/shapes';
+import { parseLevelData, parseLevelPack } from '../data/levelFormat';
+import { getLevelShareUrl } from '../data/levelCode';
+import { validateLevel } from '../model/LevelValidator';
+import { solveLevelAsync } from '../model/Solver';
+import { GameSceneData } from './GameScene';
+
+type EditorTool = 'obstacle' | 'block' | 'exit' | 'lock' | 'paint' | 'link' | 'erase';
+
+interface LevelEditorData {
+  levelData?: LevelData; // Level to keep editing, e.g. after a test play
+}
+
+// What the obstacle tool makes of a floor cell; tapping steps through them in turn
+type CellKind = 'floor' | 'obstacle' | 'void';
+
+const NEXT_CELL_KIND: Record<CellKind, CellKind> = { floor: 'obstacle', obstacle: 'void', void: 'floor' };
+
+interface WallCell {
+  side: ExitSide;
+  cell: number;
+}
+
+const TOOLS: { tool: EditorTool; label: string }[] = [
+  { tool: 'obstacle', label: 'OBSTACLE' },
+  { tool: 'block', label: 'BLOCK' },
+  { tool: 'exit', label: 'EXIT' },
+  { tool: 'lock', label: 'LOCK' },
+  { tool: 'paint', label: 'PAINT' },
+  { tool: 'link', label: 'LINK' },
+  { tool: 'erase', label: 'ERASE' }
+];
+
+// Movement modes a double-tap cycles a block through
+const BLOCK_MODES: { label: string; rotatable: boolean; axis: BlockAxis; frozen: number }[] = [
+  { label: 'Block slides freely', rotatable: false, axis: 'free', frozen: 0 },
+  { label: 'Block can be rotated (double-tap in play)', rotatable: true, axis: 'free', frozen: 0 },
+  { label: 'Block slides horizontally only', rotatable: false, axis: 'horizontal', frozen: 0 },
+  { label: 'Block slides vertically only', rotatable: false, axis: 'vertical', frozen: 0 },
+  { label: 'Block is frozen for 2 moves', rotatable: false, axis: 'free', frozen: 2 },
+  { label: 'Block is frozen for 4 moves', rotatable: false, axis: 'free', frozen: 4 }
+];
+
+const MIN_GRID_SIZE = 3;
+const MAX_GRID_SIZE = 12;
+const MAX_EXIT_CAPACITY = 4;
+const EDITOR_COLORS = [...Object.keys(Block.colorMap), RAINBOW, CRATE]; // The crate swatch makes the block tool place crates
+const TIME_STEP = 15; // seconds
+const MAX_TIME_LIMIT = 600;
+const SHAPE_SLOTS = 16; // Two palette rows of eight base shapes
+const EDGE_REACH = 0.2; // Fraction of a cell near its side where the obstacle tool places walls
+
+/**
+ * Level editor: build a level on a live board, test-play it and export it as JSON
+ *
+ * The draft LevelData is the source of truth; the board is rebuilt from it after
+ * every edit, so what you see is exactly what GameScene will load.
+ */
+export class LevelEditorScene extends Phaser.Scene {
+  private static readonly UI_TOP_HEIGHT = 200;
+  private static readonly UI_BOTTOM_HEIGHT = 330;
+
+  // Level being edited
+  private draft!: LevelData;
+
+  // Board rendered from the draft
+  private grid?: Grid;
+  private exitZones: ExitZone[] = [];
+  private obstacleGraphics: Phaser.GameObjects.Graphics[] = [];
+  private paintGraphics: Phaser.GameObjects.Graphics[] = [];
+  private scissorsGraphics: Phaser.GameObjects.Graphics[] = [];
+  private portalGraphics: Phaser.GameObjects.Graphics[] = [];
+  private lockTiles: LockTile[] = [];
+  private patrolTiles: PatrolTile[] = [];
+  private blockLinks: BlockLink[] = [];
+  private blocks: Block[] = [];
+  private needsRebuild: boolean = false;
+
+  // Editing state
+  private tool: EditorTool = 'block';
+  private selectedShape: ShapeType = '1x2';
+  private selectedColor: string = 'red';
+  private paintValue: CellKind | null = null; // Cell kind being painted while the pointer is down
+  private exitStart: WallCell | null = null; // Set while an exit is being drawn
+  private exitEnd: number = 0;
+  private lastBlockTap: { index: number; time: number } | null = null; // Double-tap cycles block modes
+  private linkStart: number | null = null; // Block picked first with the link tool
+  private solveController?: AbortController;
+
+  // UI elements
+  private rowsText!: Phaser.GameObjects.Text;
+  private colsText!: Phaser.GameObjects.Text;
+  private timeText!: Phaser.GameObjects.Text;
+  private toolButtons: Phaser.GameObjects.Graphics[] = [];
+  private colorPalette!: Phaser.GameObjects.Graphics;
+  private shapePalette!: Phaser.GameObjects.Graphics;
+  private exitPreview!: Phaser.GameObjects.Graphics;
+  private statusText!: Phaser.GameObjects.Text;
+  private solveText!: Phaser.GameObjects.Text;
+  private message?: Phaser.GameObjects.Text;
+
+  constructor() {
+    super({ key: 'LevelEditorScene' });
+  }
+
+  create(data?: LevelEditorData): void {
+    this.draft = data?.levelData ? structuredClone(data.levelData) : this.createBlankLevel();
+    this.useDraftShapes();
+    this.grid = undefined;
+    this.exitZones = [];
+    this.obstacleGraphics = [];
+    this.paintGraphics = [];
+    this.scissorsGraphics = [];
+    this.portalGraphics = [];
+    this.lockTiles = [];
+    this.patrolTiles = [];
+    this.blockLinks = [];
+    this.blocks = [];
+    this.toolButtons = [];
+    this.paintValue = null;
+    this.exitStart = null;
+    this.lastBlockTap = null;
+    this.linkStart = null;
+    this.solveController = undefined;
+    this.message = undefined;
+
+    this.createTopBar();
+    this.createSettings();
+    this.createToolbar();
+    this.createPalettes();
+
+    this.exitPreview = this.add.graphics().setDepth(800);
+
+    this.input.on('pointerdown', (pointer: Phaser.Input.Pointer, over: Phaser.GameObjects.GameObject[]) => {
+      if (over.length === 0) {
+        this.onBoardPointerDown(pointer);
+      }
+    });
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => this.onBoardPointerMove(pointer));
+    this.input.on('pointerup', () => this.onBoardPointerUp());
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.solveController?.abort());
+
+    this.rebuildBoard();
+  }
+
+  update(): void {
+    // Edits made inside input callbacks rebuild here, once no handler still holds the old objects
+    if (this.needsRebuild) {
+      this.rebuildBoard();
+    }
+  }
+
+  /**
+   * Empty 6x6 level with the next free level ID
+   */
+  private createBlankLevel(): LevelData {
+    const lastId = Math.max(0, ...getLevels().map(level => level.id));
+    return {
+      id: lastId + 1,
+      gridSize: { rows: 6, cols: 6 },
+      timeLimit: 120,
+      blocks: [],
+      obstacles: [],
+      exits: []
+    };
+  }
+
+  /**
+   * Create the top bar: title and test/import/export actions
+   */
+  private createTopBar(): void {
+    const width = this.cameras.main.width;
+
+    const topBarBg = this.add.graphics();
+    topBarBg.fillStyle(0x34495e, 0.9);
+    topBarBg.fillRoundedRect(10, 10, width - 20, 60, 10);
+
+    this.add.text(30, 40, 'EDITOR', {
+      fontSize: '24px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold'
+    }).setOrigin(0, 0.5);
+
+    this.createButton(width - 450, 40, 85, 'SHARE', 0x9b59b6, () => this.shareLevel());
+    this.createButton(width - 355, 40, 85, 'EXIT', 0x95a5a6, () => {
+      this.scene.start('GameScene', { level: 1 });
+    });
+    this.createButton(width - 260, 40, 85, 'IMPORT', 0x9b59b6, () => this.importLevel());
+    this.createButton(width - 165, 40, 85, 'EXPORT', 0x9b59b6, () => this.exportLevel());
+    this.createButton(width - 70, 40, 85, 'TEST', 0x2ecc71, () => this.testLevel());
+  }
+
+  /**
+   * Create the rows, columns and time limit steppers
+   */
+  private createSettings(): void {
+    const width = this.cameras.main.width;
+
+    this.rowsText = this.createStepper(width / 6, 'ROWS', delta => this.resizeGrid(delta, 0));
+    this.colsText = this.createStepper(width / 2, 'COLS', delta => this.resizeGrid(0, delta));
+    this.timeText = this.createStepper(width * 5 / 6, 'TIME', delta => {
+      this.draft.timeLimit = Phaser.Math.Clamp(this.draft.timeLimit + delta * TIME_STEP, TIME_STEP, MAX_TIME_LIMIT);
+      this.needsRebuild = true;
+    });
+  }
+
+  /**
+   * Label, value and -/+ buttons; returns the value text
+   */
+  private createStepper(x: number, label: string, onStep: (delta: number) => void): Phaser.GameObjects.Text {
+    const y = 112;
+
+    this.add.text(x, y - 24, label, {
+      fontSize: '12px',
+      color: '#34495e',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold'
+    }).setOrigin(0.5);
+
+    const valueText = this.add.text(x, y, '', {
+      fontSize: '20px',
+      color: '#2c3e50',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold'
+    }).setOrigin(0.5);
+
+    [-1, 1].forEach(delta => {
+      const buttonX = x + delta * 60;
+      const button = this.add.graphics();
+      button.fillStyle(0x3498db, 1);
+      button.fillCircle(buttonX, y, 16);
+      button.fillStyle(0xffffff, 1);
+      button.fillRect(buttonX - 7, y - 2, 14, 4);
+      if (delta > 0) {
+        button.fillRect(buttonX - 2, y - 7, 4, 14);
+      }
+      button.setInteractive(new Phaser.Geom.Circle(buttonX, y, 18), Phaser.Geom.Circle.Contains);
+      button.on('pointerdown', () => onStep(delta));
+    });
+
+    return valueText;
+  }
+
+  /**
+   * Create the tool selector row
+   */
+  private createToolbar(): void {
+    TOOLS.forEach(({ tool, label }, index) => {
+      const bounds = this.getToolBounds(index);
+      const button = this.add.graphics();
+      button.setInteractive(bounds, Phaser.Geom.Rectangle.Contains);
+      button.on('pointerdown', () => {
+        this.tool = tool;
+        this.linkStart = null;
+        this.needsRebuild = true; // Blocks are only draggable with the block tool
+      });
+      this.toolButtons.push(button);
+
+      this.add.text(bounds.centerX, bounds.centerY, label, {
+        fontSize: '16px',
+        color: '#ffffff',
+        fontFamily: 'Arial, sans-serif',
+        fontStyle: 'bold'
+      }).setOrigin(0.5);
+    });
+  }
+
+  private getToolBounds(index: number): Phaser.Geom.Rectangle {
+    const slotWidth = this.cameras.main.width / TOOLS.length;
+    const width = Math.min(150, slotWidth - 10);
+    const x = slotWidth * (index + 0.5);
+    return new Phaser.Geom.Rectangle(x - width / 2, 145, width, 40);
+  }
+
+  /**
+   * Create the color and shape palettes under the board
+   */
+  private createPalettes(): void {
+    this.colorPalette = this.add.graphics();
+    this.colorPalette.setInteractive(
+      new Phaser.Geom.Rectangle(0, this.getColorRowY() - 25, this.cameras.main.width, 50),
+      Phaser.Geom.Rectangle.Contains
+    );
+    this.colorPalette.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      const index = Math.floor(pointer.x / (this.cameras.main.width / EDITOR_COLORS.length));
+      this.selectedColor = EDITOR_COLORS[Phaser.Math.Clamp(index, 0, EDITOR_COLORS.length - 1)];
+      this.drawPalettes();
+    });
+
+    this.shapePalette = this.add.graphics();
+    for (let index = 0; index < SHAPE_SLOTS; index++) {
+      const slot = this.getShapeSlot(index);
+      const zone = this.add.zone(slot.centerX, slot.centerY, slot.width, slot.height).setInteractive();
+      zone.on('pointerdown', () => this.selectShapeFamily(index));
+    }
+
+    const height = this.cameras.main.height;
+    const wrapWidth = this.cameras.main.width - 60;
+    this.statusText = this.add.text(30, height - 78, '', {
+      fontSize: '15px',
+      color: '#2c3e50',
+      fontFamily: 'Arial, sans-serif',
+      wordWrap: { width: wrapWidth }
+    }).setOrigin(0, 0.5);
+
+    this.solveText = this.add.text(30, height - 40, '', {
+      fontSize: '15px',
+      color: '#2c3e50',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold'
+    }).setOrigin(0, 0.5);
+  }
+
+  private getColorRowY(): number {
+    return this.cameras.main.height - LevelEditorScene.UI_BOTTOM_HEIGHT + 40;
+  }
+
+  /**
+   * Select the base shape in a palette slot; tapping the selected one again
+   * steps through its rotations and mirror images
+   */
+  private selectShapeFamily(index: number): void {
+    const family = getShapeFamilies()[index];
+    if (!family) return;
+
+    const variants = getShapeVariants(family);
+    const current = variants.indexOf(this.selectedShape);
+    this.selectedShape = current >= 0 ? variants[(current + 1) % variants.length] : variants[0];
+    this.tool = 'block';
+    this.needsRebuild = true;
+
+    if (variants.length > 1) {
+      this.showMessage(`${this.selectedShape} - tap again to rotate or mirror`);
+    }
+  }
+
+  /**
+   * Palette slot for a base shape: two rows of eight
+   */
+  private getShapeSlot(index: number): Phaser.Geom.Rectangle {
+    const slotWidth = (this.cameras.main.width - 40) / 8;
+    const top = this.getColorRowY() + 40;
+    return new Phaser.Geom.Rectangle(
+      20 + (index % 8) * slotWidth,
+      top + Math.floor(index / 8) * 80,
+      slotWidth,
+      76
+    );
+  }
+
+  /**
+   * Redraw settings, tools and palettes to match the current selection
+   */
+  private updateUI(): void {
+    this.rowsText.setText(`${this.draft.gridSize.rows}`);
+    this.colsText.setText(`${this.draft.gridSize.cols}`);
+    this.timeText.setText(`${this.draft.timeLimit}s`);
+
+    this.toolButtons.forEach((button, index) => {
+      const bounds = this.getToolBounds(index);
+      button.clear();
+      button.fillStyle(TOOLS[index].tool === this.tool ? 0x3498db : 0x95a5a6, 1);
+      button.fillRoundedRect(bounds.x, bounds.y, bounds.width, bounds.height, 8);
+    });
+
+    this.drawPalettes();
+  }
+
+  private drawPalettes(): void {
+    const width = this.cameras.main.width;
+    const colorY = this.getColorRowY();
+    const swatchSpacing = width / EDITOR_COLORS.length;
+
+    this.colorPalette.clear();
+    EDITOR_COLORS.forEach((color, index) => {
+      const x = swatchSpacing * (index + 0.5);
+      if (color === this.selectedColor) {
+        this.colorPalette.fillStyle(0x2c3e50, 1);
+        this.colorPalette.fillCircle(x, colorY, 24);
+      }
+      if (isRainbow(color)) {
+        // Rainbow swatch: a wheel of hue slices
+        const slices = 8;
+        for (let slice = 0; slice < slices; slice++) {
+          this.colorPalette.fillStyle(Block.getRainbowColor(slice / slices), 1);
+          this.colorPalette.slice(x, colorY, 19, (slice / slices) * Math.PI * 2, ((slice + 1) / slices) * Math.PI * 2);
+          this.colorPalette.fillPath();
+        }
+      } else if (isCrate(color)) {
+        this.colorPalette.fillStyle(Block.crateColor, 1);
+        this.colorPalette.fillRoundedRect(x - 15, colorY - 15, 30, 30, 4);
+      } else {
+        this.colorPalette.fillStyle(Block.colorMap[color], 1);
+        this.colorPalette.fillCircle(x, colorY, 19);
+      }
+    });
+
+    this.shapePalette.clear();
+    const colorValue = Block.getDisplayColor(this.selectedColor);
+    const selectedFamily = getShapeFamily(this.selectedShape);
+    getShapeFamilies().slice(0, SHAPE_SLOTS).forEach((family, index) => {
+      const slot = this.getShapeSlot(index);
+      const selected = family === selectedFamily;
+      // The selected slot previews the chosen orientation
+      const shape = selected ? this.selectedShape : getShapeVariants(family)[0];
+
+      this.shapePalette.fillStyle(selected ? 0x34495e : 0xffffff, selected ? 0.9 : 0.5);
+      this.shapePalette.fillRoundedRect(slot.x + 3, slot.y + 3, slot.width - 6, slot.height - 6, 8);
+
+      // Mini preview, centered in the slot
+      const cell = 14;
+      const offsets = getShapeOffsets(shape);
+      const shapeWidth = (Math.max(...offsets.map(o => o.col)) + 1) * cell;
+      const shapeHeight = (Math.max(...offsets.map(o => o.row)) + 1) * cell;
+      const left = slot.centerX - shapeWidth / 2;
+      const top = slot.centerY - shapeHeight / 2;
+
+      this.shapePalette.fillStyle(colorValue, 1);
+      offsets.forEach(offset => {
+        this.shapePalette.fillRect(left + offset.col * cell + 1, top + offset.row * cell + 1, cell - 2, cell - 2);
+      });
+    });
+  }
+
+  /**
+   * Recreate the board from the draft and re-check it
+   */
+  private rebuildBoard(): void {
+    this.needsRebuild = false;
+
+    this.blocks.forEach(block => block.destroy());
+    this.obstacleGraphics.forEach(graphics => graphics.destroy());
+    this.paintGraphics.forEach(graphics => graphics.destroy());
+    this.scissorsGraphics.forEach(graphics => graphics.destroy());
+    this.portalGraphics.forEach(graphics => graphics.destroy());
+    this.lockTiles.forEach(tile => tile.destroy());
+    this.patrolTiles.forEach(tile => tile.destroy());
+    this.blockLinks.forEach(link => link.destroy());
+    this.exitZones.forEach(exit => exit.destroy());
+    this.grid?.destroy();
+
+    const board = createLevelBoard(this, this.draft, {
+      uiTopHeight: LevelEditorScene.UI_TOP_HEIGHT,
+      uiBottomHeight: LevelEditorScene.UI_BOTTOM_HEIGHT
+    });
+    this.grid = board.grid;
+    this.exitZones = board.exitZones;
+    this.obstacleGraphics = board.obstacleGraphics;
+    this.paintGraphics = board.paintGraphics;
+    this.scissorsGraphics = board.scissorsGraphics;
+    this.portalGraphics = board.portalGraphics;
+    this.lockTiles = board.lockTiles;
+    this.patrolTiles = board.patrolTiles;
+
+    this.blocks = [
+      ...this.draft.blocks.map((_blockData, index) => this.createBlock(index)),
+      ...(this.draft.crates ?? []).map((_crate, index) => this.createCrate(index))
+    ];
+    this.blockLinks = createBlockLinks(this, board.grid, this.draft, id => this.blocks.find(b => b.id === id));
+    this.exitZones.forEach(exit => {
+      exit.setStatus(board.grid.board.isExitOpen(exit.index), board.grid.board.getExitCapacityLeft(exit.index));
+    });
+    this.syncDraftShapes();
+
+    this.updateUI();
+    this.checkLevel();
+  }
+
+  /**
+   * Register the draft's custom shapes in place of the previous level's
+   */
+  private useDraftShapes(): void {
+    useLevelShapes(this.draft.shapes);
+    if (!hasShape(this.selectedShape)) {
+      this.selectedShape = '1x2';
+    }
+  }
+
+  /**
+   * Declare exactly the custom shapes the draft's blocks, obstacles and crates
+   * use, so exports and share codes carry them
+   */
+  private syncDraftShapes(): void {
+    const builtIn = new Set(BASE_SHAPES.map(shape => shape.name));
+    const shapes = [
+      ...this.draft.blocks.map(block => block.shape),
+      ...this.draft.obstacles.flatMap(obstacle => (obstacle.shape !== undefined ? [obstacle.shape] : [])),
+      ...(this.draft.crates ?? []).map(crate => crate.shape),
+      ...(this.draft.portals ?? []).flatMap(portal => (portal.shape !== undefined ? [portal.shape] : []))
+    ];
+    const families = new Set(shapes.map(getShapeFamily));
+    const definitions = [...families]
+      .filter(family => !builtIn.has(family))
+      .map(family => getShapeDefinition(family))
+      .filter((definition): definition is ShapeDefinition => definition !== undefined);
+
+    if (definitions.length > 0) {
+      this.draft.shapes = definitions;
+    } else {
+      delete this.draft.shapes;
+    }
+  }
+
+  /**
+   * Create the block for draft.blocks[index], draggable with the block tool
+   */
+  private createBlock(index: number): Block {
+    const grid = this.grid!;
+    const blockData = this.draft.blocks[index];
+    const block = new Block({
+      scene: this,
+      grid,
+      id: `block-${index}`,
+      color: blockData.color,
+      shape: blockData.shape,
+      gridPosition: blockData.startPosition,
+      rotatable: blockData.rotatable,
+      axis: blockData.axis,
+      frozen: blockData.frozen,
+      link: getBlockLink(this.draft, index)
+    });
+    if (index === this.linkStart) {
+      block.setAlpha(0.6);
+    }
+
+    block.on('pointerdown', () => {
+      if (this.tool === 'erase') {
+        this.keepBlocks((_block, other) => other !== index);
+        this.needsRebuild = true;
+      } else if (this.tool === 'block') {
+        this.onBlockTap(index);
+      } else if (this.tool === 'link') {
+        this.onLinkTap(index);
+      }
+    });
+
+    if (this.tool === 'block') {
+      this.enableDrag(block, blockData);
+    }
+
+    return block;
+  }
+
+  /**
+   * Create the crate for draft.crates[index], draggable with the block tool
+   */
+  private createCrate(index: number): Block {
+    const crate = this.draft.crates![index];
+    const block = new Block({
+      scene: this,
+      grid: this.grid!,
+      id: `crate-${index}`,
+      color: CRATE,
+      shape: crate.shape,
+      gridPosition: crate.startPosition
+    });
+
+    block.on('pointerdown', () => {
+      if (this.tool === 'erase') {
+        this.keepCrates((_crate, other) => other !== index);
+        this.needsRebuild = true;
+      }
+    });
+
+    if (this.tool === 'block') {
+      this.enableDrag(block, crate);
+    }
+
+    return block;
+  }
+
+  /**
+   * Let a block or crate be dragged to a new start position
+   */
+  private enableDrag(block: Block, piece: { startPosition: GridPosition }): void {
+    const grid = this.grid!;
+    this.input.setDraggable(block);
+    block.on('dragstart', () => block.setDepth(1000));
+    block.on('drag', (_pointer: Phaser.Input.Pointer, dragX: number, dragY: number) => {
+      block.setWorldPosition(dragX, dragY);
+    });
+    block.on('dragend', () => {
+      const position = grid.worldToGrid(block.x, block.y);
+      if (grid.board.canPlace(block.shapeOffsets, position, block.id)) {
+        piece.startPosition = position;
+      }
+      this.needsRebuild = true; // Snaps back when the drop is not allowed
+    });
+  }
+
+  /**
+   * Double-tapping a block with the block tool cycles how players can move it
+   */
+  private onBlockTap(index: number): void {
+    const now = this.time.now;
+    if (!this.lastBlockTap || this.lastBlockTap.index !== index || now - this.lastBlockTap.time > 300) {
+      this.lastBlockTap = { index, time: now };
+      return;
+    }
+    this.lastBlockTap = null;
+
+    const blockData = this.draft.blocks[index];
+    const current = BLOCK_MODES.findIndex(mode =>
+      mode.rotatable === (blockData.rotatable ?? false) &&
+      mode.axis === (blockData.axis ?? 'free') &&
+      mode.frozen === (blockData.frozen ?? 0)
+    );
+    const mode = BLOCK_MODES[(current + 1) % BLOCK_MODES.length];
+
+    delete blockData.rotatable;
+    delete blockData.axis;
+    delete blockData.frozen;
+    if (mode.rotatable) blockData.rotatable = true;
+    if (mode.axis !== 'free') blockData.axis = mode.axis;
+    if (mode.frozen > 0) blockData.frozen = mode.frozen;
+
+    this.showMessage(mode.label);
+    this.needsRebuild = true;
+  }
+
+  /**
+   * With the link tool, tap one block and then another to chain them (joining
+   * their groups); tapping a block already chained to the first unlinks it
+   */
+  private onLinkTap(index: number): void {
+    const start = this.linkStart;
+    this.linkStart = null;
+    this.needsRebuild = true;
+    if (start === null) {
+      this.linkStart = index;
+      this.showMessage('Tap another block to link it to this one');
+      return;
+    }
+    if (start === index || !this.draft.blocks[start]) {
+      return;
+    }
+
+    const links = this.draft.links ?? [];
+    const startGroup = links.find(group => group.includes(start)) ?? [start];
+    if (startGroup.includes(index)) {
+      this.setLinks(links.map(group => group.filter(other => other !== index)));
+      this.showMessage('Block unlinked');
+      return;
+    }
+
+    const indexGroup = links.find(group => group.includes(index)) ?? [index];
+    const merged = [...startGroup, ...indexGroup];
+    this.setLinks([...links.filter(group => group !== startGroup && group !== indexGroup), merged]);
+    this.showMessage(`${merged.length} blocks move as one`);
+  }
+
+  /**
+   * Replace the draft's links, dropping groups of fewer than two blocks
+   */
+  private setLinks(links: number[][]): void {
+    const kept = links.filter(group => group.length > 1);
+    if (kept.length > 0) this.draft.links = kept; else delete this.draft.links;
+  }
+
+  /**
+   * Grid cell under a point, or null outside the playable area
+   */
+  private pointerToCell(x: number, y: number): GridPosition | null {
+    if (!this.grid) return null;
+    const bounds = this.grid.getPlayableBounds();
+    if (x < bounds.left || x >= bounds.right || y < bounds.top || y >= bounds.bottom) {
+      return null;
+    }
+    return {
+      row: Math.floor((y - bounds.top) / this.grid.cellSize),
+      col: Math.floor((x - bounds.left) / this.grid.cellSize)
+    };
+  }
+
+  /**
+   * Cell side close to a point, where a thin wall would go, or null when the
+   * point is nearer the middle of a cell
+   */
+  private pointerToEdge(x: number, y: number): WallData | null {
+    const cell = this.pointerToCell(x, y);
+    if (!cell || !this.grid) return null;
+
+    const bounds = this.grid.getPlayableBounds();
+    const fracX = (x - bounds.left) / this.grid.cellSize - cell.col;
+    const fracY = (y - bounds.top) / this.grid.cellSize - cell.row;
+    const distances: [WallData['side'], number][] = [
+      ['top', fracY], ['bottom', 1 - fracY], ['left', fracX], ['right', 1 - fracX]
+    ];
+    const [side, distance] = distances.reduce((best, next) => (next[1] < best[1] ? next : best));
+    return distance < EDGE_REACH ? { ...cell, side } : null;
+  }
+
+  /**
+   * Wall cell under a point (with some slack outside the wall), or null
+   */
+  private pointerToWall(x: number, y: number): WallCell | null {
+    if (!this.grid) return null;
+    const bounds = this.grid.getPlayableBounds();
+    const reach = this.grid.wallThickness + this.grid.cellSize / 2;
+    const col = Math.floor((x - bounds.left) / this.grid.cellSize);
+    const row = Math.floor((y - bounds.top) / this.grid.cellSize);
+    const colInRange = col >= 0 && col < this.draft.gridSize.cols;
+    const rowInRange = row >= 0 && row < this.draft.gridSize.rows;
+
+    if (colInRange && y < bounds.top && y >= bounds.top - reach) return { side: 'top', cell: col };
+    if (colInRange && y >= bounds.bottom && y < bounds.bottom + reach) return { side: 'bottom', cell: col };
+    if (rowInRange && x < bounds.left && x >= bounds.left - reach) return { side: 'left', cell: row };
+    if (rowInRange && x >= bounds.right && x < bounds.right + reach) return { side: 'right', cell: row };
+    return null;
+  }
+
+  private onBoardPointerDown(pointer: Phaser.Input.Pointer): void {
+    const cell = this.pointerToCell(pointer.x, pointer.y);
+    const wall = this.pointerToWall(pointer.x, pointer.y);
+
+    switch (this.tool) {
+      case 'obstacle': {
+        // Near a cell's side a tap toggles a thin wall; elsewhere it steps the cell's kind
+        const edge = this.pointerToEdge(pointer.x, pointer.y);
+        if (edge) {
+          this.toggleWall(edge);
+        } else if (cell) {
+          this.paintValue = NEXT_CELL_KIND[this.getCellKind(cell)];
+          this.setCellKind(cell, this.paintValue);
+        }
+        break;
+      }
+      case 'block':
+        if (cell) {
+          this.placeBlock(cell);
+        }
+        break;
+      case 'lock':
+        if (cell) {
+          this.cycleLock(cell);
+        }
+        break;
+      case 'paint':
+        if (cell) {
+          this.togglePaint(cell);
+        }
+        break;
+      case 'link':
+        if (cell) {
+          this.toggleScissors(cell);
+        }
+        break;
+      case 'exit':
+        if (wall) {
+          this.exitStart = wall;
+          this.exitEnd = wall.cell;
+          this.drawExitPreview();
+        }
+        break;
+      case 'erase': {
+        const edge = this.pointerToEdge(pointer.x, pointer.y);
+        if (edge && this.removeWall(edge)) {
+          break;
+        }
+        if (cell) {
+          this.setCellKind(cell, 'floor');
+          this.removeLockCells(cell);
+          this.removePaint(cell);
+          this.removeScissors(cell);
+        } else if (wall) {
+          this.removeExitAt(wall);
+        }
+        break;
+      }
+    }
+  }
+
+  private onBoardPointerMove(pointer: Phaser.Input.Pointer): void {
+    if (!pointer.isDown || !this.grid) return;
+
+    if (this.paintValue !== null) {
+      const cell = this.pointerToCell(pointer.x, pointer.y);
+      if (cell && this.getCellKind(cell) !== this.paintValue) {
+        this.setCellKind(cell, this.paintValue);
+      }
+    }
+
+    if (this.exitStart) {
+      // Follow the pointer along the side the exit started on
+      const bounds = this.grid.getPlayableBounds();
+      const horizontal = this.exitStart.side === 'top' || this.exitStart.side === 'bottom';
+      const offset = horizontal ? pointer.x - bounds.left : pointer.y - bounds.top;
+      const sideLength = horizontal ? this.draft.gridSize.cols : this.draft.gridSize.rows;
+      this.exitEnd = Phaser.Math.Clamp(Math.floor(offset / this.grid.cellSize), 0, sideLength - 1);
+      this.drawExitPreview();
+    }
+  }
+
+  private onBoardPointerUp(): void {
+    this.paintValue = null;
+
+    if (this.exitStart) {
+      this.addExit(this.exitStart.side, this.exitStart.cell, this.exitEnd);
+      this.exitStart = null;
+      this.exitPreview.clear();
+    }
+  }
+
+  /**
+   * Highlight the wall span of the exit being drawn
+   */
+  private drawExitPreview(): void {
+    this.exitPreview.clear();
+    if (!this.exitStart || !this.grid) return;
+
+    const bounds = this.grid.getPlayableBounds();
+    const size = this.grid.cellSize;
+    const wall = this.grid.wallThickness;
+    const start = Math.min(this.exitStart.cell, this.exitEnd);
+    const end = Math.max(this.exitStart.cell, this.exitEnd);
+    const length = (end - start + 1) * size;
+    // Exits sit on the outermost playable cells, inside the rectangle on a masked board
+    const edge = this.grid.board.getEdgeLine(this.exitStart.side, start, end);
+
+    const rects: Record<ExitSide, [number, number, number, number]> = {
+      top: [bounds.left + start * size, bounds.top + edge * size - wall, length, wall],
+      bottom: [bounds.left + start * size, bounds.top + (edge + 1) * size, length, wall],
+      left: [bounds.left + edge * size - wall, bounds.top + start * size, wall, length],
+      right: [bounds.left + (edge + 1) * size, bounds.top + start * size, wall, length]
+    };
+
+    this.exitPreview.fillStyle(Block.getDisplayColor(this.selectedColor), 0.8);
+    this.exitPreview.fillRect(...rects[this.exitStart.side]);
+  }
+
+  private coversCell(cells: GridPosition[], cell: GridPosition): boolean {
+    return cells.some(pos => pos.row === cell.row && pos.col === cell.col);
+  }
+
+  private isObstacle(cell: GridPosition): boolean {
+    return this.draft.obstacles.some(obstacle => this.coversCell(getObstacleCells(obstacle), cell));
+  }
+
+  /**
+   * Make a cell an obstacle, or clear it (a shaped obstacle goes as a whole)
+   */
+  private setObstacle(cell: GridPosition, obstacle: boolean): void {
+    if (this.isObstacle(cell) === obstacle) return;
+
+    if (obstacle) {
+      this.draft.obstacles.push({ ...cell });
+    } else {
+      this.draft.obstacles = this.draft.obstacles.filter(other => !this.coversCell(getObstacleCells(other), cell));
+    }
+    this.needsRebuild = true;
+  }
+
+  private isVoid(cell: GridPosition): boolean {
+    return this.draft.mask?.[cell.row]?.[cell.col] === '.';
+  }
+
+  private getCellKind(cell: GridPosition): CellKind {
+    if (this.isVoid(cell)) return 'void';
+    return this.isObstacle(cell) ? 'obstacle' : 'floor';
+  }
+
+  private setCellKind(cell: GridPosition, kind: CellKind): void {
+    this.setObstacle(cell, kind === 'obstacle');
+    this.setVoid(cell, kind === 'void');
+  }
+
+  /**
+   * Cut a cell out of the board (dropping anything on it) or put it back
+   */
+  private setVoid(cell: GridPosition, cut: boolean): void {
+    if (this.isVoid(cell) === cut) return;
+
+    const { rows, cols } = this.draft.gridSize;
+    const mask = Array.from({ length: rows }, (_row, index) => this.draft.mask?.[index] ?? 'X'.repeat(cols));
+    const row = [...mask[cell.row]];
+    row[cell.col] = cut ? '.' : 'X';
+    mask[cell.row] = row.join('');
+    this.setMask(mask);
+
+    if (cut) {
+      this.removeLockCells(cell);
+      this.removePaint(cell);
+      this.removeScissors(cell);
+      const clear = (piece: { shape: ShapeType; startPosition: GridPosition }) =>
+        !getShapeOffsets(piece.shape).some(offset =>
+          piece.startPosition.row + offset.row === cell.row && piece.startPosition.col + offset.col === cell.col
+        );
+      this.keepBlocks(clear);
+      this.keepCrates(clear);
+      this.showMessage('Cell cut out of the board - tap it again to restore it');
+    }
+    this.needsRebuild = true;
+  }
+
+  /**
+   * Store a mask, dropping it once every cell is playable again
+   */
+  private setMask(mask: string[]): void {
+    if (mask.some(row => row.includes('.'))) this.draft.mask = mask; else delete this.draft.mask;
+  }
+
+  /**
+   * Add a thin wall on a cell edge, or remove the one already there
+   */
+  private toggleWall(wall: WallData): void {
+    if (this.removeWall(wall)) return;
+
+    this.draft.walls = [...(this.draft.walls ?? []), { ...wall }];
+    this.showMessage('Blocks cannot slide across a wall - tap it again to remove it');
+    this.needsRebuild = true;
+  }
+
+  /**
+   * Remove the wall on a cell edge (named from either side); returns whether there was one
+   */
+  private removeWall(wall: WallData): boolean {
+    const edge = normalizeWall(wall);
+    const walls = (this.draft.walls ?? []).filter(other => {
+      const otherEdge = normalizeWall(other);
+      return otherEdge.row !== edge.row || otherEdge.col !== edge.col || otherEdge.side !== edge.side;
+    });
+    if (walls.length === (this.draft.walls ?? []).length) return false;
+
+    if (walls.length > 0) this.draft.walls = walls; else delete this.draft.walls;
+    this.needsRebuild = true;
+    return true;
+  }
+
+  /**
+   * Tapping a cell with the lock tool cycles it: empty -> lock -> key -> empty,
+   * in the selected color
+   */
+  private cycleLock(cell: GridPosition): void {
+    if (!this.hasBlockColor()) return;
+    const at = (pos: GridPosition) => pos.row === cell.row && pos.col === cell.col;
+    const hadLock = (this.draft.locks ?? []).some(at);
+    const hadKey = (this.draft.keys ?? []).some(at);
+    if (!hadLock && !hadKey && (this.isObstacle(cell) || this.isVoid(cell))) return;
+
+    this.removeLockCells(cell);
+    this.removePaint(cell);
+    const lockCell = { ...cell, color: this.selectedColor };
+    if (!hadLock && !hadKey) {
+      this.draft.locks = [...(this.draft.locks ?? []), lockCell];
+      this.showMessage(`Opens when a ${this.selectedColor} block exits or passes over a ${this.selectedColor} key`);
+    } else if (hadLock) {
+      this.draft.keys = [...(this.draft.keys ?? []), lockCell];
+      this.showMessage(`Key for ${this.selectedColor} locks`);
+    }
+    this.needsRebuild = true;
+  }
+
+  /**
+   * Remove any lock or key at a cell
+   */
+  private removeLockCells(cell: GridPosition): void {
+    const away = (pos: GridPosition) => pos.row !== cell.row || pos.col !== cell.col;
+    const locks = (this.draft.locks ?? []).filter(away);
+    const keys = (this.draft.keys ?? []).filter(away);
+    if (locks.length === (this.draft.locks ?? []).length && keys.length === (this.draft.keys ?? []).length) return;
+
+    if (locks.length > 0) this.draft.locks = locks; else delete this.draft.locks;
+    if (keys.length > 0) this.draft.keys = keys; else delete this.draft.keys;
+    this.needsRebuild = true;
+  }
+
+  /**
+   * Tapping a floor cell with the paint tool paints it the selected color;
+   * tapping paint of that color again removes it
+   */
+  private togglePaint(cell: GridPosition): void {
+    if (!this.hasBlockColor()) return;
+    const at = (pos: GridPosition) => pos.row === cell.row && pos.col === cell.col;
+    const existing = (this.draft.paints ?? []).find(at);
+    if (this.isObstacle(cell) || this.isVoid(cell) || (this.draft.locks ?? []).some(at) || (this.draft.keys ?? []).some(at)) return;
+
+    this.removePaint(cell);
+    if (existing?.color !== this.selectedColor) {
+      this.draft.paints = [...(this.draft.paints ?? []), { ...cell, color: this.selectedColor }];
+      this.showMessage(`Blocks passing over turn ${this.selectedColor}`);
+    }
+    this.needsRebuild = true;
+  }
+
+  /**
+   * Remove any paint at a cell
+   */
+  private removePaint(cell: GridPosition): void {
+    const paints = (this.draft.paints ?? []).filter(pos => pos.row !== cell.row || pos.col !== cell.col);
+    if (paints.length === (this.draft.paints ?? []).length) return;
+
+    if (paints.length > 0) this.draft.paints = paints; else delete this.draft.paints;
+    this.needsRebuild = true;
+  }
+
+  /**
+   * Tapping a floor cell with the link tool places scissors that cut links;
+   * tapping them again removes them
+   */
+  private toggleScissors(cell: GridPosition): void {
+    const at = (pos: GridPosition) => pos.row === cell.row && pos.col === cell.col;
+    if (this.isObstacle(cell) || this.isVoid(cell) || (this.draft.locks ?? []).some(at)) return;
+
+    this.linkStart = null;
+    if ((this.draft.scissors ?? []).some(at)) {
+      this.removeScissors(cell);
+      return;
+    }
+    this.draft.scissors = [...(this.draft.scissors ?? []), { ...cell }];
+    this.showMessage('Linked blocks stopping here come apart');
+    this.needsRebuild = true;
+  }
+
+  /**
+   * Remove any scissors at a cell
+   */
+  private removeScissors(cell: GridPosition): void {
+    const scissors = (this.draft.scissors ?? []).filter(pos => pos.row !== cell.row || pos.col !== cell.col);
+    if (scissors.length === (this.draft.scissors ?? []).length) return;
+
+    if (scissors.length > 0) this.draft.scissors = scissors; else delete this.draft.scissors;
+    this.needsRebuild = true;
+  }
+
+  /**
+   * Check that the selected color is one blocks can have (not the crate
+   * swatch), explaining why not otherwise
+   */
+  private hasBlockColor(): boolean {
+    if (!isCrate(this.selectedColor)) return true;
+    this.showMessage('Crates never exit - pick a color first');
+    return false;
+  }
+
+  /**
+   * Place the selected shape with its top-left at a cell: a block in the
+   * selected color, or a crate with the crate swatch
+   */
+  private placeBlock(cell: GridPosition): void {
+    if (!this.grid?.board.canPlace(getShapeOffsets(this.selectedShape), cell)) {
+      this.showMessage(`No room for a ${this.selectedShape} there`);
+      return;
+    }
+
+    if (isCrate(this.selectedColor)) {
+      this.draft.crates = [...(this.draft.crates ?? []), { shape: this.selectedShape, startPosition: { ...cell } }];
+      this.showMessage('Crates get in the way but never need to leave');
+      this.needsRebuild = true;
+      return;
+    }
+    this.draft.blocks.push({
+      color: this.selectedColor,
+      shape: this.selectedShape,
+      startPosition: { ...cell }
+    });
+    this.needsRebuild = true;
+  }
+
+  /**
+   * Add an exit in the selected color, replacing any exit it overlaps on that side
+   */
+  private addExit(side: ExitSide, from: number, to: number): void {
+    if (!this.hasBlockColor()) return;
+    const startCell = Math.min(from, to);
+    const endCell = Math.max(from, to);
+
+    // Tapping an exit of the selected color cycles its capacity instead
+    const tapped = this.draft.exits.find(exit =>
+      exit.side === side && exit.color === this.selectedColor && startCell === endCell &&
+      startCell >= exit.startCell && startCell <= exit.endCell
+    );
+    if (tapped) {
+      this.cycleExitCapacity(tapped);
+      return;
+    }
+
+    this.draft.exits = this.draft.exits.filter(exit =>
+      exit.side !== side || exit.endCell < startCell || exit.startCell > endCell
+    );
+    this.draft.exits.push({ color: this.selectedColor, side, startCell, endCell });
+    this.needsRebuild = true;
+  }
+
+  /**
+   * Cycle an exit through unlimited and 1 to MAX_EXIT_CAPACITY blocks
+   */
+  private cycleExitCapacity(exit: ExitData): void {
+    const capacity = (exit.capacity ?? 0) + 1;
+    if (capacity > MAX_EXIT_CAPACITY) {
+      delete exit.capacity;
+      this.showMessage('Exit takes any number of blocks');
+    } else {
+      exit.capacity = capacity;
+      this.showMessage(`Exit closes after ${capacity} block(s)`);
+    }
+    this.needsRebuild = true;
+  }
+
+  private removeExitAt(wall: WallCell): void {
+    const count = this.draft.exits.length;
+    this.draft.exits = this.draft.exits.filter(exit =>
+      exit.side !== wall.side || wall.cell < exit.startCell || wall.cell > exit.endCell
+    );
+    if (this.draft.exits.length !== count) {
+      this.needsRebuild = true;
+    }
+  }
+
+  /**
+   * Change the grid size, dropping anything that no longer fits
+   */
+  private resizeGrid(rowDelta: number, colDelta: number): void {
+    const rows = Phaser.Math.Clamp(this.draft.gridSize.rows + rowDelta, MIN_GRID_SIZE, MAX_GRID_SIZE);
+    const cols = Phaser.Math.Clamp(this.draft.gridSize.cols + colDelta, MIN_GRID_SIZE, MAX_GRID_SIZE);
+    if (rows === this.draft.gridSize.rows && cols === this.draft.gridSize.cols) return;
+
+    const fits = (row: number, col: number) => row < rows && col < cols;
+    const blockCount = this.draft.blocks.length;
+
+    this.draft.gridSize = { rows, cols };
+    this.draft.obstacles = this.draft.obstacles.filter(obstacle =>
+      getObstacleCells(obstacle).every(cell => fits(cell.row, cell.col))
+    );
+    if (this.draft.locks) this.draft.locks = this.draft.locks.filter(pos => fits(pos.row, pos.col));
+    if (this.draft.keys) this.draft.keys = this.draft.keys.filter(pos => fits(pos.row, pos.col));
+    if (this.draft.paints) this.draft.paints = this.draft.paints.filter(pos => fits(pos.row, pos.col));
+    if (this.draft.scissors) this.draft.scissors = this.draft.scissors.filter(pos => fits(pos.row, pos.col));
+    if (this.draft.walls) this.draft.walls = this.draft.walls.filter(wall => fits(wall.row, wall.col));
+    if (this.draft.portals) {
+      this.draft.portals = this.draft.portals.filter(portal =>
+        [portal.a, portal.b].every(end => getPortalCells(end, portal.shape).every(cell => fits(cell.row, cell.col)))
+      );
+    }
+    if (this.draft.patrols) {
+      this.draft.patrols = this.draft.patrols.filter(patrol => patrol.path.every(pos => fits(pos.row, pos.col)));
+    }
+    if (this.draft.plates) {
+      this.draft.plates = this.draft.plates
+        .filter(plate => fits(plate.row, plate.col))
+        .map(plate => ({ ...plate, gates: plate.gates.filter(gate => fits(gate.row, gate.col)) }));
+    }
+    if (this.draft.mask) {
+      const mask = this.draft.mask;
+      this.setMask(Array.from({ length: rows }, (_row, index) => (mask[index] ?? '').padEnd(cols, 'X').slice(0, cols)));
+    }
+    this.draft.exits = this.draft.exits.filter(exit =>
+      exit.endCell < (exit.side === 'top' || exit.side === 'bottom' ? cols : rows)
+    );
+    const fitsPiece = (piece: { shape: ShapeType; startPosition: GridPosition }) =>
+      getShapeOffsets(piece.shape).every(offset =>
+        fits(piece.startPosition.row + offset.row, piece.startPosition.col + offset.col)
+      );
+    this.keepBlocks(fitsPiece);
+    this.keepCrates(fitsPiece);
+
+    const removed = blockCount - this.draft.blocks.length;
+    if (removed > 0) {
+      this.showMessage(`Removed ${removed} block(s) that no longer fit`);
+    }
+    this.needsRebuild = true;
+  }
+
+  /**
+   * Drop the draft's other blocks, renumbering the block indexes in exit orders and links
+   */
+  private keepBlocks(keep: (block: BlockData, index: number) => boolean): void {
+    const newIndexes = new Map<number, number>();
+    this.draft.blocks = this.draft.blocks.filter((block, index) => {
+      if (!keep(block, index)) return false;
+      newIndexes.set(index, newIndexes.size);
+      return true;
+    });
+
+    this.draft.exits.forEach(exit => {
+      if (!exit.order) return;
+      const order = exit.order.filter(index => newIndexes.has(index)).map(index => newIndexes.get(index)!);
+      if (order.length > 0) exit.order = order; else delete exit.order;
+    });
+    this.setLinks((this.draft.links ?? []).map(group =>
+      group.filter(index => newIndexes.has(index)).map(index => newIndexes.get(index)!)
+    ));
+    this.linkStart = null;
+  }
+
+  /**
+   * Drop the draft's other crates
+   */
+  private keepCrates(keep: (crate: CrateData, index: number) => boolean): void {
+    const crates = (this.draft.crates ?? []).filter(keep);
+    if (crates.length > 0) this.draft.crates = crates; else delete this.draft.crates;
+  }
+
+  /**
+   * Show layout problems and, when there are none, solve the level in the background
+   */
+  private checkLevel(): void {
+    this.solveController?.abort();
+    this.solveController = undefined;
+
+    const errors = validateLevel(this.draft, { checkSolvable: false })
+      .filter(issue => issue.severity === 'error');
+
+    if (this.draft.blocks.length === 0) {
+      this.statusText.setText('Add blocks with the BLOCK tool, then draw exits on the walls').setColor('#2c3e50');
+      this.solveText.setText('');
+      return;
+    }
+    if (errors.length > 0) {
+      const more = errors.length > 1 ? ` (+${errors.length - 1} more)` : '';
+      this.statusText.setText(`${errors[0].message}${more}`).setColor('#c0392b');
+      this.solveText.setText('');
+      return;
+    }
+
+    this.statusText.setText('No layout problems').setColor('#2c3e50');
+    this.solveText.setText('Solving...');
+
+    const controller = new AbortController();
+    this.solveController = controller;
+
+    solveLevelAsync(this.draft, {
+      signal: controller.signal,
+      maxStates: 20000,
+      yieldInterval: 25
+    }).then(result => {
+      if (this.solveController !== controller) return;
+      this.solveController = undefined;
+
+      switch (result.status) {
+        case 'solved':
+          this.solveText.setText(`Solvable in ${result.moves.length} moves`);
+          break;
+        case 'unsolvable':
+          this.solveText.setText('Not solvable');
+          break;
+        default:
+          this.solveText.setText('Too complex to check here - run validate-levels');
+      }
+    });
+  }
+
+  /**
+   * Play the draft in GameScene, coming back here afterwards
+   */
+  private testLevel(): void {
+    if (this.draft.blocks.length === 0) {
+      this.showMessage('Add at least one block first');
+      return;
+    }
+
+    const play: GameSceneData = {
+      customLevel: structuredClone(this.draft),
+      returnTo: 'LevelEditorScene'
+    };
+    this.scene.start('GameScene', play);
+  }
+
+  /**
+   * Copy a link that opens the draft straight into GameScene
+   */
+  private shareLevel(): void {
+    let url: string;
+    try {
+      url = getLevelShareUrl(this.draft);
+    } catch (error) {
+      this.showMessage(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    if (!navigator.clipboard) {
+      this.showMessage('Copying is not available here');
+      return;
+    }
+    navigator.clipboard.writeText(url).then(
+      () => this.showMessage('Level link copied'),
+      () => this.showMessage('Could not copy the level link')
+    );
+  }
+
+  /**
+   * Download the draft as LevelData JSON
+   */
+  private exportLevel(): void {
+    const json = JSON.stringify(this.draft, null, 2);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `level-${this.draft.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    this.showMessage(`Exported level-${this.draft.id}.json`);
+  }
+
+  /**
+   * Load LevelData JSON (or the first level of a level pack) from a file
+   */
+  private importLevel(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) return;
+
+      file.text().then(text => {
+        try {
+          const json: unknown = JSON.parse(text);
+          const isPack = typeof json === 'object' && json !== null && 'levels' in json;
+          const levels = isPack ? parseLevelPack(json, file.name).levels : [parseLevelData(json, file.name)];
+          if (levels.length === 0) {
+            throw new Error(`${file.name} has no levels`);
+          }
+
+          this.draft = levels[0];
+          this.useDraftShapes();
+          this.needsRebuild = true;
+          this.showMessage(levels.length > 1 ? `Loaded level ${levels[0].id} of ${levels.length}` : `Loaded level ${levels[0].id}`);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(message);
+          this.showMessage(message.split('\n').slice(0, 2).join(' '));
+        }
+      });
+    });
+
+    input.click();
+  }
+
+  /**
+   * Show a short-lived message under the toolbar
+   */
+  private showMessage(message: string): void {
+    this.message?.destroy();
+
+    const text = this.add.text(this.cameras.main.centerX, LevelEditorScene.UI_TOP_HEIGHT + 15, message, {
+      fontSize: '16px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold',
+      backgroundColor: '#34495e',
+      padding: { x: 10, y: 6 },
+      wordWrap: { width: this.cameras.main.width - 80 }
+    }).setOrigin(0.5).setDepth(1100);
+    this.message = text;
+
+    this.tweens.add({
+      targets: text,
+      alpha: 0,
+      delay: 2000,
+      duration: 400,
+      onComplete: () => {
+        text.destroy();
+        if (this.message === text) {
+          this.message = undefined;
+        }
+      }
+    });
+  }
+
+  /**
+   * Create a button
+   */
+  private createButton(
+    x: number,
+    y: number,
+    width: number,
+    text: string,
+    color: number,
+    callback: () => void
+  ): void {
+    const height = 40;
+    const graphics = this.add.graphics();
+
+    graphics.fillStyle(color, 1);
+    graphics.fillRoundedRect(x - width / 2, y - height / 2, width, height, 8);
+
+    const buttonText = this.add.text(x, y, text, {
+      fontSize: '16px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold'
+    }).setOrigin(0.5);
+
+    graphics.setInteractive(
+      new Phaser.Geom.Rectangle(x - width / 2, y - height / 2, width, height),
+      Phaser.Geom.Rectangle.Contains
+    );
+
+    graphics.on('pointerdown', callback);
+
+    // Hover effect
+    graphics.on('pointerover', () => {
+      buttonText.setScale(1.05);
+    });
+
+    graphics.on('pointerout', () => {
+      buttonText.setScale(1);
+    });
+  }
+}
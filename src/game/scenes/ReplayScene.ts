@@ -0,0 +1,765 @@
+import Phaser from 'phaser';
+import { Grid } from '../entities/Grid';
+import { Block } from '../entities/Block';
+import { ExitZone } from '../entities/ExitZone';
+import { LockTile } from '../entities/LockTile';
+import { PatrolTile } from '../entities/PatrolTile';
+import { BlockLink } from '../entities/BlockLink';
+import { GridPosition } from '../model/types';
+import { createLevelBoard, createBlockLinks } from '../systems/LevelBuilder';
+import { Replay, ReplayEvent, ReplayOutcome, decodeReplay, encodeReplay } from '../systems/ReplayRecorder';
+import { getLevel } from '../data/levels';
+import { decodeLevel } from '../data/levelCode';
+import { ShapeType, useLevelShapes } from '../data/shapes';
+import { BoardState } from '../model/BoardState';
+import { GameSceneData } from './GameScene';
+
+interface ReplayData {
+  replay?: Replay;
+  code?: string; // Encoded replay, e.g. from a shared link
+  play?: GameSceneData; // The session that was recorded, for custom levels and going back
+}
+
+/**
+ * Plays back a recorded session with play/pause, speed and scrubbing
+ */
+export class ReplayScene extends Phaser.Scene {
+  private static readonly SPEEDS = [0.5, 1, 2, 4];
+  private static readonly MOVE_DURATION = 200; // Snap animation at 1x, in ms
+
+  // Board
+  private replay!: Replay;
+  private play!: GameSceneData;
+  private initialBoard!: BoardState;
+  private grid!: Grid;
+  private exitZones: ExitZone[] = [];
+  private lockTiles: LockTile[] = [];
+  private patrolTiles: PatrolTile[] = [];
+  private blockLinks: BlockLink[] = [];
+  private blocks: Block[] = [];
+  private leavingBlocks: Block[] = []; // Still animating out through an exit
+
+  // Playback state
+  private playhead: number = 0; // Milliseconds into the replay
+  private nextEventIndex: number = 0;
+  private appliedMoves: number = 0; // Moves in effect at the playhead, for thawing ice
+  // Lock colors opened, exit used and link cut by each applied event
+  private moveEffects: {
+    unlocked: string[];
+    exitIndex: number | null;
+    cutLink: number | null;
+    patrolsBefore: number[]; // Patrol steps before the move the event belongs to
+    patrols: number[]; // Patrol steps once the event's blocks have moved
+  }[] = [];
+  private isPlaying: boolean = false;
+  private isScrubbing: boolean = false;
+  private speedIndex: number = 1;
+
+  // UI elements
+  private playButton!: Phaser.GameObjects.Graphics;
+  private speedText!: Phaser.GameObjects.Text;
+  private timeText!: Phaser.GameObjects.Text;
+  private scrubBar!: Phaser.GameObjects.Graphics;
+  private message?: Phaser.GameObjects.Text;
+
+  constructor() {
+    super({ key: 'ReplayScene' });
+  }
+
+  create(data: ReplayData): void {
+    this.exitZones = [];
+    this.lockTiles = [];
+    this.patrolTiles = [];
+    this.blockLinks = [];
+    this.blocks = [];
+    this.leavingBlocks = [];
+    this.playhead = 0;
+    this.nextEventIndex = 0;
+    this.isPlaying = false;
+    this.isScrubbing = false;
+    this.speedIndex = 1;
+    this.message = undefined;
+
+    let replay = data.replay;
+    if (!replay && data.code) {
+      try {
+        replay = decodeReplay(data.code);
+      } catch (error) {
+        this.showError(error instanceof Error ? error.message : String(error));
+        return;
+      }
+    }
+    if (!replay) {
+      this.showError('No replay to play');
+      return;
+    }
+
+    // Replays of custom levels carry the level code, since the id may not be a built-in level
+    let customLevel = data.play?.customLevel;
+    if (!customLevel && replay.levelCode !== undefined) {
+      try {
+        customLevel = decodeLevel(replay.levelCode);
+      } catch (error) {
+        this.showError(error instanceof Error ? error.message : String(error));
+        return;
+      }
+    }
+    const levelData = customLevel ?? getLevel(replay.levelId);
+    if (!levelData) {
+      this.showError(`Level ${replay.levelId} not found`);
+      return;
+    }
+
+    useLevelShapes(levelData.shapes);
+    const initialBoard = BoardState.fromLevel(levelData);
+    const unknown = replay.events.find(event => !initialBoard.getBlock(event.blockId));
+    if (unknown) {
+      this.showError(`Replay refers to unknown block "${unknown.blockId}"`);
+      return;
+    }
+
+    this.replay = replay;
+    this.play = data.play ?? { level: replay.levelId, customLevel };
+    this.initialBoard = initialBoard;
+
+    this.createTopBar();
+
+    // Create grid, exit zones and obstacles
+    const board = createLevelBoard(this, levelData, { uiTopHeight: 80, uiBottomHeight: 130 });
+    this.grid = board.grid;
+    this.exitZones = board.exitZones;
+    this.lockTiles = board.lockTiles;
+    this.patrolTiles = board.patrolTiles;
+    this.blockLinks = createBlockLinks(this, this.grid, levelData, id => this.blocks.find(b => b.id === id));
+
+    this.resetBlocks();
+    this.createControls();
+
+    this.isPlaying = replay.events.length > 0;
+    this.updateControls();
+  }
+
+  update(_time: number, delta: number): void {
+    if (!this.replay || !this.isPlaying || this.isScrubbing) return;
+
+    this.playhead = Math.min(this.replay.duration, this.playhead + delta * this.getSpeed());
+    this.applyEventsUntil(this.playhead, true);
+
+    if (this.playhead >= this.replay.duration) {
+      this.isPlaying = false;
+    }
+    this.updateControls();
+  }
+
+  /**
+   * Create the top bar: level, title with outcome, share and back buttons
+   */
+  private createTopBar(): void {
+    const centerX = this.cameras.main.centerX;
+    const width = this.cameras.main.width;
+
+    const topBarBg = this.add.graphics();
+    topBarBg.fillStyle(0x34495e, 0.9);
+    topBarBg.fillRoundedRect(10, 10, width - 20, 60, 10);
+
+    this.add.text(30, 25, `LEVEL\n${this.replay.levelId}`, {
+      fontSize: '16px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      align: 'center',
+      fontStyle: 'bold'
+    }).setOrigin(0, 0);
+
+    this.add.text(centerX, 22, this.describeOutcome(this.replay.outcome), {
+      fontSize: '12px',
+      color: '#bdc3c7',
+      fontFamily: 'Arial, sans-serif'
+    }).setOrigin(0.5);
+
+    this.add.text(centerX, 44, 'REPLAY', {
+      fontSize: '24px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold'
+    }).setOrigin(0.5);
+
+    this.createButton(width - 165, 40, 80, 'SHARE', 0x9b59b6, () => this.shareReplay());
+    this.createButton(width - 70, 40, 80, 'BACK', 0x3498db, () => {
+      this.scene.start('GameScene', this.play);
+    });
+  }
+
+  /**
+   * Create the bottom controls: scrub bar, play/pause, speed and time
+   */
+  private createControls(): void {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+    const controlsY = height - 40;
+
+    const controlsBg = this.add.graphics();
+    controlsBg.fillStyle(0x34495e, 0.9);
+    controlsBg.fillRoundedRect(10, height - 120, width - 20, 110, 10);
+
+    // Scrub bar with a tall hit area so it is easy to grab on touch screens
+    this.scrubBar = this.add.graphics();
+    const track = this.getScrubTrack();
+    this.scrubBar.setInteractive(
+      new Phaser.Geom.Rectangle(track.x, track.y - 15, track.width, 30),
+      Phaser.Geom.Rectangle.Contains
+    );
+    this.scrubBar.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      this.isScrubbing = true;
+      this.seekToPointer(pointer);
+    });
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => {
+      if (this.isScrubbing) {
+        this.seekToPointer(pointer);
+      }
+    });
+    this.input.on('pointerup', () => {
+      this.isScrubbing = false;
+    });
+
+    // Play / pause
+    this.playButton = this.add.graphics();
+    this.playButton.setInteractive(
+      new Phaser.Geom.Circle(50, controlsY, 22),
+      Phaser.Geom.Circle.Contains
+    );
+    this.playButton.on('pointerdown', () => this.togglePlay());
+
+    // Speed (cycles through SPEEDS)
+    const speedButton = this.add.graphics();
+    speedButton.fillStyle(0x95a5a6, 1);
+    speedButton.fillRoundedRect(90, controlsY - 20, 70, 40, 8);
+    speedButton.setInteractive(
+      new Phaser.Geom.Rectangle(90, controlsY - 20, 70, 40),
+      Phaser.Geom.Rectangle.Contains
+    );
+    speedButton.on('pointerdown', () => {
+      this.speedIndex = (this.speedIndex + 1) % ReplayScene.SPEEDS.length;
+      this.updateControls();
+    });
+
+    this.speedText = this.add.text(125, controlsY, '', {
+      fontSize: '18px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold'
+    }).setOrigin(0.5);
+
+    this.timeText = this.add.text(width - 30, controlsY, '', {
+      fontSize: '18px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold'
+    }).setOrigin(1, 0.5);
+  }
+
+  private getScrubTrack(): Phaser.Geom.Rectangle {
+    const width = this.cameras.main.width;
+    return new Phaser.Geom.Rectangle(40, this.cameras.main.height - 92, width - 80, 10);
+  }
+
+  /**
+   * Redraw play button, scrub bar, speed and time to match playback state
+   */
+  private updateControls(): void {
+    const controlsY = this.cameras.main.height - 40;
+    const track = this.getScrubTrack();
+    const duration = this.replay.duration;
+    const progress = duration > 0 ? this.playhead / duration : 1;
+
+    // Scrub bar: track, played portion, event ticks, handle
+    this.scrubBar.clear();
+    this.scrubBar.fillStyle(0x2c3e50, 1);
+    this.scrubBar.fillRoundedRect(track.x, track.y, track.width, track.height, 5);
+    this.scrubBar.fillStyle(0x3498db, 1);
+    this.scrubBar.fillRoundedRect(track.x, track.y, Math.max(track.height, track.width * progress), track.height, 5);
+    this.scrubBar.fillStyle(0xffffff, 0.5);
+    this.replay.events.forEach(event => {
+      const x = track.x + (duration > 0 ? event.time / duration : 0) * track.width;
+      this.scrubBar.fillRect(x - 1, track.y - 4, 2, 4);
+    });
+    this.scrubBar.fillStyle(0xffffff, 1);
+    this.scrubBar.fillCircle(track.x + track.width * progress, track.centerY, 10);
+
+    // Play / pause icon
+    this.playButton.clear();
+    this.playButton.fillStyle(0x3498db, 1);
+    this.playButton.fillCircle(50, controlsY, 22);
+    this.playButton.fillStyle(0xffffff, 1);
+    if (this.isPlaying) {
+      this.playButton.fillRect(50 - 8, controlsY - 9, 6, 18);
+      this.playButton.fillRect(50 + 2, controlsY - 9, 6, 18);
+    } else {
+      this.playButton.fillTriangle(
+        50 - 6, controlsY - 10,
+        50 - 6, controlsY + 10,
+        50 + 10, controlsY
+      );
+    }
+
+    this.speedText.setText(`${this.getSpeed()}x`);
+    this.timeText.setText(`${this.formatTime(this.playhead)} / ${this.formatTime(duration)}`);
+  }
+
+  private getSpeed(): number {
+    return ReplayScene.SPEEDS[this.speedIndex];
+  }
+
+  /**
+   * Play or pause; playing from the end starts over
+   */
+  private togglePlay(): void {
+    if (this.isPlaying) {
+      this.isPlaying = false;
+    } else {
+      if (this.playhead >= this.replay.duration) {
+        this.seek(0);
+      }
+      this.isPlaying = true;
+    }
+    this.updateControls();
+  }
+
+  private seekToPointer(pointer: Phaser.Input.Pointer): void {
+    const track = this.getScrubTrack();
+    const fraction = Phaser.Math.Clamp((pointer.x - track.x) / track.width, 0, 1);
+    this.seek(fraction * this.replay.duration);
+  }
+
+  /**
+   * Jump to a point in the replay by rebuilding the board from the start
+   */
+  private seek(time: number): void {
+    this.playhead = Phaser.Math.Clamp(time, 0, this.replay.duration);
+    this.resetBlocks();
+    this.applyEventsUntil(this.playhead, false);
+    this.updateControls();
+  }
+
+  /**
+   * Put every block back at its level start position
+   */
+  private resetBlocks(): void {
+    [...this.blocks, ...this.leavingBlocks].forEach(block => {
+      this.tweens.killTweensOf(block);
+      if (block.active) {
+        block.destroy();
+      }
+    });
+    this.blocks = [];
+    this.leavingBlocks = [];
+    this.nextEventIndex = 0;
+    this.appliedMoves = 0;
+    this.moveEffects = [];
+    this.updateLinks(false);
+    this.updateLocks(false);
+    this.updatePatrols(false);
+
+    this.initialBoard.blocks.forEach(boardBlock => {
+      this.blocks.push(this.createBlock(boardBlock.id, boardBlock.position));
+    });
+    this.updateExits();
+  }
+
+  /**
+   * Apply every event up to the given time, in order
+   */
+  private applyEventsUntil(time: number, animate: boolean): void {
+    const events = this.replay.events;
+    while (this.nextEventIndex < events.length && events[this.nextEventIndex].time <= time) {
+      this.applyEvent(events[this.nextEventIndex], animate);
+      this.nextEventIndex++;
+    }
+  }
+
+  private applyEvent(event: ReplayEvent, animate: boolean): void {
+    // Blocks carried along through a link are part of the move before them
+    if (!event.linked) {
+      this.appliedMoves += event.undo ? -1 : 1;
+    }
+    if (event.undo) {
+      this.moveEffects.pop();
+    } else {
+      // A linked event belongs to the move before it, so patrols still step once
+      const patrolsBefore = event.linked && this.moveEffects.length > 0
+        ? this.moveEffects[this.moveEffects.length - 1].patrolsBefore
+        : this.getPatrolSteps();
+      this.moveEffects.push({
+        unlocked: this.getUnlockedBy(event),
+        exitIndex: this.getExitIndex(event),
+        cutLink: this.getCutLink(event),
+        patrolsBefore,
+        patrols: patrolsBefore
+      });
+    }
+    this.applyBlockEvent(event, animate);
+    this.updateIce();
+    this.updateLinks(animate);
+    this.updateLocks(animate);
+    this.updateExits();
+    if (!event.undo) {
+      this.stepPatrols(event);
+    }
+    this.updatePatrols(animate);
+  }
+
+  /**
+   * Patrol steps at the playhead
+   */
+  private getPatrolSteps(): number[] {
+    const last = this.moveEffects[this.moveEffects.length - 1];
+    return last ? last.patrols : this.initialBoard.patrols.map(patrol => patrol.step);
+  }
+
+  /**
+   * Step the patrols from where they stood before a forward event's move,
+   * now that its blocks have moved and its locks opened
+   */
+  private stepPatrols(event: ReplayEvent): void {
+    const effect = this.moveEffects[this.moveEffects.length - 1];
+    if (!effect || effect.patrolsBefore.length === 0) return;
+    // An exiting block only leaves the grid once its animation ends
+    const board = event.action === 'exit' ? this.grid.board.withoutBlock(event.blockId) : this.grid.board;
+    effect.patrols = board.withPatrolSteps(effect.patrolsBefore).advancePatrols().patrols.map(patrol => patrol.step);
+  }
+
+  private updatePatrols(animate: boolean): void {
+    const steps = this.getPatrolSteps();
+    this.grid.setPatrolSteps(steps);
+    this.patrolTiles.forEach((tile, index) => tile.setStep(steps[index] ?? 0, animate));
+  }
+
+  /**
+   * Exit a forward exit event leaves through, checked before the block leaves
+   */
+  private getExitIndex(event: ReplayEvent): number | null {
+    if (event.action !== 'exit') return null;
+    return this.grid.board.findExitAt(event.blockId, event.to, event.color);
+  }
+
+  /**
+   * Link a forward move cuts by stopping its block on scissors, checked before the block moves
+   */
+  private getCutLink(event: ReplayEvent): number | null {
+    if (event.action !== 'move') return null;
+    const boardBlock = this.grid.board.getBlock(event.blockId);
+    if (!boardBlock || boardBlock.link === undefined) return null;
+    return this.grid.board.isOnScissors(this.grid.board.getBlockCells(boardBlock, event.to)) ? boardBlock.link : null;
+  }
+
+  /**
+   * Link group a block is chained into at the playhead, unless it was cut
+   */
+  private getLink(id: string): number | null {
+    const link = this.initialBoard.getBlock(id)?.link;
+    return link !== undefined && !this.moveEffects.some(effect => effect.cutLink === link) ? link : null;
+  }
+
+  private updateLinks(animate: boolean): void {
+    const cut = new Set(this.moveEffects.map(effect => effect.cutLink));
+    this.blockLinks.forEach(link => link.setIntact(!cut.has(link.index), animate));
+    this.blocks.forEach(block => block.setLink(this.getLink(block.id)));
+  }
+
+  private updateExits(): void {
+    this.grid.setExitUses(this.exitZones.map(exit =>
+      this.moveEffects.filter(effect => effect.exitIndex === exit.index).length
+    ));
+    this.exitZones.forEach(exit => {
+      exit.setStatus(this.grid.board.isExitOpen(exit.index), this.grid.board.getExitCapacityLeft(exit.index));
+    });
+  }
+
+  /**
+   * Lock colors a forward event opens: those of keys passed on the way, as
+   * recorded, plus any its block opens by exiting or stopping on a key
+   * (checked before the block moves)
+   */
+  private getUnlockedBy(event: ReplayEvent): string[] {
+    const opened = new Set(event.unlocked ?? []);
+    const block = this.blocks.find(b => b.id === event.blockId);
+    const boardBlock = this.grid.board.getBlock(event.blockId);
+    if (block && boardBlock) {
+      const color = event.color ?? block.color;
+      const moved = { ...boardBlock, shape: event.shape ?? boardBlock.shape };
+      const cells = event.action === 'exit' ? null : this.grid.board.getBlockCells(moved, event.to);
+      const unlocked = this.grid.board.getUnlockedBy(color, cells);
+      if (unlocked !== null) opened.add(unlocked);
+    }
+    return [...opened];
+  }
+
+  private updateLocks(animate: boolean): void {
+    const unlocked = new Set(this.moveEffects.flatMap(effect => effect.unlocked));
+    this.grid.setLocks(this.initialBoard.locks.filter(lock => !unlocked.has(lock.color.toLowerCase())));
+    this.lockTiles.forEach(tile => tile.setOpen(unlocked.has(tile.color.toLowerCase()), animate));
+  }
+
+  private applyBlockEvent(event: ReplayEvent, animate: boolean): void {
+    if (event.action === 'restore') {
+      const block = this.createBlock(event.blockId, event.to, event.shape, event.color);
+      this.blocks.push(block);
+      if (animate) {
+        block.setAlpha(0).setScale(0.5);
+        this.tweens.add({
+          targets: block,
+          alpha: 1,
+          scale: 1,
+          duration: ReplayScene.MOVE_DURATION / this.getSpeed(),
+          ease: 'Back.easeOut'
+        });
+      }
+      return;
+    }
+
+    const block = this.blocks.find(b => b.id === event.blockId);
+    if (!block) return;
+    if (event.color !== undefined) {
+      block.setColor(event.color, animate);
+    }
+
+    if (event.action === 'rotate' && event.shape !== undefined) {
+      this.tweens.killTweensOf(block);
+      block.setScale(1);
+      if (animate) {
+        block.rotateTo(event.shape, event.to);
+      } else {
+        block.setShape(event.shape);
+        block.setGridPosition(event.to.row, event.to.col);
+      }
+      return;
+    }
+
+    this.moveBlock(block, event.to, animate, () => {
+      if (event.action !== 'exit') return;
+      if (animate) {
+        block.removeBlock();
+      } else {
+        block.destroy();
+      }
+    });
+
+    if (event.action === 'exit') {
+      this.blocks = this.blocks.filter(b => b !== block);
+      if (animate) {
+        this.leavingBlocks.push(block);
+      }
+    }
+  }
+
+  /**
+   * Moves left before a frozen block thaws at the playhead
+   */
+  private getFrozenMoves(id: string): number {
+    return Math.max(0, (this.initialBoard.getBlock(id)?.frozen ?? 0) - this.appliedMoves);
+  }
+
+  private updateIce(): void {
+    this.blocks.forEach(block => {
+      const frozen = this.getFrozenMoves(block.id);
+      if (frozen !== block.frozen) {
+        block.setFrozen(frozen);
+      }
+    });
+  }
+
+  /**
+   * Move a block to a cell, sliding there when animating
+   */
+  private moveBlock(block: Block, to: GridPosition, animate: boolean, onComplete: () => void): void {
+    this.tweens.killTweensOf(block);
+    const startX = block.x;
+    const startY = block.y;
+    block.setGridPosition(to.row, to.col);
+
+    if (!animate) {
+      onComplete();
+      return;
+    }
+
+    const targetX = block.x;
+    const targetY = block.y;
+    block.setWorldPosition(startX, startY);
+    this.tweens.add({
+      targets: block,
+      x: targetX,
+      y: targetY,
+      duration: ReplayScene.MOVE_DURATION / this.getSpeed(),
+      ease: 'Sine.easeInOut',
+      onComplete
+    });
+  }
+
+  /**
+   * Create a non-interactive block as it was defined at the start of the level
+   * (or in another shape or color, for a block turned or painted before it exited)
+   */
+  private createBlock(id: string, position: GridPosition, shape?: ShapeType, color?: string): Block {
+    const boardBlock = this.initialBoard.getBlock(id);
+    if (!boardBlock) {
+      throw new Error(`Replay refers to unknown block ${id}`);
+    }
+
+    const block = new Block({
+      scene: this,
+      grid: this.grid,
+      id,
+      color: color ?? boardBlock.color,
+      shape: shape ?? boardBlock.shape,
+      gridPosition: position,
+      rotatable: boardBlock.rotatable,
+      axis: boardBlock.axis,
+      frozen: this.getFrozenMoves(id),
+      link: this.getLink(id)
+    });
+    block.disableInteractive();
+    return block;
+  }
+
+  /**
+   * Copy a link that opens this replay
+   */
+  private shareReplay(): void {
+    const code = encodeReplay(this.replay);
+    const url = `${window.location.origin}${window.location.pathname}?replay=${code}`;
+
+    if (!navigator.clipboard) {
+      this.showMessage('Copying is not available here');
+      return;
+    }
+    navigator.clipboard.writeText(url).then(
+      () => this.showMessage('Replay link copied'),
+      () => this.showMessage('Could not copy the replay link')
+    );
+  }
+
+  private describeOutcome(outcome: ReplayOutcome): string {
+    switch (outcome) {
+      case 'won':
+        return 'SOLVED';
+      case 'lost':
+        return "TIME'S UP";
+      default:
+        return 'UNFINISHED';
+    }
+  }
+
+  /**
+   * Show a short-lived message under the top bar
+   */
+  private showMessage(message: string): void {
+    this.message?.destroy();
+
+    const text = this.add.text(this.cameras.main.centerX, 95, message, {
+      fontSize: '16px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold',
+      backgroundColor: '#34495e',
+      padding: { x: 10, y: 6 }
+    }).setOrigin(0.5).setDepth(1100);
+    this.message = text;
+
+    this.tweens.add({
+      targets: text,
+      alpha: 0,
+      delay: 1500,
+      duration: 400,
+      onComplete: () => {
+        text.destroy();
+        if (this.message === text) {
+          this.message = undefined;
+        }
+      }
+    });
+  }
+
+  /**
+   * Replace the board with an error and a way back to the game
+   */
+  private showError(message: string): void {
+    const centerX = this.cameras.main.centerX;
+    const centerY = this.cameras.main.centerY;
+
+    this.add.text(centerX, centerY - 40, message, {
+      fontSize: '20px',
+      color: '#2c3e50',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold',
+      align: 'center',
+      wordWrap: { width: this.cameras.main.width * 0.8 }
+    }).setOrigin(0.5);
+
+    this.createButton(centerX, centerY + 30, 120, 'PLAY', 0x3498db, () => {
+      this.scene.start('GameScene', { level: 1 });
+    });
+  }
+
+  /**
+   * Format milliseconds in MM:SS format
+   */
+  private formatTime(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+
+  /**
+   * Create a button
+   */
+  private createButton(
+    x: number,
+    y: number,
+    width: number,
+    text: string,
+    color: number,
+    callback: () => void
+  ): void {
+    const height = 40;
+    const graphics = this.add.graphics();
+
+    graphics.fillStyle(color, 1);
+    graphics.fillRoundedRect(x - width / 2, y - height / 2, width, height, 8);
+
+    const buttonText = this.add.text(x, y, text, {
+      fontSize: '16px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      fontStyle: 'bold'
+    }).setOrigin(0.5);
+
+    graphics.setInteractive(
+      new Phaser.Geom.Rectangle(x - width / 2, y - height / 2, width, height),
+      Phaser.Geom.Rectangle.Contains
+    );
+
+    graphics.on('pointerdown', callback);
+
+    // Hover effect
+    graphics.on('pointerover', () => {
+      buttonText.setScale(1.05);
+    });
+
+    graphics.on('pointerout', () => {
+      buttonText.setScale(1);
+    });
+  }
+
+  /**
+   * Clean up when scene shuts down
+   */
+  shutdown(): void {
+    if (this.grid) {
+      this.grid.destroy();
+    }
+    this.exitZones.forEach(exit => exit.destroy());
+    this.lockTiles.forEach(tile => tile.destroy());
+    this.patrolTiles.forEach(tile => tile.destroy());
+    this.blocks.forEach(block => block.destroy());
+  }
+}
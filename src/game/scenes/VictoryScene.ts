@@ -1,11 +1,17 @@
 import Phaser from 'phaser';
-import { getTotalLevels } from '../data/levels';
+import { getLevels } from '../data/levels';
+import { Replay } from '../systems/ReplayRecorder';
+import { GameSceneData } from './GameScene';
 
 interface VictoryData {
   level: number;
   timeTaken: number;
   moves: number;
   timeLimit: number;
+  par?: number; // Optimal move count from the solver, when known
+  hintsUsed?: number;
+  replay?: Replay;
+  play?: GameSceneData; // Starts the same level again
 }
 
 export class VictoryScene extends Phaser.Scene {
@@ -30,7 +36,7 @@ export class VictoryScene extends Phaser.Scene {
 
     // Victory panel
     const panelWidth = Math.min(400, width * 0.9);
-    const panelHeight = 350;
+    const panelHeight = data.replay ? 410 : 350;
     const panelX = centerX - panelWidth / 2;
     const panelY = centerY - panelHeight / 2;
 
@@ -100,13 +106,40 @@ export class VictoryScene extends Phaser.Scene {
     // Buttons
     const buttonsY = panelY + panelHeight - 70;
 
-    // Check if there's a next level
-    const hasNextLevel = data.level < getTotalLevels();
+    const play = data.play ?? { level: data.level };
 
-    if (hasNextLevel) {
+    // Watch the session back
+    if (data.replay) {
+      const replay = data.replay;
+      this.createButton(centerX, buttonsY - 60, 150, 'REPLAY', 0x9b59b6, () => {
+        this.scene.start('ReplayScene', { replay, play });
+      });
+    }
+
+    // Check if there's a next level; ids in a pack need not be contiguous
+    const levels = getLevels();
+    const levelIndex = levels.findIndex(level => level.id === data.level);
+    const nextLevel = levelIndex >= 0 ? levels[levelIndex + 1] : undefined;
+    const hasNextLevel = !play.customLevel && nextLevel !== undefined;
+
+    if (play.customLevel) {
+      // Custom level - go back to where it came from, or try again
+      const returnTo = play.returnTo;
+      this.createButton(centerX - 80, buttonsY, 150, returnTo ? 'EDIT' : 'LEVELS', 0x3498db, () => {
+        if (returnTo) {
+          this.scene.start(returnTo, { levelData: play.customLevel });
+        } else {
+          this.scene.start('GameScene', { level: 1 });
+        }
+      });
+
+      this.createButton(centerX + 80, buttonsY, 70, 'RETRY', 0x95a5a6, () => {
+        this.scene.start('GameScene', play);
+      });
+    } else if (hasNextLevel) {
       // Next Level button
       this.createButton(centerX - 80, buttonsY, 150, 'NEXT', 0x3498db, () => {
-        this.scene.start('GameScene', { level: data.level + 1 });
+        this.scene.start('GameScene', { level: nextLevel.id });
       });
 
       // Retry button
@@ -126,14 +159,19 @@ export class VictoryScene extends Phaser.Scene {
    */
   private calculateStars(): number {
     const timePercent = this.levelData.timeTaken / this.levelData.timeLimit;
+    const par = this.levelData.par ?? 10; // Fall back to a flat budget if unsolved
 
-    if (timePercent <= 0.5 && this.levelData.moves <= 10) {
-      return 3; // Fast and efficient
+    let stars: number;
+    if (timePercent <= 0.5 && this.levelData.moves <= par) {
+      stars = 3; // Fast and efficient
     } else if (timePercent <= 0.75) {
-      return 2; // Good time
+      stars = 2; // Good time
     } else {
-      return 1; // Completed
+      stars = 1; // Completed
     }
+
+    // Each hint used costs a star, but finishing always earns at least one
+    return Math.max(1, stars - (this.levelData.hintsUsed || 0));
   }
 
   /**
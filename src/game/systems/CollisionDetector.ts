@@ -1,6 +1,10 @@
 import { Block } from '../entities/Block';
-import { Grid, Bounds, GridPosition } from '../entities/Grid';
+import { Grid, Bounds } from '../entities/Grid';
+import { GridPosition } from '../model/types';
 import { ExitZone } from '../entities/ExitZone';
+import { CellOffset, ShapeType, getShapeOffsets, rotateShape } from '../data/shapes';
+import { BoardState } from '../model/BoardState';
+import { colorsMatch, normalizeWall } from '../data/levels';
 
 export interface CollisionInfo {
   hasCollision: boolean;
@@ -10,39 +14,68 @@ export interface CollisionInfo {
 }
 
 export class CollisionDetector {
+  private static readonly COLLISION_BUFFER = 2; // blocks should be flush with no overlap
+
   public grid: Grid;
-  private obstacles: GridPosition[];
+  private blocks: Block[];
 
-  constructor(grid: Grid, _blocks: Block[], obstacles: GridPosition[] = []) {
+  constructor(grid: Grid, blocks: Block[]) {
     this.grid = grid;
-    this.obstacles = obstacles;
+    this.blocks = blocks;
   }
 
   /**
    * Update the blocks array (called when blocks are added/removed)
+   * Occupancy comes from the grid; the list only resolves link groups
+   */
+  public setBlocks(blocks: Block[]): void {
+    this.blocks = blocks;
+  }
+
+  /**
+   * Get the blocks that move with a block: the block first, then every block
+   * chained to it (just the block when it is not linked)
    */
-  public setBlocks(_blocks: Block[]): void {
-    // Blocks are tracked via grid occupancy, no need to store them
+  public getLinkedBlocks(block: Block): Block[] {
+    if (block.link === null) {
+      return [block];
+    }
+    return [block, ...this.blocks.filter(other => other !== block && other.link === block.link)];
   }
 
   /**
    * Check if a block can move to a position (world coordinates)
    * Uses AABB + world-space cell overlap detection for accurate collision
+   * A linked block carries its group along by the same offset, so the union
+   * of every member's cells is tested (members never block each other)
+   * Gates open or shut for where the block stands on its way (`fromX`,
+   * `fromY`; where it is by default), not for where it is headed
    *
    * TODO: Future optimization - Replace grid-based block iteration with spatial hash
    * for O(1) lookup instead of checking 3x3 grid cells per dragged cell.
    */
-  public canBlockMoveTo(block: Block, worldX: number, worldY: number): boolean {
-    const COLLISION_BUFFER = 2; // blocks should be flush with no overlap
-
-    // Get world-space cell bounds for the dragged block at desired position
-    const draggedCells = block.getWorldCellPositionsAt(worldX, worldY);
+  public canBlockMoveTo(block: Block, worldX: number, worldY: number, fromX: number = block.x, fromY: number = block.y): boolean {
+    const COLLISION_BUFFER = CollisionDetector.COLLISION_BUFFER;
+
+    // Get world-space cell bounds for the dragged block (and its group) at desired position
+    const group = this.getLinkedBlocks(block);
+    const dx = worldX - block.x;
+    const dy = worldY - block.y;
+    const draggedCells = group.flatMap(member => member.getWorldCellPositionsAt(member.x + dx, member.y + dy));
+    const board = this.grid.board.plates.length > 0
+      ? this.grid.board.withStanding(this.getCoveredCells(group, fromX - block.x, fromY - block.y))
+      : this.grid.board;
 
     // Phase 1: Calculate AABB for dragged block
     const draggedAABB = this.calculateAABB(draggedCells);
 
+    // Thin walls cut through blocks rather than filling cells
+    if (group.some(member => this.crossesWall(member, member.x + dx, member.y + dy, COLLISION_BUFFER))) {
+      return false;
+    }
+
     // Phase 2: Check against all other blocks (via grid occupancy)
-    const checkedBlocks = new Set<any>();
+    const checkedBlocks = new Set<Block>();
 
     for (const draggedCell of draggedCells) {
       // Check if entire cell is within playable bounds (not just center)
@@ -69,10 +102,18 @@ export class CollisionDetector {
           const checkRow = gridPos.row + dr;
           const checkCol = gridPos.col + dc;
 
-          if (!this.grid.isInBounds(checkRow, checkCol)) continue;
+          if (!this.grid.isInBounds(checkRow, checkCol)) {
+            // Cells cut out of an irregular board block like obstacles
+            if (this.grid.isVoid(checkRow, checkCol) &&
+                this.boundsOverlap(draggedCell, this.getObstacleCellBounds(checkRow, checkCol), COLLISION_BUFFER)) {
+              return false;
+            }
+            continue;
+          }
 
+          // Occupants are typed as GridOccupant; only blocks carry world bounds to test
           const occupant = this.grid.getCellOccupant(checkRow, checkCol);
-          if (occupant && occupant !== block && !checkedBlocks.has(occupant)) {
+          if (occupant instanceof Block && !group.includes(occupant) && !checkedBlocks.has(occupant)) {
             checkedBlocks.add(occupant);
 
             // Do AABB test first (fast rejection)
@@ -89,7 +130,7 @@ export class CollisionDetector {
           }
 
           // Check obstacles
-          if (this.isObstacle(checkRow, checkCol)) {
+          if (board.isObstacle(checkRow, checkCol)) {
             // Get obstacle cell bounds
             const obstacleCell = this.getObstacleCellBounds(checkRow, checkCol);
 
@@ -106,10 +147,72 @@ export class CollisionDetector {
   }
 
   /**
-   * Check if a grid cell contains an obstacle
+   * Check if a thin wall passes through a block's cells at a position (world
+   * coordinates); cells are merged into runs across each wall, so a wall
+   * between two cells of the same block cuts it too
    */
-  private isObstacle(row: number, col: number): boolean {
-    return this.obstacles.some(obs => obs.row === row && obs.col === col);
+  private crossesWall(block: Block, worldX: number, worldY: number, buffer: number): boolean {
+    const walls = this.grid.board.walls;
+    if (walls.length === 0) {
+      return false;
+    }
+
+    const size = this.grid.cellSize;
+    const has = (row: number, col: number) => block.shapeOffsets.some(o => o.row === row && o.col === col);
+    const runs = (vertical: boolean): Bounds[] => block.shapeOffsets
+      .filter(o => !(vertical ? has(o.row - 1, o.col) : has(o.row, o.col - 1)))
+      .map(o => {
+        let length = 1;
+        while (vertical ? has(o.row + length, o.col) : has(o.row, o.col + length)) length++;
+        return {
+          left: worldX + o.col * size,
+          top: worldY + o.row * size,
+          right: worldX + (o.col + (vertical ? 1 : length)) * size,
+          bottom: worldY + (o.row + (vertical ? length : 1)) * size
+        };
+      });
+    const columns = runs(true);
+    const rows = runs(false);
+
+    return walls.some(wall => {
+      const { row, col, side } = normalizeWall(wall);
+      const pos = this.grid.gridToWorld(row, col);
+      if (side === 'top') {
+        // Horizontal wall: cuts a column of cells it runs across
+        return columns.some(run =>
+          run.top + buffer < pos.y && run.bottom - buffer > pos.y &&
+          run.left + buffer < pos.x + size && run.right - buffer > pos.x
+        );
+      }
+      // Vertical wall: cuts a row of cells it runs across
+      return rows.some(run =>
+        run.left + buffer < pos.x && run.right - buffer > pos.x &&
+        run.top + buffer < pos.y + size && run.bottom - buffer > pos.y
+      );
+    });
+  }
+
+  /**
+   * Grid cells the blocks overlap at their world positions (optionally
+   * shifted); a cell only counts once a block is further into it than
+   * collisions allow, so one resting flush against a cell is not in it
+   */
+  public getCoveredCells(blocks: Block[], dx: number = 0, dy: number = 0): GridPosition[] {
+    const cells: GridPosition[] = [];
+    blocks.forEach(block => {
+      block.getWorldCellPositionsAt(block.x + dx, block.y + dy).forEach(bounds => {
+        const nearest = this.grid.worldToGrid(bounds.left, bounds.top);
+        for (let row = nearest.row - 1; row <= nearest.row + 1; row++) {
+          for (let col = nearest.col - 1; col <= nearest.col + 1; col++) {
+            if (!this.grid.isInBounds(row, col) || cells.some(cell => cell.row === row && cell.col === col)) continue;
+            if (this.boundsOverlap(bounds, this.getObstacleCellBounds(row, col), CollisionDetector.COLLISION_BUFFER)) {
+              cells.push({ row, col });
+            }
+          }
+        }
+      });
+    });
+    return cells;
   }
 
   /**
@@ -213,7 +316,7 @@ export class CollisionDetector {
       const testX = currentX + dx * t;
       const testY = currentY + dy * t;
 
-      if (this.canBlockMoveTo(block, testX, testY)) {
+      if (this.canBlockMoveTo(block, testX, testY, lastValidX, lastValidY)) {
         lastValidX = testX;
         lastValidY = testY;
       } else {
@@ -253,7 +356,7 @@ export class CollisionDetector {
       const midX = (validX + invalidX) / 2;
       const midY = (validY + invalidY) / 2;
 
-      if (this.canBlockMoveTo(block, midX, midY)) {
+      if (this.canBlockMoveTo(block, midX, midY, validX, validY)) {
         validX = midX;
         validY = midY;
       } else {
@@ -300,7 +403,7 @@ export class CollisionDetector {
       const testX = startX + dx * t;
       const testY = startY + dy * t;
 
-      if (this.canBlockMoveTo(block, testX, testY)) {
+      if (this.canBlockMoveTo(block, testX, testY, lastValidX, lastValidY)) {
         lastValidX = testX;
         lastValidY = testY;
       } else {
@@ -326,6 +429,8 @@ export class CollisionDetector {
    * When diagonal movement is blocked, tries to slide along free axis
    *
    * Priority: Full movement > X-only > Y-only > No movement
+   * Axis-locked blocks only follow the pointer along their axis (a linked
+   * group along every member's axis)
    */
   public getValidDragPositionWithSliding(
     block: Block,
@@ -334,6 +439,13 @@ export class CollisionDetector {
     currentX: number,
     currentY: number
   ): { x: number; y: number } {
+    const axes = this.getLinkedBlocks(block).map(member => member.axis);
+    if (axes.includes('horizontal')) {
+      desiredY = currentY;
+    }
+    if (axes.includes('vertical')) {
+      desiredX = currentX;
+    }
     // Calculate movement deltas
     const dx = desiredX - currentX;
     const dy = desiredY - currentY;
@@ -419,14 +531,27 @@ export class CollisionDetector {
     }
   }
 
+  /**
+   * Check if a grid position lies along a block's axis from where it stands
+   * (and along the axes of every block linked to it)
+   */
+  private isOnAxis(block: Block, row: number, col: number): boolean {
+    const axes = this.getLinkedBlocks(block).map(member => member.axis);
+    return (!axes.includes('horizontal') || row === block.gridPosition.row) &&
+      (!axes.includes('vertical') || col === block.gridPosition.col);
+  }
+
   /**
    * Find the nearest valid grid position for a block
+   * Axis-locked blocks only snap along their axis
    */
   public findNearestValidGridPosition(block: Block, worldX: number, worldY: number): GridPosition | null {
     const gridPos = this.grid.worldToGrid(worldX, worldY);
+    const canSnapTo = (row: number, col: number) =>
+      this.isOnAxis(block, row, col) && this.isValidGridPosition(block, row, col, gridPos);
 
     // Try the nearest position first
-    if (this.isValidGridPosition(block, gridPos.row, gridPos.col)) {
+    if (canSnapTo(gridPos.row, gridPos.col)) {
       return gridPos;
     }
 
@@ -439,7 +564,7 @@ export class CollisionDetector {
             const testRow = gridPos.row + dRow;
             const testCol = gridPos.col + dCol;
 
-            if (this.isValidGridPosition(block, testRow, testCol)) {
+            if (canSnapTo(testRow, testCol)) {
               return { row: testRow, col: testCol };
             }
           }
@@ -452,43 +577,90 @@ export class CollisionDetector {
   }
 
   /**
-   * Check if a block can be placed at a grid position
+   * Check if a block can be placed at a grid position, with any blocks linked
+   * to it shifted by as much; given the cell it was dropped at (`from`), it
+   * must also be able to slide there without crossing a thin wall, even when
+   * the cells beyond the wall are free
    */
-  public isValidGridPosition(block: Block, row: number, col: number): boolean {
-    // Check all cells the block would occupy
-    for (const offset of block.shapeOffsets) {
-      const checkRow = row + offset.row;
-      const checkCol = col + offset.col;
-
-      // Out of bounds?
-      if (!this.grid.isInBounds(checkRow, checkCol)) {
-        return false;
-      }
+  public isValidGridPosition(block: Block, row: number, col: number, from?: GridPosition): boolean {
+    if (!this.fitsAt(block, row, col)) {
+      return false;
+    }
+    if (!from || this.grid.board.walls.length === 0) {
+      return true;
+    }
 
-      // Check if cell is occupied by another block
-      const occupant = this.grid.getCellOccupant(checkRow, checkCol);
-      if (occupant !== null && occupant !== block) {
-        return false;
+    const group = this.getLinkedBlocks(block);
+    const pieces = group.map(member => ({
+      offsets: member.shapeOffsets,
+      position: {
+        row: member.gridPosition.row + from.row - block.gridPosition.row,
+        col: member.gridPosition.col + from.col - block.gridPosition.col
       }
+    }));
+    const offset = { row: row - from.row, col: col - from.col };
+    return this.grid.board.canSlide(pieces, offset, group.map(member => member.id));
+  }
 
-      // Check obstacles
-      if (this.isObstacle(checkRow, checkCol)) {
-        return false;
-      }
+  /**
+   * Check if a block (optionally with other shape offsets) fits at a grid
+   * position, with any blocks linked to it shifted by as much
+   */
+  private fitsAt(
+    block: Block,
+    row: number,
+    col: number,
+    offsets: CellOffset[] = block.shapeOffsets
+  ): boolean {
+    // Bounds, obstacles and other blocks are all answered by the board model
+    const group = this.getLinkedBlocks(block);
+    if (group.length === 1) {
+      return this.grid.board.canPlace(offsets, { row, col }, block.id);
     }
 
-    return true;
+    const ids = group.map(member => member.id);
+    const dRow = row - block.gridPosition.row;
+    const dCol = col - block.gridPosition.col;
+    return this.grid.board.canPlace(offsets, { row, col }, ids) && group.slice(1).every(member =>
+      this.grid.board.canPlace(
+        member.shapeOffsets,
+        { row: member.gridPosition.row + dRow, col: member.gridPosition.col + dCol },
+        ids
+      )
+    );
   }
 
   /**
-   * Check if a block is at a valid exit
+   * Find where a rotatable block lands when turned a quarter turn clockwise
+   * about its center, or null if it is fixed, linked, symmetric, or the turned cells are not free
+   */
+  public findRotation(block: Block): { shape: ShapeType; position: GridPosition } | null {
+    if (!block.rotatable || block.link !== null) {
+      return null;
+    }
+
+    const shape = rotateShape(block.shape);
+    if (shape === block.shape) {
+      return null; // Looks the same turned (e.g. Cross)
+    }
+
+    const offsets = getShapeOffsets(shape);
+    const position = BoardState.getRotationOrigins(block.shape, block.gridPosition)
+      .find(origin => this.fitsAt(block, origin.row, origin.col, offsets));
+    return position ? { shape, position } : null;
+  }
+
+  /**
+   * Check if a block is at a valid exit that is open to it (capacity left,
+   * its turn in the exit's order and the exit's condition met)
    */
   public checkExitCondition(block: Block, exitZones: ExitZone[]): ExitZone | null {
     const blockBounds = block.getWorldBounds();
 
     for (const exit of exitZones) {
-      // Color must match
-      if (exit.color.toLowerCase() !== block.color.toLowerCase()) {
+      // Color must match (the block's current color, after any paint;
+      // rainbow blocks and exits match every color)
+      if (!colorsMatch(block.color, exit.color)) {
         continue;
       }
 
@@ -502,12 +674,47 @@ export class CollisionDetector {
         continue;
       }
 
+      // The exit's rules must let this block through now
+      if (!this.grid.board.isExitOpen(exit.index, block.id)) {
+        continue;
+      }
+
+      // A thin wall on the board's edge can close part of the exit
+      const cells = block.shapeOffsets.map(offset => ({
+        row: block.gridPosition.row + offset.row,
+        col: block.gridPosition.col + offset.col
+      }));
+      if (this.grid.board.isExitWalled(exit.index, cells)) {
+        continue;
+      }
+
       return exit;
     }
 
     return null;
   }
 
+  /**
+   * Check if every block of a linked group is at a valid exit open to it,
+   * with room in each exit for all of them; returns each member's exit
+   */
+  public checkGroupExitCondition(blocks: Block[], exitZones: ExitZone[]): ExitZone[] | null {
+    const exits: ExitZone[] = [];
+    for (const block of blocks) {
+      const exit = this.checkExitCondition(block, exitZones);
+      if (!exit) {
+        return null;
+      }
+      exits.push(exit);
+    }
+
+    const hasRoom = exits.every(exit => {
+      const left = this.grid.board.getExitCapacityLeft(exit.index);
+      return left === null || exits.filter(other => other === exit).length <= left;
+    });
+    return hasRoom ? exits : null;
+  }
+
   /**
    * Get block bounds at a specific position
    */
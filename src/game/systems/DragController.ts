@@ -1,8 +1,28 @@
 import Phaser from 'phaser';
 import { Block } from '../entities/Block';
 import { Grid } from '../entities/Grid';
+import { GridPosition } from '../model/types';
 import { ExitZone } from '../entities/ExitZone';
 import { CollisionDetector } from './CollisionDetector';
+import { ShapeType } from '../data/shapes';
+import { isCrate } from '../data/levels';
+
+/**
+ * A block carried along by a drag through its link, with where it started,
+ * the locks it opened by passing over keys (and the exit it left through, if
+ * the group exited)
+ */
+export interface LinkedDrag {
+  block: Block;
+  from: GridPosition;
+  fromColor: string;
+  unlocked: string[];
+  exit?: ExitZone;
+}
+
+interface DraggedBlock extends LinkedDrag {
+  cell: GridPosition; // Cell it was last over, for paint and keys
+}
 
 export interface DragControllerConfig {
   scene: Phaser.Scene;
@@ -10,22 +30,35 @@ export interface DragControllerConfig {
   blocks: Block[];
   exitZones: ExitZone[];
   collisionDetector: CollisionDetector;
-  onMoveComplete?: () => void;
-  onBlockRemoved?: (block: Block) => void;
+  onMoveComplete?: (block: Block, from: GridPosition, fromColor: string, unlocked: string[], linked: LinkedDrag[]) => void;
+  onBlockRemoved?: (
+    block: Block,
+    from: GridPosition,
+    fromColor: string,
+    unlocked: string[],
+    exit: ExitZone,
+    linked: LinkedDrag[]
+  ) => void;
+  onBlockRotated?: (block: Block, fromShape: ShapeType, from: GridPosition, fromColor: string) => void;
   onFirstInteraction?: () => void;
 }
 
 export class DragController {
+  private static readonly DOUBLE_TAP_MS = 300;
+
   private scene: Phaser.Scene;
   private blocks: Block[];
   private exitZones: ExitZone[];
   private collisionDetector: CollisionDetector;
   private activeBlock: Block | null = null;
   private hasHadFirstInteraction: boolean = false;
+  private lastTap: { block: Block; time: number } | null = null; // For double-tap rotation
+  private dragged: DraggedBlock[] = []; // The dragged block first, then any linked to it
 
   // Callbacks
-  private onMoveComplete?: () => void;
-  private onBlockRemoved?: (block: Block) => void;
+  private onMoveComplete?: DragControllerConfig['onMoveComplete'];
+  private onBlockRemoved?: DragControllerConfig['onBlockRemoved'];
+  private onBlockRotated?: (block: Block, fromShape: ShapeType, from: GridPosition, fromColor: string) => void;
   private onFirstInteraction?: () => void;
 
   constructor(config: DragControllerConfig) {
@@ -35,6 +68,7 @@ export class DragController {
     this.collisionDetector = config.collisionDetector;
     this.onMoveComplete = config.onMoveComplete;
     this.onBlockRemoved = config.onBlockRemoved;
+    this.onBlockRotated = config.onBlockRotated;
     this.onFirstInteraction = config.onFirstInteraction;
 
     this.setupDragHandlers();
@@ -77,6 +111,13 @@ export class DragController {
    * Handle drag start
    */
   private onDragStart(block: Block, pointer: Phaser.Input.Pointer): void {
+    // Frozen blocks stay put until their ice thaws, holding any linked blocks too
+    const group = this.collisionDetector.getLinkedBlocks(block);
+    if (group.some(member => member.frozen > 0)) {
+      group.forEach(member => member.shake());
+      return;
+    }
+
     // Trigger first interaction callback if this is the first time
     if (!this.hasHadFirstInteraction) {
       this.hasHadFirstInteraction = true;
@@ -86,7 +127,15 @@ export class DragController {
     }
 
     this.activeBlock = block;
-    block.startDrag(pointer);
+    this.dragged = group.map(member => ({
+      block: member,
+      from: { ...member.gridPosition },
+      fromColor: member.color,
+      unlocked: [],
+      cell: { ...member.gridPosition }
+    }));
+    group.forEach(member => member.startDrag(pointer));
+    this.updateStanding();
   }
 
   /**
@@ -112,8 +161,60 @@ export class DragController {
       currentY
     );
 
-    // Update block position
-    block.updateDrag(validPos.x, validPos.y);
+    // Update block position, carrying linked blocks by as much
+    const dx = validPos.x - currentX;
+    const dy = validPos.y - currentY;
+    this.dragged.forEach(entry => {
+      entry.block.updateDrag(entry.block.x + dx, entry.block.y + dy);
+
+      // Paint recolors a block and keys open locks as it passes over (not where it was picked up)
+      const cell = this.collisionDetector.grid.worldToGrid(entry.block.x, entry.block.y);
+      if (cell.row !== entry.cell.row || cell.col !== entry.cell.col) {
+        entry.cell = cell;
+        this.applyPaint(entry.block, cell);
+        this.passKeys(entry, cell);
+      }
+    });
+    this.updateStanding();
+  }
+
+  /**
+   * Tell the grid where the dragged blocks stand while they are lifted off
+   * it, so plates under them stay pressed and gates they are in stay open
+   */
+  private updateStanding(): void {
+    this.collisionDetector.grid.setStanding(this.collisionDetector.getCoveredCells(this.dragged.map(entry => entry.block)));
+  }
+
+  /**
+   * Recolor a block to the paint under its cells at a position, if any
+   * (crates are never painted)
+   */
+  private applyPaint(block: Block, position: GridPosition): void {
+    if (isCrate(block.color)) return;
+    const cells = block.shapeOffsets.map(offset => ({
+      row: position.row + offset.row,
+      col: position.col + offset.col
+    }));
+    const color = this.collisionDetector.grid.board.getPaintAt(cells);
+    if (color !== null) {
+      block.setColor(color);
+    }
+  }
+
+  /**
+   * Note the locks a dragged block opens by covering a key of its color at a
+   * position; they open once the move is made
+   */
+  private passKeys(entry: DraggedBlock, position: GridPosition): void {
+    const cells = entry.block.shapeOffsets.map(offset => ({
+      row: position.row + offset.row,
+      col: position.col + offset.col
+    }));
+    const unlocked = this.collisionDetector.grid.board.getUnlockedBy(entry.block.color, cells);
+    if (unlocked !== null && !entry.unlocked.includes(unlocked)) {
+      entry.unlocked.push(unlocked);
+    }
   }
 
   /**
@@ -122,41 +223,52 @@ export class DragController {
   private onDragEnd(block: Block): void {
     if (!block.isDragging) return;
 
-    block.endDrag();
+    this.dragged.forEach(entry => entry.block.endDrag());
     this.activeBlock = null;
+    const [lead, ...linked] = this.dragged;
 
-    // FIRST: Check if block is at a valid exit (before snapping to grid)
-    // We need to temporarily update the block's grid position based on current world position
-    const currentGridPos = this.collisionDetector.grid.worldToGrid(block.x, block.y);
-    const savedGridPos = { ...block.gridPosition };
-    block.gridPosition = currentGridPos; // Temporarily update for exit check
+    // FIRST: Check if the block (every linked block, too) is at a valid exit (before snapping to grid)
+    // We need to temporarily update the grid positions based on current world positions
+    this.dragged.forEach(entry => {
+      entry.block.gridPosition = this.collisionDetector.grid.worldToGrid(entry.block.x, entry.block.y);
+    });
 
-    const exitZone = this.collisionDetector.checkExitCondition(block, this.exitZones);
+    const exitZones = this.collisionDetector.checkGroupExitCondition(
+      this.dragged.map(entry => entry.block),
+      this.exitZones
+    );
 
-    if (exitZone) {
-      // Block is exiting - remove it
-      block.removeBlock();
+    if (exitZones) {
+      // Blocks are exiting - remove them
+      this.dragged.forEach((entry, index) => {
+        entry.exit = exitZones[index];
+        entry.block.removeBlock();
 
-      // Remove from blocks array
-      const index = this.blocks.indexOf(block);
-      if (index > -1) {
-        this.blocks.splice(index, 1);
-      }
+        // Remove from blocks array
+        const blockIndex = this.blocks.indexOf(entry.block);
+        if (blockIndex > -1) {
+          this.blocks.splice(blockIndex, 1);
+        }
+      });
 
       // Update collision detector
       this.collisionDetector.setBlocks(this.blocks);
+      this.collisionDetector.grid.setStanding([]);
 
       // Trigger callback
       if (this.onBlockRemoved) {
-        this.onBlockRemoved(block);
+        this.onBlockRemoved(block, lead.from, lead.fromColor, lead.unlocked, exitZones[0], linked);
       }
       return;
     }
 
-    // Restore saved grid position
-    block.gridPosition = savedGridPos;
+    // Restore saved grid positions
+    this.dragged.forEach(entry => {
+      entry.block.gridPosition = { ...entry.from };
+    });
 
     // SECOND: If not exiting, find nearest valid grid position and snap to it
+    // (along the block's axis when it is locked to one; linked blocks keep their offsets)
     const validGridPos = this.collisionDetector.findNearestValidGridPosition(
       block,
       block.x,
@@ -164,16 +276,76 @@ export class DragController {
     );
 
     if (validGridPos) {
-      // Snap to valid grid position
-      block.setGridPosition(validGridPos.row, validGridPos.col);
+      // Snap to valid grid positions (paint there counts too)
+      const dRow = validGridPos.row - lead.from.row;
+      const dCol = validGridPos.col - lead.from.col;
+      this.dragged.forEach(entry => {
+        const position = { row: entry.from.row + dRow, col: entry.from.col + dCol };
+        entry.block.setGridPosition(position.row, position.col);
+        this.applyPaint(entry.block, position);
+      });
+      // Back on the board, the blocks press plates themselves
+      this.collisionDetector.grid.setStanding([]);
+
+      // Dropped where it started in the same colors, past no keys: a tap, not a move
+      const samePosition = dRow === 0 && dCol === 0;
+      if (samePosition && this.dragged.every(entry => entry.block.color === entry.fromColor && entry.unlocked.length === 0)) {
+        this.onTap(block);
+        return;
+      }
+
+      // A block dropped on a portal comes out of the other end, if there is
+      // room for it; the jump is part of the same move
+      const target = this.collisionDetector.grid.board.getPortalTarget(block.id, validGridPos);
+      if (target && this.collisionDetector.isValidGridPosition(block, target.row, target.col)) {
+        block.teleportTo(target);
+        this.applyPaint(block, target);
+      }
 
       // Normal move - trigger callback
+      this.lastTap = null;
       if (this.onMoveComplete) {
-        this.onMoveComplete();
+        this.onMoveComplete(block, lead.from, lead.fromColor, lead.unlocked, linked);
       }
     } else {
-      // No valid position found, return to last valid position
-      block.setGridPosition(block.lastValidPosition.row, block.lastValidPosition.col);
+      // No valid position found, return to last valid positions (and colors)
+      this.dragged.forEach(entry => {
+        entry.block.setGridPosition(entry.block.lastValidPosition.row, entry.block.lastValidPosition.col);
+        entry.block.setColor(entry.fromColor, false);
+      });
+      this.collisionDetector.grid.setStanding([]);
+    }
+  }
+
+  /**
+   * Handle a tap on a block; a second tap on a rotatable block turns it
+   */
+  private onTap(block: Block): void {
+    const now = this.scene.time.now;
+    const isDoubleTap = this.lastTap !== null &&
+      this.lastTap.block === block &&
+      now - this.lastTap.time <= DragController.DOUBLE_TAP_MS;
+
+    if (!isDoubleTap || !block.rotatable) {
+      this.lastTap = { block, time: now };
+      return;
+    }
+    this.lastTap = null;
+
+    const rotation = this.collisionDetector.findRotation(block);
+    if (!rotation) {
+      block.shake();
+      return;
+    }
+
+    const fromShape = block.shape;
+    const fromColor = block.color;
+    const from = { ...block.gridPosition };
+    block.rotateTo(rotation.shape, rotation.position);
+    this.applyPaint(block, rotation.position);
+
+    if (this.onBlockRotated) {
+      this.onBlockRotated(block, fromShape, from, fromColor);
     }
   }
 
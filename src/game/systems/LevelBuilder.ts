@@ -0,0 +1,246 @@
+import Phaser from 'phaser';
+import { Grid } from '../entities/Grid';
+import { GridPosition } from '../model/types';
+import { ExitZone } from '../entities/ExitZone';
+import { LockTile } from '../entities/LockTile';
+import { PatrolTile } from '../entities/PatrolTile';
+import { Block } from '../entities/Block';
+import { BlockLink } from '../entities/BlockLink';
+import { LevelData, getPatrolRoute } from '../data/levels';
+import { ShapeType, getShapeOffsets } from '../data/shapes';
+
+/**
+ * Ring colors of portal pairs, in level order (both ends of a pair match)
+ */
+const PORTAL_COLORS = [0x8e44ad, 0x16a085, 0xd35400, 0x2980b9];
+
+/**
+ * Vertical space reserved for HUD above and below the board
+ */
+export interface BoardLayout {
+  uiTopHeight: number;
+  uiBottomHeight: number;
+}
+
+export interface LevelBoard {
+  grid: Grid;
+  exitZones: ExitZone[];
+  obstacleGraphics: Phaser.GameObjects.Graphics[];
+  paintGraphics: Phaser.GameObjects.Graphics[];
+  scissorsGraphics: Phaser.GameObjects.Graphics[];
+  portalGraphics: Phaser.GameObjects.Graphics[]; // Both ends of each pair, in level order
+  lockTiles: LockTile[]; // Locks in level order, then keys
+  patrolTiles: PatrolTile[]; // In level order, each on the first cell of its route
+}
+
+/**
+ * Create the centered grid, exit zones, obstacles, paint, scissors, portals, locks, keys and patrols for a level
+ * Shared by every scene that shows a board (gameplay, replays, editing)
+ */
+export function createLevelBoard(scene: Phaser.Scene, levelData: LevelData, layout: BoardLayout): LevelBoard {
+  // Calculate grid positioning
+  const gameWidth = scene.cameras.main.width;
+  const gameHeight = scene.cameras.main.height;
+  const gridMaxWidth = gameWidth * 0.95;
+  const gridMaxHeight = gameHeight - layout.uiTopHeight - layout.uiBottomHeight;
+
+  // Create grid (with temporary position)
+  const grid = new Grid({
+    scene,
+    rows: levelData.gridSize.rows,
+    cols: levelData.gridSize.cols,
+    x: 0,
+    y: 0,
+    maxWidth: gridMaxWidth,
+    maxHeight: gridMaxHeight * 0.95,
+    obstacles: levelData.obstacles,
+    exits: levelData.exits,
+    locks: levelData.locks,
+    keys: levelData.keys,
+    paints: levelData.paints,
+    scissors: levelData.scissors,
+    mask: levelData.mask,
+    walls: levelData.walls,
+    portals: levelData.portals,
+    patrols: levelData.patrols,
+    plates: levelData.plates
+  });
+
+  // Calculate actual grid dimensions and center it
+  const actualGridWidth = grid.cols * grid.cellSize + grid.wallThickness * 2;
+  const actualGridHeight = grid.rows * grid.cellSize + grid.wallThickness * 2;
+
+  grid.x = (gameWidth - actualGridWidth) / 2;
+  grid.y = layout.uiTopHeight + (gridMaxHeight - actualGridHeight) / 2;
+
+  // Render grid (with any plates and gates)
+  grid.render();
+
+  // Create exit zones
+  const exitZones = levelData.exits.map((exitData, index) => new ExitZone({
+    scene,
+    grid,
+    index,
+    color: exitData.color,
+    side: exitData.side,
+    startCell: exitData.startCell,
+    endCell: exitData.endCell,
+    capacity: exitData.capacity,
+    ordered: exitData.order !== undefined && exitData.order.length > 0,
+    opensWhen: exitData.opensWhen
+  }));
+
+  // Create obstacles (render as dark gray blocks; a shaped one is a single
+  // piece, outlined like a block of that shape)
+  const obstacleGraphics = levelData.obstacles.map(obstacle => {
+    const worldPos = grid.gridToWorld(obstacle.row, obstacle.col);
+    const graphics = scene.add.graphics();
+    graphics.fillStyle(0x2c3e50, 1);
+    if (obstacle.shape !== undefined) {
+      const offsets = getShapeOffsets(obstacle.shape);
+      const points = Block.offsetPathInward(Block.buildOuterEdgePath(offsets, grid.cellSize), 2);
+      Block.drawRoundedPath(graphics, offsets, grid.cellSize, points, grid.cellSize * 0.1, worldPos.x, worldPos.y);
+      graphics.fillPath();
+      return graphics;
+    }
+    graphics.fillRoundedRect(
+      worldPos.x + 2,
+      worldPos.y + 2,
+      grid.cellSize - 4,
+      grid.cellSize - 4,
+      grid.cellSize * 0.1
+    );
+    return graphics;
+  });
+
+  // Create paint tiles (a splash of color on the floor, under the blocks)
+  const paintGraphics = (levelData.paints ?? []).map(paint => {
+    const worldPos = grid.gridToWorld(paint.row, paint.col);
+    const color = Block.getDisplayColor(paint.color);
+    const size = grid.cellSize;
+    const centerX = worldPos.x + size / 2;
+    const centerY = worldPos.y + size / 2;
+    const graphics = scene.add.graphics();
+
+    graphics.fillStyle(color, 0.35);
+    graphics.fillRoundedRect(worldPos.x + 3, worldPos.y + 3, size - 6, size - 6, size * 0.1);
+    graphics.fillStyle(color, 0.9);
+    graphics.fillCircle(centerX, centerY, size * 0.2);
+    [0, 1, 2, 3, 4].forEach(index => {
+      const angle = index * Math.PI * 0.4 + 0.3;
+      const distance = size * (index % 2 === 0 ? 0.3 : 0.26);
+      graphics.fillCircle(centerX + Math.cos(angle) * distance, centerY + Math.sin(angle) * distance, size * 0.06);
+    });
+    return graphics;
+  });
+
+  // Create scissors cells (blades over a floor marking) that cut links
+  const scissorsGraphics = (levelData.scissors ?? []).map(pos => {
+    const worldPos = grid.gridToWorld(pos.row, pos.col);
+    const size = grid.cellSize;
+    const centerX = worldPos.x + size / 2;
+    const centerY = worldPos.y + size / 2;
+    const graphics = scene.add.graphics();
+
+    graphics.fillStyle(0x95a5a6, 0.25);
+    graphics.fillRoundedRect(worldPos.x + 3, worldPos.y + 3, size - 6, size - 6, size * 0.1);
+    graphics.lineStyle(Math.max(2, size * 0.06), 0x7f8c8d, 1);
+    graphics.lineBetween(centerX - size * 0.2, centerY - size * 0.28, centerX + size * 0.12, centerY + size * 0.08);
+    graphics.lineBetween(centerX + size * 0.2, centerY - size * 0.28, centerX - size * 0.12, centerY + size * 0.08);
+    graphics.strokeCircle(centerX - size * 0.15, centerY + size * 0.18, size * 0.09);
+    graphics.strokeCircle(centerX + size * 0.15, centerY + size * 0.18, size * 0.09);
+    return graphics;
+  });
+
+  // Create portals (matching rings on both ends of each pair, over the floor)
+  const portalGraphics = (levelData.portals ?? []).flatMap((portal, index) => {
+    const color = PORTAL_COLORS[index % PORTAL_COLORS.length];
+    return [portal.a, portal.b].map(end => drawPortalEnd(scene, grid, end, portal.shape, color));
+  });
+
+  // Locks start closed; scenes open them as keys are used
+  const lockTiles = [
+    ...(levelData.locks ?? []).map(lock => new LockTile({
+      scene,
+      grid,
+      kind: 'lock',
+      color: lock.color,
+      position: { row: lock.row, col: lock.col }
+    })),
+    ...(levelData.keys ?? []).map(key => new LockTile({
+      scene,
+      grid,
+      kind: 'key',
+      color: key.color,
+      position: { row: key.row, col: key.col }
+    }))
+  ];
+
+  // Patrols start on their first waypoint; scenes step them as moves are made
+  const patrolTiles = (levelData.patrols ?? []).map((patrol, index) => new PatrolTile({
+    scene,
+    grid,
+    index,
+    route: getPatrolRoute(patrol)
+  }));
+
+  return { grid, exitZones, obstacleGraphics, paintGraphics, scissorsGraphics, portalGraphics, lockTiles, patrolTiles };
+}
+
+/**
+ * Draw one end of a portal: a tinted pad over its footprint with a swirl of
+ * rings in each cell
+ */
+function drawPortalEnd(
+  scene: Phaser.Scene,
+  grid: Grid,
+  end: GridPosition,
+  shape: ShapeType | undefined,
+  color: number
+): Phaser.GameObjects.Graphics {
+  const worldPos = grid.gridToWorld(end.row, end.col);
+  const size = grid.cellSize;
+  const offsets = shape !== undefined ? getShapeOffsets(shape) : [{ row: 0, col: 0 }];
+  const points = Block.offsetPathInward(Block.buildOuterEdgePath(offsets, size), 3);
+  const graphics = scene.add.graphics();
+
+  graphics.fillStyle(color, 0.2);
+  Block.drawRoundedPath(graphics, offsets, size, points, size * 0.15, worldPos.x, worldPos.y);
+  graphics.fillPath();
+  graphics.lineStyle(Math.max(2, size * 0.05), color, 0.9);
+  Block.drawRoundedPath(graphics, offsets, size, points, size * 0.15, worldPos.x, worldPos.y);
+  graphics.strokePath();
+
+  offsets.forEach(offset => {
+    const centerX = worldPos.x + (offset.col + 0.5) * size;
+    const centerY = worldPos.y + (offset.row + 0.5) * size;
+    graphics.lineStyle(Math.max(2, size * 0.04), color, 0.8);
+    graphics.strokeCircle(centerX, centerY, size * 0.28);
+    graphics.strokeCircle(centerX, centerY, size * 0.16);
+    graphics.fillStyle(color, 0.9);
+    graphics.fillCircle(centerX, centerY, size * 0.06);
+  });
+  return graphics;
+}
+
+/**
+ * Create the chains drawn between the blocks of each link group in a level
+ * (groups of one block are not links)
+ */
+export function createBlockLinks(
+  scene: Phaser.Scene,
+  grid: Grid,
+  levelData: LevelData,
+  getBlock: (id: string) => Block | undefined
+): BlockLink[] {
+  return (levelData.links ?? [])
+    .map((group, index) => ({ group, index }))
+    .filter(({ group }) => group.length > 1)
+    .map(({ group, index }) => new BlockLink({
+      scene,
+      grid,
+      index,
+      blockIds: group.map(blockIndex => `block-${blockIndex}`),
+      getBlock
+    }));
+}
@@ -0,0 +1,90 @@
+import { GridPosition } from '../model/types';
+import { ShapeType } from '../data/shapes';
+
+/**
+ * A single completed move: a snap to a new cell, a rotation in place or an
+ * exit through an ExitZone, possibly recoloring the block on the way (a
+ * linked group moves as one, with a record per block)
+ */
+export interface MoveRecord {
+  blockId: string;
+  color: string; // Color and shape let an exited block be recreated on undo
+  shape: ShapeType;
+  from: GridPosition;
+  to: GridPosition;
+  exited: boolean;
+  rotatedFrom?: ShapeType; // Shape before the move; set only for rotations (`shape` is the shape after)
+  unlocked?: string[]; // Colors of the locks the move opened, by passing keys or exiting
+  exitIndex?: number; // Exit the block left through; set only for exits
+  recoloredFrom?: string; // Color before the move; set only when paint changed it (`color` is the color after)
+  linked?: MoveRecord[]; // Blocks carried along through a link, as part of this one move
+  cutLink?: number; // Link group the move cut by stopping on scissors
+  patrolSteps?: number[]; // Step of its route each patrol stood on after the move; set only on levels with patrols
+}
+
+/**
+ * Linear undo/redo stack of moves
+ * Recording a new move discards anything that was undone
+ */
+export class MoveHistory {
+  private done: MoveRecord[] = [];
+  private undone: MoveRecord[] = [];
+
+  /**
+   * Record a completed move
+   */
+  public record(move: MoveRecord): void {
+    this.done.push(move);
+    this.undone = [];
+  }
+
+  /**
+   * Pop the latest move for undoing (null if nothing to undo)
+   */
+  public undo(): MoveRecord | null {
+    const move = this.done.pop();
+    if (!move) return null;
+    this.undone.push(move);
+    return move;
+  }
+
+  /**
+   * The move redo() would return, without taking it (null if nothing to redo)
+   */
+  public peekRedo(): MoveRecord | null {
+    return this.undone[this.undone.length - 1] ?? null;
+  }
+
+  /**
+   * Pop the latest undone move for redoing (null if nothing to redo)
+   */
+  public redo(): MoveRecord | null {
+    const move = this.undone.pop();
+    if (!move) return null;
+    this.done.push(move);
+    return move;
+  }
+
+  public canUndo(): boolean {
+    return this.done.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.undone.length > 0;
+  }
+
+  /**
+   * Moves currently applied, oldest first
+   */
+  public getMoves(): readonly MoveRecord[] {
+    return this.done;
+  }
+
+  /**
+   * Forget all history
+   */
+  public clear(): void {
+    this.done = [];
+    this.undone = [];
+  }
+}
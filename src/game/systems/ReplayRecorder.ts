@@ -0,0 +1,260 @@
+import { GridPosition } from '../model/types';
+import { ShapeType } from '../data/shapes';
+
+/**
+ * What happened to a block at one point of a replay
+ * - move: snapped from one cell to another
+ * - exit: left the board through an exit (from its cell at `to`)
+ * - restore: came back onto the board at `to` (an exit was undone)
+ * - rotate: turned into `shape`, moving its origin from `from` to `to`
+ */
+export type ReplayAction = 'move' | 'exit' | 'restore' | 'rotate';
+
+export type ReplayOutcome = 'won' | 'lost' | 'abandoned';
+
+export interface ReplayEvent {
+  time: number; // Milliseconds since the timer started
+  blockId: string;
+  action: ReplayAction;
+  from: GridPosition;
+  to: GridPosition;
+  shape?: ShapeType; // Shape after a rotation, or of a restored block
+  color?: string; // Color after paint recolored the block, or of a restored block
+  unlocked?: string[]; // Colors of the locks the event opened, by passing keys or exiting
+  undo?: boolean; // Reverses an earlier move (restores always do)
+  linked?: boolean; // Carried along by the event before it through a link: the same move
+}
+
+/**
+ * Optional parts of an event, beyond which block moved where
+ */
+export type ReplayEventDetails = Pick<ReplayEvent, 'shape' | 'color' | 'unlocked' | 'undo' | 'linked'>;
+
+export interface Replay {
+  version: number;
+  levelId: number;
+  levelCode?: string; // Level code of a custom level, replayed instead of the built-in levelId
+  duration: number; // Milliseconds from the timer starting to the session ending
+  outcome: ReplayOutcome;
+  events: ReplayEvent[];
+}
+
+export const REPLAY_VERSION = 1;
+
+const ACTION_CODES: Record<ReplayAction, number> = { move: 0, exit: 1, restore: 2, rotate: 3 };
+const ACTIONS: ReplayAction[] = ['move', 'exit', 'restore', 'rotate'];
+const UNDO_FLAG = 8; // Added to the action code of undo events
+const LINKED_FLAG = 16; // Added to the action code of events carried along through a link
+const OUTCOMES: ReplayOutcome[] = ['won', 'lost', 'abandoned'];
+
+/**
+ * Records a play session as timestamped block events
+ * Times are relative to start(), so clocks are passed in by the caller
+ */
+export class ReplayRecorder {
+  private levelId: number;
+  private levelCode?: string;
+  private startTime: number | null = null;
+  private endTime: number | null = null;
+  private outcome: ReplayOutcome = 'abandoned';
+  private events: ReplayEvent[] = [];
+
+  /**
+   * Custom levels pass their level code so shared replays carry the level with them
+   */
+  constructor(levelId: number, levelCode?: string) {
+    this.levelId = levelId;
+    this.levelCode = levelCode;
+  }
+
+  /**
+   * Start the clock (ignored once started)
+   */
+  public start(now: number): void {
+    if (this.startTime === null) {
+      this.startTime = now;
+    }
+  }
+
+  public isStarted(): boolean {
+    return this.startTime !== null;
+  }
+
+  /**
+   * Record an event at the given clock time
+   */
+  public record(
+    action: ReplayAction,
+    blockId: string,
+    from: GridPosition,
+    to: GridPosition,
+    now: number,
+    details: ReplayEventDetails = {}
+  ): void {
+    if (this.startTime === null || this.endTime !== null) return;
+
+    const event: ReplayEvent = {
+      time: Math.max(0, Math.round(now - this.startTime)),
+      blockId,
+      action,
+      from: { ...from },
+      to: { ...to }
+    };
+    if (details.shape !== undefined) event.shape = details.shape;
+    if (details.color !== undefined) event.color = details.color;
+    if (details.unlocked !== undefined && details.unlocked.length > 0) event.unlocked = [...details.unlocked];
+    if (details.undo) event.undo = true;
+    if (details.linked) event.linked = true;
+    this.events.push(event);
+  }
+
+  /**
+   * Stop recording; later events are ignored
+   */
+  public finish(outcome: ReplayOutcome, now: number): void {
+    if (this.endTime !== null) return;
+    this.outcome = outcome;
+    this.endTime = now;
+  }
+
+  public getReplay(): Replay {
+    const startTime = this.startTime ?? 0;
+    const lastEvent = this.events.length > 0 ? this.events[this.events.length - 1].time : 0;
+    const duration = this.endTime !== null ? Math.round(this.endTime - startTime) : lastEvent;
+
+    const replay: Replay = {
+      version: REPLAY_VERSION,
+      levelId: this.levelId,
+      duration: Math.max(duration, lastEvent),
+      outcome: this.outcome,
+      events: this.events.map(event => ({
+        ...event,
+        from: { ...event.from },
+        to: { ...event.to },
+        ...(event.unlocked ? { unlocked: [...event.unlocked] } : {})
+      }))
+    };
+    if (this.levelCode !== undefined) replay.levelCode = this.levelCode;
+    return replay;
+  }
+}
+
+/**
+ * Encode a replay as a compact URL-safe string for sharing
+ */
+export function encodeReplay(replay: Replay): string {
+  const events = replay.events.map(event => {
+    const tuple: (string | number | string[] | null)[] = [
+      event.time,
+      event.blockId,
+      ACTION_CODES[event.action] + (event.undo ? UNDO_FLAG : 0) + (event.linked ? LINKED_FLAG : 0),
+      event.from.row,
+      event.from.col,
+      event.to.row,
+      event.to.col
+    ];
+    // Shape and color are null placeholders when only later fields follow
+    if (event.shape !== undefined || event.color !== undefined || event.unlocked) tuple.push(event.shape ?? null);
+    if (event.color !== undefined || event.unlocked) tuple.push(event.color ?? null);
+    if (event.unlocked) tuple.push(event.unlocked);
+    return tuple;
+  });
+  const header = [replay.version, replay.levelId, replay.duration, OUTCOMES.indexOf(replay.outcome)];
+  // The level code of a custom level trails the events so built-in replays stay short
+  const json = JSON.stringify(replay.levelCode !== undefined
+    ? [...header, events, replay.levelCode]
+    : [...header, events]);
+
+  const bytes = new TextEncoder().encode(json);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a string from encodeReplay
+ * Throws if the code is malformed or from an unsupported version
+ */
+export function decodeReplay(code: string): Replay {
+  let data: unknown;
+  try {
+    const base64 = code.trim().replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('Replay code is not valid');
+  }
+
+  if (!Array.isArray(data) || data.length < 5 || data.length > 6) {
+    throw new Error('Replay code is not valid');
+  }
+
+  const [version, levelId, duration, outcomeIndex, events, levelCode] = data;
+  if (version !== REPLAY_VERSION) {
+    throw new Error(`Replay version ${version} is not supported`);
+  }
+  if (!Number.isInteger(levelId) || typeof duration !== 'number' || duration < 0) {
+    throw new Error('Replay header is not valid');
+  }
+  const outcome = OUTCOMES[outcomeIndex];
+  if (!outcome) {
+    throw new Error(`Replay outcome ${outcomeIndex} is not valid`);
+  }
+  if (!Array.isArray(events)) {
+    throw new Error('Replay events are not valid');
+  }
+  if (levelCode !== undefined && typeof levelCode !== 'string') {
+    throw new Error('Replay level code is not valid');
+  }
+
+  let previousTime = 0;
+  const decoded = events.map((event: unknown, index: number): ReplayEvent => {
+    if (!Array.isArray(event) || event.length < 7 || event.length > 10) {
+      throw new Error(`Replay event ${index} is not valid`);
+    }
+    const [time, blockId, actionCode, fromRow, fromCol, toRow, toCol, shapeOrNull, colorOrNull, unlocked] = event;
+    const shape = shapeOrNull ?? undefined;
+    const color = colorOrNull ?? undefined;
+    const linked = Number.isInteger(actionCode) && actionCode >= LINKED_FLAG;
+    const flagless = linked ? actionCode - LINKED_FLAG : actionCode;
+    const undo = Number.isInteger(flagless) && flagless >= UNDO_FLAG;
+    const action = ACTIONS[undo ? flagless - UNDO_FLAG : flagless];
+    const cells = [fromRow, fromCol, toRow, toCol];
+
+    if (typeof time !== 'number' || time < previousTime || time > duration) {
+      throw new Error(`Replay event ${index} has an out of order time ${time}`);
+    }
+    if (typeof blockId !== 'string' || !action || !cells.every(Number.isInteger)) {
+      throw new Error(`Replay event ${index} is not valid`);
+    }
+    if ((shape !== undefined && typeof shape !== 'string') || (action === 'rotate' && shape === undefined)) {
+      throw new Error(`Replay event ${index} has an invalid shape`);
+    }
+    if (color !== undefined && typeof color !== 'string') {
+      throw new Error(`Replay event ${index} has an invalid color`);
+    }
+    if (unlocked !== undefined && (!Array.isArray(unlocked) || !unlocked.every(lock => typeof lock === 'string'))) {
+      throw new Error(`Replay event ${index} has invalid unlocked locks`);
+    }
+    previousTime = time;
+
+    const decodedEvent: ReplayEvent = {
+      time,
+      blockId,
+      action,
+      from: { row: fromRow, col: fromCol },
+      to: { row: toRow, col: toCol }
+    };
+    if (shape !== undefined) decodedEvent.shape = shape;
+    if (color !== undefined) decodedEvent.color = color;
+    if (unlocked !== undefined && unlocked.length > 0) decodedEvent.unlocked = unlocked;
+    if (undo) decodedEvent.undo = true;
+    if (linked) decodedEvent.linked = true;
+    return decodedEvent;
+  });
+
+  const replay: Replay = { version, levelId, duration, outcome, events: decoded };
+  if (levelCode !== undefined) replay.levelCode = levelCode;
+  return replay;
+}
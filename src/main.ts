@@ -1,6 +1,7 @@
 import './styles/main.css';
 import Phaser from 'phaser';
 import { gameConfig } from './game/config';
+import { loadLevelPacks } from './game/data/levelLoader';
 
 // Global error handler for resource loading
 window.addEventListener('error', (event) => {
@@ -19,11 +20,39 @@ window.addEventListener('unhandledrejection', (event) => {
 });
 
 // Initialize the game when DOM is ready
-window.addEventListener('load', () => {
+window.addEventListener('load', async () => {
   try {
     console.log('Initializing Color Block PWA...');
 
-    new Phaser.Game(gameConfig);
+    // Level packs from public/levels; the built-in levels still play if they fail
+    const { levels, errors } = await loadLevelPacks();
+    errors.forEach(message => console.error('Failed to load level pack:', message));
+    if (levels.length > 0) {
+      console.log(`Loaded ${levels.length} levels from level packs`);
+    }
+
+    const game = new Phaser.Game(gameConfig);
+
+    // Shared links: ?level= plays a custom level, ?replay= opens playback, ?editor opens the level editor
+    const params = new URLSearchParams(window.location.search);
+    const levelCode = params.get('level');
+    const replayCode = params.get('replay');
+    if (levelCode) {
+      // GameScene decodes the level, showing an error if the link is broken
+      game.events.once(Phaser.Core.Events.READY, () => {
+        game.scene.start('GameScene', { levelCode });
+      });
+    } else if (replayCode) {
+      game.events.once(Phaser.Core.Events.READY, () => {
+        game.scene.stop('GameScene');
+        game.scene.start('ReplayScene', { code: replayCode });
+      });
+    } else if (params.has('editor')) {
+      game.events.once(Phaser.Core.Events.READY, () => {
+        game.scene.stop('GameScene');
+        game.scene.start('LevelEditorScene');
+      });
+    }
 
     console.log('Game initialized successfully');
   } catch (error) {